@@ -69,7 +69,8 @@ export class Cache<V> extends Map<string, V> {
 
     if (this.size > this.limit) {
       while (this.size > this.limit) {
-        this.delete(this.keys().next().value);
+        // Evicts only from memory, values kept by a cache adapter stay there
+        super.delete(this.keys().next().value);
       }
     }
 
@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-unnecessary-condition */
-import { Client, InteractionClient } from "@client/Client";
+import { BaseClient, Client, InteractionClient } from "@client/Client";
 import { ClientChannelsDataManager } from "@manager/ChannelDataManager";
 import { DataCache } from "@manager/DataManager";
 import { EmojiDataManager } from "@manager/EmojiDataManager";
@@ -7,7 +7,7 @@ import { GuildDataManager } from "@manager/GuildDataManager";
 import { ClientRoles, RoleDataManager } from "@manager/RoleDataManager";
 import { UserDataManager } from "@manager/UserDataManager";
 import { ThreadChannel } from "@resources/Channel";
-import { ClientOptions } from "@typings/index";
+import { ClientOptions, InteractionClientEvents } from "@typings/index";
 
 import { Cache } from "./Cache";
 
@@ -25,6 +25,40 @@ export class CacheManager {
     this.guilds = this._createCache("guilds") as GuildDataManager;
     this.users = this._createCache("users") as UserDataManager;
     this.roles = this._createCache("roles") as RoleDataManager;
+
+    this._bindAdapter(this.channels.cache, "channels");
+    this._bindAdapter(this.threads, "threads");
+    this._bindAdapter(this.emojis.cache, "emojis");
+    this._bindAdapter(this.guilds.cache, "guilds");
+    this._bindAdapter(this.users.cache, "users");
+    this._bindAdapter(this.roles.cache, "roles");
+  }
+
+  /**
+   * The client typed with the events emitted by every client
+   */
+  get _emitter() {
+    return this.client as BaseClient<
+      Pick<InteractionClientEvents, "connect" | "warn">
+    >;
+  }
+
+  /**
+   * Store the values of a data cache in the configured cache adapter
+   * @param cache The data cache
+   * @param namespace Prefix of the keys written by this cache
+   */
+  _bindAdapter(cache: DataCache<any>, namespace: string) {
+    const adapter = this.client.options.cache?.adapter;
+
+    if (adapter) {
+      cache._setAdapter(adapter, namespace, (err) => {
+        this._emitter.emit(
+          "warn",
+          `Cache adapter error in ${namespace}: ${err}`,
+        );
+      });
+    }
   }
 
   _createCache(
@@ -35,8 +69,11 @@ export class CacheManager {
     switch (option) {
       case "guilds": {
         if (this._cacheLimit("guilds")) {
-          this.client.once("connect", () => {
-            this.client.emit("warn", "Limiting guild cache can cause problems");
+          this._emitter.once("connect", () => {
+            this._emitter.emit(
+              "warn",
+              "Limiting guild cache can cause problems",
+            );
           });
         }
 
@@ -49,7 +86,7 @@ export class CacheManager {
         );
       }
       case "roles": {
-        return new ClientRoles(options?.roles ?? Infinity);
+        return new ClientRoles(options?.roles ?? Infinity, this);
       }
       case "users": {
         return new UserDataManager(options?.users ?? Infinity, this);
@@ -58,7 +95,16 @@ export class CacheManager {
         return new EmojiDataManager(options?.emojis ?? Infinity, this);
       }
       default: {
-        return new DataCache();
+        const threads = new DataCache<ThreadChannel>(
+          this._cacheLimit("threads"),
+        );
+
+        threads._setResolver((get, id) => {
+          const thread = get(id);
+          return thread && (this.channels._resolve(thread) as ThreadChannel);
+        });
+
+        return threads;
       }
     }
   }
@@ -0,0 +1,126 @@
+import { AsyncCacheAdapter } from "@typings/index";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import { clearTimeout, setTimeout } from "node:timers";
+
+export interface FileCacheAdapterOptions {
+  /**
+   * Path of the json file
+   */
+  path: string;
+  /**
+   * Time to wait after a change before writing the file
+   * @default 1_000
+   */
+  flushDelay?: number;
+}
+
+/**
+ * Async cache adapter that stores the values in a local json file
+ *
+ * The file is loaded in the first operation and written after changes,
+ * only one process should write in the same file
+ */
+export class FileCacheAdapter implements AsyncCacheAdapter<any> {
+  readonly path: string;
+  flushDelay: number;
+  #data?: Map<string, any>;
+  #loading?: Promise<Map<string, any>>;
+  #flushTimer: NodeJS.Timeout | null;
+  #writing: Promise<void>;
+
+  constructor(options: FileCacheAdapterOptions | string) {
+    if (typeof options === "string") {
+      options = { path: options };
+    }
+
+    this.path = options.path;
+    this.flushDelay = options.flushDelay ?? 1_000;
+    this.#flushTimer = null;
+    this.#writing = Promise.resolve();
+  }
+
+  #load() {
+    if (this.#data) return Promise.resolve(this.#data);
+
+    this.#loading ??= readFile(this.path, "utf8")
+      .then(
+        (content) => new Map<string, any>(Object.entries(JSON.parse(content))),
+      )
+      .catch((err) => {
+        if (err.code === "ENOENT") return new Map<string, any>();
+        throw err;
+      })
+      .then((data) => (this.#data = data));
+
+    return this.#loading;
+  }
+
+  #scheduleFlush() {
+    if (this.#flushTimer) return;
+
+    this.#flushTimer = setTimeout(() => {
+      this.#flushTimer = null;
+      this.flush().catch(() => null);
+    }, this.flushDelay).unref();
+  }
+
+  /**
+   * Write the values in file
+   */
+  async flush() {
+    if (this.#flushTimer) {
+      clearTimeout(this.#flushTimer);
+      this.#flushTimer = null;
+    }
+
+    const data = await this.#load();
+    const content = JSON.stringify(Object.fromEntries(data));
+
+    // Writes are chained to avoid two writes in the same temporary file
+    this.#writing = this.#writing
+      .catch(() => null)
+      .then(async () => {
+        const temp = `${this.path}.tmp`;
+
+        await writeFile(temp, content);
+        await rename(temp, this.path);
+      });
+
+    return this.#writing;
+  }
+
+  async get(key: string) {
+    return (await this.#load()).get(key);
+  }
+
+  async set(key: string, value: any) {
+    (await this.#load()).set(key, value);
+    this.#scheduleFlush();
+    return this;
+  }
+
+  async delete(key: string) {
+    const deleted = (await this.#load()).delete(key);
+
+    if (deleted) this.#scheduleFlush();
+
+    return deleted;
+  }
+
+  async clear() {
+    (await this.#load()).clear();
+    this.#scheduleFlush();
+  }
+
+  async keys() {
+    return [...(await this.#load()).keys()];
+  }
+
+  async has(key: string) {
+    return (await this.#load()).has(key);
+  }
+
+  async size() {
+    return (await this.#load()).size;
+  }
+}
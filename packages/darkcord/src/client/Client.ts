@@ -1,13 +1,15 @@
 import { CacheManager } from "@cache/CacheManager";
-import { Interaction } from "@resources/Interaction";
+import { Interaction, ReplyableInteraction } from "@resources/Interaction";
 import { ClientUser } from "@resources/User";
 import {
+  AnyClient,
   BaseClientOptions,
   ClientEvents,
   ClientOptions,
   InteractionClientEvents,
   InteractionClientOptions,
 } from "@typings/index";
+import { Events, InteractionTimeouts } from "@utils/Constants";
 import { MakeError, bitsArrayToBits } from "@utils/index";
 import {
   ApplicationFlags,
@@ -16,7 +18,11 @@ import {
 } from "discord-api-types/v10";
 import EventEmitter from "node:events";
 
-import { WebServer } from "@darkcord/interactions";
+import {
+  APIWebhookEventBody,
+  ApplicationWebhookEventType,
+  WebServer,
+} from "@darkcord/interactions";
 import { Rest } from "@darkcord/rest";
 import { ChannelDataManager } from "@manager/ChannelDataManager";
 import { DataCache } from "@manager/DataManager";
@@ -28,6 +34,8 @@ import { ThreadChannel } from "@resources/Channel";
 import { PluginManager } from "@utils/PluginManager";
 import { Resolvable } from "@utils/Resolvable";
 import { ClientApplication } from "../resources/Application";
+import { CommandRegistry } from "./CommandRegistry";
+import { ComponentRouter } from "./ComponentRouter";
 import { WebSocket } from "./WebSocket";
 
 export declare interface BaseClient<E extends Record<string, any>> {
@@ -58,6 +66,14 @@ export class BaseClient<E> extends EventEmitter {
    * Time that the bot was ready
    */
   readyAt: number;
+  /**
+   * Registry of application commands
+   */
+  commands: CommandRegistry;
+  /**
+   * Router of message components and modals by custom id
+   */
+  components: ComponentRouter;
 
   constructor(options?: BaseClientOptions) {
     super();
@@ -69,6 +85,37 @@ export class BaseClient<E> extends EventEmitter {
     this.isReady = false;
     this.options = options;
     this.rest = new Rest();
+
+    if (options.rest?.apiURL) {
+      this.rest.setAPIURL(options.rest.apiURL);
+    }
+
+    if (options.rest?.proxy) {
+      this.rest.setProxy(options.rest.proxy);
+    }
+
+    for (const interceptor of options.rest?.interceptors ?? []) {
+      this.rest.use(interceptor);
+    }
+
+    this.commands = new CommandRegistry(
+      this as unknown as AnyClient,
+      options.commands,
+    );
+    this.components = new ComponentRouter(this as unknown as AnyClient);
+  }
+
+  async _syncCommands() {
+    if (!this.options.commands?.sync) return;
+
+    try {
+      await this.commands.sync();
+    } catch (err) {
+      this.emit(
+        "warn" as keyof E,
+        `Failed to sync application commands: ${err}`,
+      );
+    }
   }
 
   /**
@@ -156,6 +203,20 @@ export class InteractionClient extends BaseClient<InteractionClientEvents> {
 
     this.options.resolvePartialData = Boolean(options.resolvePartialData);
 
+    if (options.autoDefer === true) {
+      this.options.autoDefer = {};
+    }
+
+    if (
+      typeof options.autoDefer === "object" &&
+      (options.autoDefer.after ?? 0) >= InteractionTimeouts.InitialResponse
+    ) {
+      throw MakeError({
+        name: "InvalidAutoDefer",
+        message: "Interactions must be auto deferred within 3 seconds",
+      });
+    }
+
     const cache = new CacheManager(this);
     this.cache = cache;
     this.channels = cache.channels;
@@ -165,25 +226,66 @@ export class InteractionClient extends BaseClient<InteractionClientEvents> {
     this.threads = cache.threads;
     this.users = cache.users;
 
-    this.webserver.on("listen", async () => {
-      this.readyAt = Date.now();
-      this.isReady = true;
+    this.webserver.on("listen", () => this._ready());
 
-      this.emit("connect");
+    this.webserver.on("interactionDataReceived", async (body, res) => {
+      try {
+        let interaction = Interaction.from({ ...body, client: this }, res);
+
+        const autoDefer = this.options.autoDefer;
+        if (
+          typeof autoDefer === "object" &&
+          interaction instanceof ReplyableInteraction
+        ) {
+          interaction._startAutoDefer(
+            autoDefer.after ?? 2_000,
+            autoDefer.flags,
+          );
+        }
+
+        if (this.options.resolvePartialData) {
+          interaction = await Resolvable.resolvePartialHTTPInteractionValues(
+            interaction,
+            this,
+          );
+        }
+
+        this.emit("interactionCreate", interaction);
+      } catch (err) {
+        // Ends the request if the interaction was not responded yet
+        res.fail();
+        this.emit(Events.Warn, `Interaction ${body.id} failed: ${err}`);
+      }
     });
 
-    this.webserver.on("interactionDataReceived", async (body, res) => {
-      let interaction = Interaction.from({ ...body, client: this }, res);
+    this.webserver.on("webhookEventReceived", (event) =>
+      this._handleWebhookEvent(event),
+    );
+  }
 
-      if (this.options.resolvePartialData) {
-        interaction = await Resolvable.resolvePartialHTTPInteractionValues(
-          interaction,
-          this,
-        );
+  _handleWebhookEvent(event: APIWebhookEventBody) {
+    this.emit("webhookEvent", event);
+
+    switch (event.type) {
+      case ApplicationWebhookEventType.ApplicationAuthorized: {
+        this.emit("applicationAuthorized", {
+          integrationType: event.data.integration_type ?? null,
+          user: this.users.add(event.data.user)!,
+          scopes: event.data.scopes,
+          guild: event.data.guild ?? null,
+          authorizedAt: Date.parse(event.timestamp),
+        });
+        break;
       }
-
-      this.emit("interactionCreate", interaction);
-    });
+      case ApplicationWebhookEventType.ApplicationDeauthorized: {
+        this.emit("applicationDeauthorized", this.users.add(event.data.user)!);
+        break;
+      }
+      case ApplicationWebhookEventType.EntitlementCreate: {
+        this.emit("entitlementCreate", event.data);
+        break;
+      }
+    }
   }
 
   async connect() {
@@ -206,7 +308,20 @@ export class InteractionClient extends BaseClient<InteractionClientEvents> {
       }
     }
 
-    await this.webserver.listen();
+    await this._syncCommands();
+
+    if (this.options.webserver.port === undefined) {
+      this._ready();
+    } else {
+      await this.webserver.listen();
+    }
+  }
+
+  _ready() {
+    this.readyAt = Date.now();
+    this.isReady = true;
+
+    this.emit("connect");
   }
 }
 
@@ -317,6 +432,9 @@ export class Client extends BaseClient<ClientEvents> {
     }
 
     options.gateway.disabledEvents ??= [];
+    options.checkPermissions = Boolean(options.checkPermissions);
+    options.fetchAllMembers = options.fetchAllMembers !== false;
+    options.partials = Boolean(options.partials);
 
     this.pluginManager = new PluginManager(this);
     if (options.plugins?.length) {
@@ -349,6 +467,7 @@ export class Client extends BaseClient<ClientEvents> {
     this.users = cache.users;
 
     this.websocket = new WebSocket(this);
+    this.once(Events.Ready, () => this._syncCommands());
 
     // This is set in ready
     this.user = null;
@@ -0,0 +1,189 @@
+import { ClusterInfo } from "@typings/index";
+import { MakeError } from "@utils/index";
+import type { Serializable } from "node:child_process";
+import EventEmitter from "node:events";
+import { isMainThread, parentPort } from "node:worker_threads";
+import type { Client } from "./Client";
+import {
+  BroadcastEvalOptions,
+  ClusterEvalFunction,
+  ClusterMessage,
+  deserializeError,
+  isClusterMessage,
+  serializeError,
+} from "./ClusterManager";
+
+export interface ClusterClientEvents {
+  message: [message: any];
+}
+
+export declare interface ClusterClient {
+  on<T extends keyof ClusterClientEvents>(
+    event: T,
+    listener: (...args: ClusterClientEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof ClusterClientEvents>(
+    event: T,
+    listener: (...args: ClusterClientEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof ClusterClientEvents>(
+    event: T,
+    ...args: ClusterClientEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Connects a Client running in a cluster with the ClusterManager
+ *
+ * The client must be created with the shards of the cluster,
+ * see ClusterClient.getInfo
+ */
+export class ClusterClient extends EventEmitter {
+  info: ClusterInfo;
+  #nonce: number;
+  #pending: Map<
+    string,
+    { resolve: (value: any) => void; reject: (err: Error) => void }
+  >;
+
+  constructor(public client: Client) {
+    super();
+
+    this.info = ClusterClient.getInfo();
+    this.#nonce = 0;
+    this.#pending = new Map();
+
+    const port = isMainThread ? process : parentPort!;
+    port.on("message", (message: unknown) => this._handleMessage(message));
+
+    client.websocket.requestIdentify = (shardId) =>
+      this._request({ op: "identify", shardId });
+
+    client.on("ready", () =>
+      this.send({ _darkcordCluster: true, op: "ready" }),
+    );
+  }
+
+  /**
+   * Get the information of the cluster running this process or thread
+   */
+  static getInfo(): ClusterInfo {
+    const info = process.env.DARKCORD_CLUSTER;
+
+    if (!info) {
+      throw MakeError({
+        name: "NotACluster",
+        message: "This process was not spawned by a ClusterManager",
+      });
+    }
+
+    return JSON.parse(info);
+  }
+
+  get id() {
+    return this.info.clusterId;
+  }
+
+  /**
+   * Send a message to the manager, received in Cluster "message" event
+   * @param message The message to send
+   */
+  send(message: Serializable) {
+    if (isMainThread) {
+      process.send!(message);
+    } else {
+      parentPort!.postMessage(message);
+    }
+  }
+
+  /**
+   * Execute a function in all clusters
+   * @param fn The function to execute, it is serialized and cannot use outer variables
+   * @param options Options of the eval
+   * @returns The results ordered by cluster id
+   */
+  broadcastEval<R, C = unknown>(
+    fn: ClusterEvalFunction<R, C> | string,
+    options: BroadcastEvalOptions<C> = {},
+  ) {
+    return this._request<Awaited<R>[]>({
+      op: "broadcastEval",
+      script: typeof fn === "function" ? fn.toString() : fn,
+      context: options.context,
+      clusterIds: options.clusterIds,
+    });
+  }
+
+  /**
+   * Get a property of the client of all clusters
+   * @param prop The property path, like "guilds.cache.size"
+   * @returns The values ordered by cluster id
+   */
+  fetchClientValues<R = unknown>(prop: string) {
+    return this._request<R[]>({ op: "fetchClientValues", prop });
+  }
+
+  _request<R>(message: Omit<ClusterMessage, "_darkcordCluster">) {
+    const nonce = `c${this.id}:${this.#nonce++}`;
+
+    return new Promise<R>((resolve, reject) => {
+      this.#pending.set(nonce, { resolve, reject });
+      this.send({ ...message, _darkcordCluster: true, nonce });
+    });
+  }
+
+  _reply(nonce: string | undefined, fn: () => unknown) {
+    new Promise((resolve) => resolve(fn()))
+      .then((result) =>
+        this.send({ _darkcordCluster: true, op: "result", nonce, result }),
+      )
+      .catch((err) =>
+        this.send({
+          _darkcordCluster: true,
+          op: "result",
+          nonce,
+          error: serializeError(err),
+        }),
+      );
+  }
+
+  _handleMessage(message: unknown) {
+    if (!isClusterMessage(message)) {
+      this.emit("message", message);
+      return;
+    }
+
+    switch (message.op) {
+      case "result": {
+        const pending = this.#pending.get(message.nonce!);
+
+        if (pending) {
+          this.#pending.delete(message.nonce!);
+
+          if (message.error) pending.reject(deserializeError(message.error));
+          else pending.resolve(message.result);
+        }
+        break;
+      }
+      case "eval": {
+        this._reply(message.nonce, () => {
+          // eslint-disable-next-line @typescript-eslint/no-implied-eval
+          const fn = new Function(`return (${message.script})`)();
+          return fn(this.client, message.context);
+        });
+        break;
+      }
+      case "fetchClientValue": {
+        this._reply(message.nonce, () =>
+          message
+            .prop!.split(".")
+            .reduce<any>((value, key) => value?.[key], this.client),
+        );
+        break;
+      }
+    }
+  }
+}
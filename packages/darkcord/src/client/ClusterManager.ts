@@ -0,0 +1,562 @@
+import { Rest } from "@darkcord/rest";
+import {
+  ClusterEvents,
+  ClusterInfo,
+  ClusterManagerEvents,
+  ClusterManagerOptions,
+} from "@typings/index";
+import { MakeError } from "@utils/index";
+import { ChildProcess, fork, Serializable } from "node:child_process";
+import EventEmitter from "node:events";
+import { cpus } from "node:os";
+import { setTimeout } from "node:timers";
+import { Worker } from "node:worker_threads";
+import type { Client } from "./Client";
+
+/**
+ * Time that a rate limit bucket waits between identifies
+ */
+export const IdentifyDelay = 5_000;
+
+/**
+ * Message exchanged between the manager and the clusters
+ * @internal
+ */
+export interface ClusterMessage {
+  _darkcordCluster: true;
+  op:
+    | "ready"
+    | "identify"
+    | "eval"
+    | "broadcastEval"
+    | "fetchClientValue"
+    | "fetchClientValues"
+    | "result";
+  nonce?: string;
+  shardId?: number;
+  script?: string;
+  context?: unknown;
+  clusterIds?: number[];
+  prop?: string;
+  result?: unknown;
+  error?: { name: string; message: string; stack?: string };
+}
+
+export interface BroadcastEvalOptions<C = unknown> {
+  /**
+   * Value passed as second argument of the function
+   */
+  context?: C;
+  /**
+   * Ids of clusters that will execute the function
+   */
+  clusterIds?: number[];
+}
+
+export type ClusterEvalFunction<R, C = unknown> = (
+  client: Client,
+  context: C,
+) => R | Promise<R>;
+
+export const isClusterMessage = (message: any): message is ClusterMessage =>
+  typeof message === "object" &&
+  message !== null &&
+  message._darkcordCluster === true;
+
+export const serializeError = (err: any) => ({
+  name: err?.name ?? "Error",
+  message: err?.message ?? String(err),
+  stack: err?.stack,
+});
+
+export const deserializeError = (err: ClusterMessage["error"]) => {
+  const error = new Error(err!.message);
+  error.name = err!.name;
+  error.stack = err!.stack;
+  return error;
+};
+
+export declare interface Cluster {
+  on<T extends keyof ClusterEvents>(
+    event: T,
+    listener: (...args: ClusterEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof ClusterEvents>(
+    event: T,
+    listener: (...args: ClusterEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof ClusterEvents>(
+    event: T,
+    ...args: ClusterEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+export class Cluster extends EventEmitter {
+  /**
+   * The child process or worker thread of this cluster
+   */
+  worker: ChildProcess | Worker | null;
+  /**
+   * Whether the client of this cluster emitted ready
+   */
+  ready: boolean;
+  #killed: boolean;
+  #nonce: number;
+  #pending: Map<
+    string,
+    { resolve: (value: any) => void; reject: (err: Error) => void }
+  >;
+
+  constructor(
+    public manager: ClusterManager,
+    public id: number,
+    public shardIds: number[],
+  ) {
+    super();
+
+    this.worker = null;
+    this.ready = false;
+    this.#killed = false;
+    this.#nonce = 0;
+    this.#pending = new Map();
+  }
+
+  get info(): ClusterInfo {
+    return {
+      clusterId: this.id,
+      shardIds: this.shardIds,
+      totalShards: this.manager.totalShards,
+      totalClusters: this.manager.clusters.size,
+      maxConcurrency: this.manager.maxConcurrency,
+    };
+  }
+
+  /**
+   * Spawn the process or thread of this cluster
+   * @returns Resolves when the cluster client is ready
+   */
+  spawn() {
+    if (this.worker) {
+      throw MakeError({
+        name: "ClusterAlreadySpawned",
+        message: `The cluster ${this.id} is already spawned`,
+      });
+    }
+
+    this.#killed = false;
+    this.ready = false;
+
+    const { mode, args, execArgv } = this.manager.options;
+    const env = {
+      ...process.env,
+      DARKCORD_CLUSTER: JSON.stringify(this.info),
+    };
+
+    if (mode === "worker") {
+      const worker = new Worker(this.manager.file, {
+        argv: args,
+        execArgv,
+        env,
+      });
+
+      worker.on("message", (message) => this._handleMessage(message));
+      worker.on("error", (err) => this.emit("error", err));
+      worker.on("exit", (code) => this._handleExit(code));
+
+      this.worker = worker;
+    } else {
+      const child = fork(this.manager.file, args, { execArgv, env });
+
+      child.on("message", (message) => this._handleMessage(message));
+      child.on("error", (err) => this.emit("error", err));
+      child.on("exit", (code) => this._handleExit(code));
+
+      this.worker = child;
+    }
+
+    this.emit("spawn");
+
+    return new Promise<void>((resolve, reject) => {
+      const onReady = () => {
+        this.off("death", onDeath);
+        resolve();
+      };
+
+      const onDeath = (code: number | null) => {
+        this.off("ready", onReady);
+        reject(
+          MakeError({
+            name: "ClusterDied",
+            message: `The cluster ${this.id} exited with code ${code} before being ready`,
+          }),
+        );
+      };
+
+      this.once("ready", onReady);
+      this.once("death", onDeath);
+    });
+  }
+
+  /**
+   * Kill the process or thread of this cluster without respawning it
+   */
+  kill() {
+    if (!this.worker) return;
+
+    this.#killed = true;
+
+    if (this.worker instanceof Worker) {
+      void this.worker.terminate();
+    } else {
+      this.worker.kill();
+    }
+  }
+
+  /**
+   * Kill and spawn again this cluster
+   */
+  respawn() {
+    if (this.worker) {
+      this.kill();
+      this.worker.removeAllListeners();
+      this._rejectPending(`The cluster ${this.id} was respawned`);
+      this.worker = null;
+    }
+
+    return this.spawn();
+  }
+
+  /**
+   * Send a message to the cluster, received in ClusterClient "message" event
+   * @param message The message to send
+   */
+  send(message: Serializable) {
+    if (!this.worker) {
+      throw MakeError({
+        name: "ClusterNotSpawned",
+        message: `The cluster ${this.id} is not spawned`,
+      });
+    }
+
+    if (this.worker instanceof Worker) {
+      this.worker.postMessage(message);
+    } else {
+      this.worker.send(message);
+    }
+  }
+
+  /**
+   * Execute a function in the client of this cluster
+   * @param fn The function to execute, it is serialized and cannot use outer variables
+   * @param context Value passed as second argument of the function
+   */
+  eval<R, C = unknown>(fn: ClusterEvalFunction<R, C> | string, context?: C) {
+    return this._request<Awaited<R>>({
+      op: "eval",
+      script: typeof fn === "function" ? fn.toString() : fn,
+      context,
+    });
+  }
+
+  /**
+   * Get a property of the client of this cluster
+   * @param prop The property path, like "guilds.cache.size"
+   */
+  fetchClientValue<R = unknown>(prop: string) {
+    return this._request<R>({ op: "fetchClientValue", prop });
+  }
+
+  _request<R>(message: Omit<ClusterMessage, "_darkcordCluster">) {
+    const nonce = `${this.id}:${this.#nonce++}`;
+
+    return new Promise<R>((resolve, reject) => {
+      this.#pending.set(nonce, { resolve, reject });
+
+      try {
+        this.send({ ...message, _darkcordCluster: true, nonce });
+      } catch (err) {
+        this.#pending.delete(nonce);
+        reject(err);
+      }
+    });
+  }
+
+  _reply(nonce: string | undefined, promise: Promise<unknown>) {
+    promise
+      .then((result) =>
+        this.send({ _darkcordCluster: true, op: "result", nonce, result }),
+      )
+      .catch((err) =>
+        this.send({
+          _darkcordCluster: true,
+          op: "result",
+          nonce,
+          error: serializeError(err),
+        }),
+      )
+      .catch((err) => this.emit("error", err));
+  }
+
+  _handleMessage(message: unknown) {
+    if (!isClusterMessage(message)) {
+      this.emit("message", message);
+      return;
+    }
+
+    switch (message.op) {
+      case "ready": {
+        this.ready = true;
+        this.emit("ready");
+        break;
+      }
+      case "result": {
+        const pending = this.#pending.get(message.nonce!);
+
+        if (pending) {
+          this.#pending.delete(message.nonce!);
+
+          if (message.error) pending.reject(deserializeError(message.error));
+          else pending.resolve(message.result);
+        }
+        break;
+      }
+      case "identify": {
+        this._reply(
+          message.nonce,
+          this.manager._requestIdentify(message.shardId!),
+        );
+        break;
+      }
+      case "broadcastEval": {
+        this._reply(
+          message.nonce,
+          this.manager.broadcastEval(message.script!, {
+            context: message.context,
+            clusterIds: message.clusterIds,
+          }),
+        );
+        break;
+      }
+      case "fetchClientValues": {
+        this._reply(
+          message.nonce,
+          this.manager.fetchClientValues(message.prop!),
+        );
+        break;
+      }
+    }
+  }
+
+  _handleExit(code: number | null) {
+    this.worker?.removeAllListeners();
+    this.worker = null;
+    this.ready = false;
+    this._rejectPending(`The cluster ${this.id} exited with code ${code}`);
+
+    this.emit("death", code);
+
+    if (!this.#killed) {
+      this.manager._handleClusterDeath(this, code);
+    }
+  }
+
+  _rejectPending(message: string) {
+    for (const { reject } of this.#pending.values()) {
+      reject(MakeError({ name: "ClusterDied", message }));
+    }
+
+    this.#pending.clear();
+  }
+}
+
+export declare interface ClusterManager {
+  on<T extends keyof ClusterManagerEvents>(
+    event: T,
+    listener: (...args: ClusterManagerEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof ClusterManagerEvents>(
+    event: T,
+    listener: (...args: ClusterManagerEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof ClusterManagerEvents>(
+    event: T,
+    ...args: ClusterManagerEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Spread the shards of a bot over child processes or worker threads,
+ * each cluster runs the given script and creates a Client with ClusterClient
+ */
+export class ClusterManager extends EventEmitter {
+  clusters: Map<number, Cluster>;
+  options: Required<
+    Omit<
+      ClusterManagerOptions,
+      "token" | "totalShards" | "totalClusters" | "shardsPerCluster"
+    >
+  > &
+    ClusterManagerOptions;
+  totalShards: number;
+  maxConcurrency: number;
+  #buckets: Map<number, number>;
+
+  constructor(public file: string, options: ClusterManagerOptions = {}) {
+    super();
+
+    this.clusters = new Map();
+    this.#buckets = new Map();
+    this.options = {
+      mode: "process",
+      respawn: true,
+      respawnDelay: 5_000,
+      args: [],
+      execArgv: [],
+      maxConcurrency: 0,
+      ...options,
+    };
+
+    this.totalShards = options.totalShards ?? 0;
+    this.maxConcurrency = options.maxConcurrency ?? 0;
+  }
+
+  /**
+   * Split the shards into clusters and spawn them
+   * @returns Resolves when all clusters are ready
+   */
+  async spawn() {
+    if (!this.totalShards || !this.maxConcurrency) {
+      if (!this.options.token) {
+        throw MakeError({
+          name: "MissingToken",
+          message:
+            "A token is required to fetch the recommended shards count and max concurrency",
+        });
+      }
+
+      const gateway = await new Rest(
+        this.options.token.replace(/^Bot\s*/i, ""),
+      ).getGateway();
+
+      this.totalShards ||= gateway.shards;
+      this.maxConcurrency ||= gateway.session_start_limit.max_concurrency;
+    }
+
+    const shardsPerCluster =
+      this.options.shardsPerCluster ??
+      Math.ceil(
+        this.totalShards /
+          Math.min(
+            this.options.totalClusters ?? cpus().length,
+            this.totalShards,
+          ),
+      );
+
+    for (
+      let id = 0, shardId = 0;
+      shardId < this.totalShards;
+      id++, shardId += shardsPerCluster
+    ) {
+      const shardIds = Array.from(
+        { length: Math.min(shardsPerCluster, this.totalShards - shardId) },
+        (_, i) => shardId + i,
+      );
+
+      const cluster = new Cluster(this, id, shardIds);
+      this.clusters.set(id, cluster);
+
+      cluster.on("ready", () => this.emit("clusterReady", cluster));
+      cluster.on("error", (err) => this.emit("clusterError", cluster, err));
+      this.emit("clusterCreate", cluster);
+    }
+
+    this.emit(
+      "debug",
+      `Spawning ${this.clusters.size} clusters with ${this.totalShards} shards`,
+    );
+
+    await Promise.all([...this.clusters.values()].map((c) => c.spawn()));
+  }
+
+  /**
+   * Execute a function in all clusters
+   * @param fn The function to execute, it is serialized and cannot use outer variables
+   * @param options Options of the eval
+   * @returns The results ordered by cluster id
+   */
+  broadcastEval<R, C = unknown>(
+    fn: ClusterEvalFunction<R, C> | string,
+    options: BroadcastEvalOptions<C> = {},
+  ) {
+    const script = typeof fn === "function" ? fn.toString() : fn;
+    const clusters = options.clusterIds
+      ? options.clusterIds.map((id) => this.clusters.get(id)!)
+      : [...this.clusters.values()];
+
+    return Promise.all(
+      clusters.map((cluster) => cluster.eval<R, C>(script, options.context)),
+    );
+  }
+
+  /**
+   * Get a property of the client of all clusters
+   * @param prop The property path, like "guilds.cache.size"
+   * @returns The values ordered by cluster id
+   */
+  fetchClientValues<R = unknown>(prop: string) {
+    return Promise.all(
+      [...this.clusters.values()].map((cluster) =>
+        cluster.fetchClientValue<R>(prop),
+      ),
+    );
+  }
+
+  /**
+   * Kill all clusters
+   */
+  destroy() {
+    for (const cluster of this.clusters.values()) {
+      cluster.kill();
+    }
+  }
+
+  /**
+   * Waits the identify rate limit of the bucket of the shard
+   * @param shardId The id of shard that will identify
+   */
+  _requestIdentify(shardId: number) {
+    const key = shardId % (this.maxConcurrency || 1);
+    const at = Math.max(
+      Date.now(),
+      (this.#buckets.get(key) ?? 0) + IdentifyDelay,
+    );
+
+    this.#buckets.set(key, at);
+
+    return new Promise<void>((resolve) => setTimeout(resolve, at - Date.now()));
+  }
+
+  _handleClusterDeath(cluster: Cluster, code: number | null) {
+    this.emit("clusterDeath", cluster, code);
+
+    if (!this.options.respawn) return;
+
+    this.emit(
+      "debug",
+      `Cluster ${cluster.id} exited with code ${code}, respawning in ${this.options.respawnDelay}ms`,
+    );
+
+    setTimeout(() => {
+      if (cluster.worker) return;
+
+      this.emit("clusterRespawn", cluster);
+      cluster.spawn().catch((err) => cluster.emit("error", err));
+    }, this.options.respawnDelay);
+  }
+}
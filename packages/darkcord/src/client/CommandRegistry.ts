@@ -0,0 +1,345 @@
+import type {
+  AutocompleteInteraction,
+  ChatInputApplicationCommandInteractionData,
+  CommandInteraction,
+  Interaction,
+  MessageApplicationCommandInteractionData,
+  UserApplicationCommandInteractionData,
+} from "@resources/Interaction";
+import type {
+  AnyClient,
+  CommandRegistryEvents,
+  CommandRegistryOptions,
+  CommandSyncResult,
+} from "@typings/index";
+import {
+  AnyCommand,
+  ChatInputCommand,
+  MessageCommand,
+  UserCommand,
+} from "@utils/CommandBuilder";
+import { Events } from "@utils/Constants";
+import { runHandler } from "@utils/Handler";
+import { isEqual } from "@utils/index";
+import {
+  APIApplicationCommand,
+  APIApplicationCommandOption,
+  ApplicationCommandType,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from "discord-api-types/v10";
+import EventEmitter from "node:events";
+
+type CommandData =
+  | RESTPostAPIApplicationCommandsJSONBody
+  | APIApplicationCommand;
+
+/**
+ * Fills the fields omitted in local commands with the defaults returned by Discord
+ */
+function normalizeOptions(
+  options: APIApplicationCommandOption[],
+): Record<string, unknown>[] {
+  return options.map((option: Record<string, any>) => ({
+    type: option.type,
+    name: option.name,
+    name_localizations: option.name_localizations ?? null,
+    description: option.description,
+    description_localizations: option.description_localizations ?? null,
+    required: option.required ?? false,
+    choices: (option.choices ?? []).map((choice: Record<string, any>) => ({
+      name: choice.name,
+      name_localizations: choice.name_localizations ?? null,
+      value: choice.value,
+    })),
+    channel_types: [...(option.channel_types ?? [])].sort(),
+    min_value: option.min_value ?? null,
+    max_value: option.max_value ?? null,
+    min_length: option.min_length ?? null,
+    max_length: option.max_length ?? null,
+    autocomplete: option.autocomplete ?? false,
+    options: normalizeOptions(option.options ?? []),
+  }));
+}
+
+function normalizeCommand(command: CommandData) {
+  return {
+    type: command.type ?? ApplicationCommandType.ChatInput,
+    name: command.name,
+    name_localizations: command.name_localizations ?? null,
+    description: ("description" in command && command.description) || "",
+    description_localizations: command.description_localizations ?? null,
+    options: normalizeOptions(("options" in command && command.options) || []),
+    default_member_permissions: command.default_member_permissions ?? null,
+    dm_permission: command.dm_permission ?? true,
+    nsfw: command.nsfw ?? false,
+  };
+}
+
+export declare interface CommandRegistry {
+  on<T extends keyof CommandRegistryEvents>(
+    event: T,
+    listener: (...args: CommandRegistryEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof CommandRegistryEvents>(
+    event: T,
+    listener: (...args: CommandRegistryEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof CommandRegistryEvents>(
+    event: T,
+    ...args: CommandRegistryEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Registry of application commands,
+ * routes the interactions to the handlers of commands and syncs the commands with Discord
+ */
+export class CommandRegistry extends EventEmitter {
+  /**
+   * Commands registered, keyed by type and name
+   */
+  commands: Map<string, AnyCommand>;
+  /**
+   * Guilds that had commands in the last sync, synced again to clear their removed commands
+   */
+  _syncedGuilds: Set<string>;
+
+  constructor(
+    public client: AnyClient,
+    public options: CommandRegistryOptions = {},
+  ) {
+    super();
+
+    this.commands = new Map();
+    this._syncedGuilds = new Set();
+
+    (client as EventEmitter).on(
+      Events.InteractionCreate,
+      (interaction: Interaction) => this.handle(interaction),
+    );
+  }
+
+  static key(name: string, type = ApplicationCommandType.ChatInput) {
+    return `${type}:${name}`;
+  }
+
+  /**
+   * Register commands, replacing the ones with same name and type
+   * @param commands The commands to register
+   */
+  add(...commands: AnyCommand[]) {
+    for (const command of commands) {
+      this.commands.set(
+        CommandRegistry.key(command.name, command.type),
+        command,
+      );
+    }
+
+    return this;
+  }
+
+  get(name: string, type = ApplicationCommandType.ChatInput) {
+    return this.commands.get(CommandRegistry.key(name, type));
+  }
+
+  remove(name: string, type = ApplicationCommandType.ChatInput) {
+    return this.commands.delete(CommandRegistry.key(name, type));
+  }
+
+  /**
+   * Guilds of the commands, null is the global scope
+   */
+  get scopes() {
+    const scopes = new Set<string | null>(this.options.guildIds ?? [null]);
+
+    for (const command of this.commands.values()) {
+      for (const guildId of command.config.guildIds ?? []) {
+        scopes.add(guildId);
+      }
+    }
+
+    return [...scopes];
+  }
+
+  /**
+   * Get the json of commands registered in a scope
+   * @param guildId Id of the guild, null for global commands
+   */
+  toJSON(guildId: string | null = null) {
+    return [...this.commands.values()]
+      .filter((command) => {
+        const guildIds = command.config.guildIds ?? this.options.guildIds;
+        return guildId === null ? !guildIds : guildIds?.includes(guildId);
+      })
+      .map((command) => command.toJSON());
+  }
+
+  /**
+   * Overwrite the commands of Discord that differ from the registered ones
+   * @param clearGuildIds Ids of guilds to sync even without registered commands,
+   * clearing the commands registered before, like in a previous process
+   * @returns The result of each scope
+   */
+  async sync(clearGuildIds: string[] = []) {
+    const applicationId = await this._getApplicationId();
+    const results: CommandSyncResult[] = [];
+    const scopes = new Set([
+      ...this.scopes,
+      ...this._syncedGuilds,
+      ...clearGuildIds,
+    ]);
+
+    for (const guildId of scopes) {
+      const local = this.toJSON(guildId);
+      const remote = await (guildId
+        ? this.client.rest.getGuildApplicationCommands(
+            applicationId,
+            guildId,
+            true,
+          )
+        : this.client.rest.getApplicationCommands(applicationId, true));
+
+      let result: CommandSyncResult = {
+        guildId,
+        changed: false,
+        commands: remote,
+      };
+
+      if (!CommandRegistry.isEqual(local, remote)) {
+        const commands = await (guildId
+          ? this.client.rest.bulkOverwriteGuildApplicationCommands(
+              applicationId,
+              guildId,
+              local,
+            )
+          : this.client.rest.bulkOverwriteApplicationCommands(
+              applicationId,
+              local,
+            ));
+
+        result = { guildId, changed: true, commands };
+      }
+
+      if (guildId) {
+        if (local.length) this._syncedGuilds.add(guildId);
+        else this._syncedGuilds.delete(guildId);
+      }
+
+      this.emit("sync", result);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Compare two lists of commands ignoring their order and the default values
+   */
+  static isEqual(commands: CommandData[], other: CommandData[]) {
+    if (commands.length !== other.length) return false;
+
+    const normalized = new Map(
+      other.map((command) => [
+        CommandRegistry.key(command.name, command.type),
+        normalizeCommand(command),
+      ]),
+    );
+
+    return commands.every((command) =>
+      isEqual(
+        normalizeCommand(command),
+        normalized.get(CommandRegistry.key(command.name, command.type)),
+      ),
+    );
+  }
+
+  /**
+   * Execute the handler of the interaction command
+   * @param interaction The interaction
+   * @returns Whether a handler was found
+   */
+  async handle(interaction: Interaction) {
+    if (interaction.isCommand()) {
+      const command = this.get(interaction.commandName, interaction.data.type);
+      if (!command) return false;
+
+      return this._run(command, interaction, () => {
+        if (command instanceof ChatInputCommand) {
+          const chatInput =
+            interaction as CommandInteraction<ChatInputApplicationCommandInteractionData>;
+          const options = chatInput.data.options;
+          const target = command._find(
+            options?.subCommandGroup,
+            options?.subCommand,
+          );
+
+          return target?.handler?.(
+            chatInput,
+            target._resolveOptions(chatInput),
+          );
+        }
+
+        if (command instanceof UserCommand) {
+          return command.handler?.(
+            interaction as CommandInteraction<UserApplicationCommandInteractionData>,
+          );
+        }
+
+        return (command as MessageCommand).handler?.(
+          interaction as CommandInteraction<MessageApplicationCommandInteractionData>,
+        );
+      });
+    }
+
+    if (interaction.isAutoComplete()) {
+      const command = this.get(interaction.data.name);
+      if (!(command instanceof ChatInputCommand)) return false;
+
+      return this._run(command, interaction, async () => {
+        const options = interaction.data.options;
+        const focused = options?.focusedOption();
+        const autocomplete = command
+          ._find(options?.subCommandGroup, options?.subCommand)
+          ?.autocompletes.get(focused?.name!);
+
+        if (!autocomplete || !focused || !("value" in focused)) return;
+
+        const choices = await autocomplete(interaction, focused.value);
+
+        if (Array.isArray(choices) && !interaction.acknowledged) {
+          await (interaction as AutocompleteInteraction).result(choices);
+        }
+      });
+    }
+
+    return false;
+  }
+
+  _run(command: AnyCommand, interaction: Interaction, fn: () => unknown) {
+    this.emit("commandRun", command, interaction);
+
+    return runHandler(
+      this,
+      this.client,
+      {
+        errorEvent: "commandError",
+        args: [command, interaction],
+        name: `Command ${command.name}`,
+      },
+      fn,
+    );
+  }
+
+  async _getApplicationId() {
+    if (this.client.application) return this.client.application.id;
+    if ("applicationId" in this.client && this.client.applicationId) {
+      return this.client.applicationId;
+    }
+
+    const application = await this.client.rest.getCurrentApplication();
+    return application.id;
+  }
+}
@@ -0,0 +1,189 @@
+import type {
+  ComponentInteraction,
+  Interaction,
+  ModalSubmitInteraction,
+} from "@resources/Interaction";
+import type {
+  AnyClient,
+  ComponentRoute,
+  ComponentRouteHandler,
+  ComponentRouterEvents,
+  ModalRouteHandler,
+} from "@typings/index";
+import { Events } from "@utils/Constants";
+import { runHandler } from "@utils/Handler";
+import EventEmitter from "node:events";
+
+export declare interface ComponentRouter {
+  on<T extends keyof ComponentRouterEvents>(
+    event: T,
+    listener: (...args: ComponentRouterEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof ComponentRouterEvents>(
+    event: T,
+    listener: (...args: ComponentRouterEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof ComponentRouterEvents>(
+    event: T,
+    ...args: ComponentRouterEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Routes component and modal interactions to handlers by the pattern of their custom id
+ *
+ * @example
+ * client.components.component("ticket:close:{id}", (interaction, { id }) =>
+ *   closeTicket(id),
+ * );
+ */
+export class ComponentRouter extends EventEmitter {
+  /**
+   * Routes of message components, in order of registration
+   */
+  components: ComponentRoute<ComponentRouteHandler<any>>[];
+  /**
+   * Routes of modals, in order of registration
+   */
+  modals: ComponentRoute<ModalRouteHandler<any>>[];
+
+  constructor(public client: AnyClient) {
+    super();
+
+    this.components = [];
+    this.modals = [];
+
+    (client as EventEmitter).on(
+      Events.InteractionCreate,
+      (interaction: Interaction) => this.handle(interaction),
+    );
+  }
+
+  /**
+   * Compile a custom id pattern, parameters between braces match any text
+   * @param pattern The pattern, e.g. "ticket:close:{id}"
+   */
+  static compile(pattern: string) {
+    const params: string[] = [];
+    const source = pattern
+      .split(/\{(\w+)\}/)
+      .map((part, i) => {
+        if (i % 2) {
+          params.push(part);
+          return "(.+?)";
+        }
+
+        return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+
+    return { regex: new RegExp(`^${source}$`), params };
+  }
+
+  /**
+   * Add a handler of message components
+   * @param pattern The custom id pattern
+   * @param handler The handler, receives the interaction and the parameters of custom id
+   */
+  component<P extends string>(pattern: P, handler: ComponentRouteHandler<P>) {
+    this.components.push({
+      pattern,
+      handler,
+      ...ComponentRouter.compile(pattern),
+    });
+    return this;
+  }
+
+  /**
+   * Add a handler of modal submits
+   * @param pattern The custom id pattern
+   * @param handler The handler, receives the interaction and the parameters of custom id
+   */
+  modal<P extends string>(pattern: P, handler: ModalRouteHandler<P>) {
+    this.modals.push({ pattern, handler, ...ComponentRouter.compile(pattern) });
+    return this;
+  }
+
+  /**
+   * Remove the handlers of a pattern
+   */
+  remove(pattern: string) {
+    const filter = (route: ComponentRoute) => route.pattern !== pattern;
+
+    this.components = this.components.filter(filter);
+    this.modals = this.modals.filter(filter);
+
+    return this;
+  }
+
+  /**
+   * Find the route matching a custom id
+   * @param routes The routes to search
+   * @param customId The custom id
+   */
+  static match<R extends ComponentRoute>(routes: R[], customId: string) {
+    for (const route of routes) {
+      const match = route.regex.exec(customId);
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.params.forEach((param, i) => (params[param] = match[i + 1]));
+
+      return { route, params };
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute the handler matching the custom id of interaction
+   * @param interaction The interaction
+   * @returns Whether a handler was found
+   */
+  async handle(interaction: Interaction) {
+    if (interaction.isComponent()) {
+      const matched = ComponentRouter.match(
+        this.components,
+        interaction.customId,
+      );
+      if (!matched) return false;
+
+      return this._run(matched.route, interaction, () =>
+        matched.route.handler(interaction, matched.params),
+      );
+    }
+
+    if (interaction.isModalSubmit()) {
+      const matched = ComponentRouter.match(this.modals, interaction.customId);
+      if (!matched) return false;
+
+      return this._run(matched.route, interaction, () =>
+        matched.route.handler(interaction, matched.params),
+      );
+    }
+
+    return false;
+  }
+
+  _run(
+    route: ComponentRoute,
+    interaction: ComponentInteraction | ModalSubmitInteraction,
+    fn: () => unknown,
+  ) {
+    this.emit("routeRun", route, interaction);
+
+    return runHandler(
+      this,
+      this.client,
+      {
+        errorEvent: "routeError",
+        args: [route, interaction],
+        name: `Route ${route.pattern}`,
+      },
+      fn,
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { GatewaySession, SessionStore } from "@typings/index";
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+/**
+ * Session store that keeps the sessions of shards in a local json file
+ *
+ * Only one process should use the same file
+ */
+export class FileSessionStore implements SessionStore {
+  #writing: Promise<unknown>;
+
+  constructor(public path: string) {
+    this.#writing = Promise.resolve();
+  }
+
+  async #read(): Promise<Record<string, GatewaySession>> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT" || err instanceof SyntaxError) return {};
+      throw err;
+    }
+  }
+
+  #update(fn: (sessions: Record<string, GatewaySession>) => void) {
+    // Updates are chained to avoid losing concurrent writes
+    this.#writing = this.#writing
+      .catch(() => null)
+      .then(async () => {
+        const sessions = await this.#read();
+        fn(sessions);
+
+        const temp = `${this.path}.tmp`;
+        await writeFile(temp, JSON.stringify(sessions));
+        await rename(temp, this.path);
+      });
+
+    return this.#writing;
+  }
+
+  async get(shardId: string) {
+    await this.#writing.catch(() => null);
+    return (await this.#read())[shardId];
+  }
+
+  set(shardId: string, session: GatewaySession) {
+    return this.#update((sessions) => (sessions[shardId] = session));
+  }
+
+  delete(shardId: string) {
+    return this.#update((sessions) => delete sessions[shardId]);
+  }
+}
@@ -1,13 +1,20 @@
 /* eslint-disable @typescript-eslint/no-unnecessary-condition */
 import { Events, ShardEvents } from "@utils/Constants";
-import { DiscordAPIError, InvalidTokenError, MakeError } from "@darkcord/utils";
+import {
+  delay,
+  DiscordAPIError,
+  InvalidTokenError,
+  MakeError,
+} from "@darkcord/utils";
 import {
   APIGatewayBotInfo,
   GatewayPresenceUpdateData,
   GatewaySendPayload,
 } from "discord-api-types/v10";
-import { GatewayShard, GatewayStatus } from "@darkcord/ws";
+import { CloseCodes, GatewayShard, GatewayStatus } from "@darkcord/ws";
+import { SessionStore } from "@typings/index";
 import { Client } from "./Client";
+import { FileSessionStore } from "./SessionStore";
 import { EventSource } from "../gateway/EventSource";
 import { Cache } from "@cache/Cache";
 
@@ -17,12 +24,27 @@ export class WebSocket {
   #buckets: Record<number, number>;
   totalShards: number;
   maxConcurrency: number;
+  /**
+   * Waits the identify rate limit of a shard bucket,
+   * used by clusters to share the buckets with other processes
+   */
+  requestIdentify?: (shardId: number) => Promise<void>;
+  /**
+   * Store of sessions resumed after a restart
+   */
+  sessionStore?: SessionStore;
   #connectTimeout: NodeJS.Timeout | null;
   constructor(public client: Client) {
     this.shards = new Cache();
     this.#queue = [];
     this.#buckets = {};
     this.#connectTimeout = null;
+
+    const sessionStore = client.options.gateway.sessionStore;
+    this.sessionStore =
+      typeof sessionStore === "string"
+        ? new FileSessionStore(sessionStore)
+        : sessionStore;
   }
 
   get ping() {
@@ -41,11 +63,22 @@ export class WebSocket {
     const maxConcurrency =
       this.maxConcurrency || this.client.options.gateway.concurrency;
 
-    for (const shard of this.#queue) {
+    for (const shard of [...this.#queue]) {
+      if (this.requestIdentify) {
+        if (!shard.sessionId) {
+          await this.requestIdentify(Number(shard.shardId));
+        }
+
+        await this.handleShard(shard);
+        continue;
+      }
+
       const ratelimitKey = Number(shard.shardId) % maxConcurrency ?? 0;
       const lastConnect = this.#buckets[ratelimitKey] ?? 0;
+      // Restored sessions only skip the rate limit to resume
+      const resuming = Boolean(shard.sessionId);
 
-      if (!shard.sessionId && Date.now() - lastConnect < 5_000) {
+      if (!resuming && Date.now() - lastConnect < 5_000) {
         continue;
       }
 
@@ -63,7 +96,7 @@ export class WebSocket {
 
       // Handling shard
       await this.handleShard(shard);
-      this.#buckets[ratelimitKey] = Date.now();
+      if (!resuming) this.#buckets[ratelimitKey] = Date.now();
     }
 
     this.client.emit("connect");
@@ -154,7 +187,18 @@ export class WebSocket {
 
     const compress = this.client.options.gateway.compress;
 
-    for (let id = 0; id < totalShards; id++) {
+    const shardIds =
+      this.client.options.gateway.shardIds ??
+      Array.from({ length: totalShards }, (_, id) => id);
+
+    for (const id of shardIds) {
+      if (id >= totalShards) {
+        throw MakeError({
+          name: "InvalidShardId",
+          message: `The shard with id ${id} exceeds the total of ${totalShards} shards`,
+        });
+      }
+
       const shard = new GatewayShard(
         this.client as any,
         new EventSource() as any,
@@ -169,6 +213,10 @@ export class WebSocket {
         shard.fetchedGateway = gateway;
       }
 
+      shard.waitIdentify = () => this.#waitIdentify(id);
+
+      await this.#restoreSession(shard, totalShards);
+
       this.#queue.push(shard);
     }
 
@@ -182,9 +230,74 @@ export class WebSocket {
     }
   }
 
-  disconnect() {
+  /**
+   * Waits the identify rate limit of a shard outside the connect queue,
+   * sessions that can't be resumed identify again through it
+   */
+  async #waitIdentify(shardId: number) {
+    if (this.requestIdentify) {
+      return this.requestIdentify(shardId);
+    }
+
+    const ratelimitKey = shardId % this.maxConcurrency;
+    // Reserve the next identify of the bucket, shards waiting together identify in turns
+    const identifyAt = Math.max(
+      Date.now(),
+      (this.#buckets[ratelimitKey] ?? 0) + 5_000,
+    );
+
+    this.#buckets[ratelimitKey] = identifyAt;
+
+    if (identifyAt > Date.now()) {
+      await delay(identifyAt - Date.now());
+    }
+  }
+
+  async #restoreSession(shard: GatewayShard, totalShards: number) {
+    if (!this.sessionStore) return;
+
+    const session = await this.sessionStore.get(shard.shardId);
+    if (!session) return;
+
+    // A session can be resumed only once
+    await this.sessionStore.delete(shard.shardId);
+
+    if (session.shardCount !== totalShards) {
+      this.client.emit(
+        Events.Debug,
+        `Ignoring saved session of Shard ${shard.shardId}, the shards count has changed`,
+      );
+      return;
+    }
+
+    this.client.emit(
+      Events.Debug,
+      `Resuming saved session ${session.sessionId} of Shard ${shard.shardId}`,
+    );
+
+    shard.restoreSession(session);
+  }
+
+  /**
+   * Disconnect all shards, if a session store is set
+   * the sessions are saved to be resumed in the next connect
+   */
+  async disconnect() {
     this.client.emit(Events.Warn, "Disconnecting all Shards");
     for (const shard of this.shards.values()) {
+      if (this.sessionStore && shard.sessionId && shard.resumeURL) {
+        await this.sessionStore.set(shard.shardId, {
+          sessionId: shard.sessionId,
+          sequence: shard.sequenceId ?? 0,
+          resumeURL: shard.resumeURL,
+          shardCount: this.totalShards,
+        });
+
+        // Closing with 1000 would invalidate the session
+        shard.destroy(CloseCodes.Resuming);
+        continue;
+      }
+
       shard.close(1_000, "Client Disconnect");
     }
   }
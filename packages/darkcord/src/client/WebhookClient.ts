@@ -0,0 +1,216 @@
+import { Rest } from "@darkcord/rest";
+import {
+  MessagePostData,
+  WebhookClientOptions,
+  WebhookMessagePostData,
+  WebhookSendOptions,
+} from "@typings/index";
+import { MakeError, transformMessagePostData } from "@utils/index";
+import {
+  APIMessage,
+  RESTPatchAPIWebhookWithTokenJSONBody,
+  RouteBases,
+} from "discord-api-types/v10";
+
+export const InvalidWebhookURLError = (url: string) =>
+  MakeError({
+    name: "InvalidWebhookURL",
+    message: `${url} is not a valid webhook url`,
+    args: [["url", url]],
+  });
+
+export interface WebhookCredentials {
+  id: string;
+  token: string;
+}
+
+/**
+ * Client to use a webhook with its token, without a bot token or gateway connection
+ * @example
+ * const webhook = new WebhookClient("https://discord.com/api/webhooks/id/token");
+ * await webhook.send({ content: "Hello", username: "Logger" });
+ */
+export class WebhookClient {
+  /**
+   * The webhook id
+   */
+  id: string;
+  /**
+   * The webhook token
+   */
+  token: string;
+  /**
+   * Rest to make requests, requests to the webhook share its rate limits
+   */
+  rest: Rest;
+  options: WebhookClientOptions;
+
+  /**
+   * @param url The url of the webhook
+   */
+  constructor(url: string, options?: WebhookClientOptions);
+  /**
+   * @param credentials The id and token of the webhook
+   */
+  constructor(credentials: WebhookCredentials, options?: WebhookClientOptions);
+  constructor(
+    data: string | WebhookCredentials,
+    options: WebhookClientOptions = {},
+  ) {
+    const { id, token } =
+      typeof data === "string" ? WebhookClient.parseURL(data) : data;
+
+    this.id = id;
+    this.token = token;
+    this.options = options;
+    this.rest = new Rest();
+
+    if (options.rest?.apiURL) {
+      this.rest.setAPIURL(options.rest.apiURL);
+    }
+
+    if (options.rest?.proxy) {
+      this.rest.setProxy(options.rest.proxy);
+    }
+
+    for (const interceptor of options.rest?.interceptors ?? []) {
+      this.rest.use(interceptor);
+    }
+  }
+
+  /**
+   * Get the id and token of a webhook url
+   * @param url The webhook url
+   */
+  static parseURL(url: string): WebhookCredentials {
+    let pathname: string;
+
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      throw InvalidWebhookURLError(url);
+    }
+
+    const match = /\/webhooks\/(\d{17,20})\/([\w-]+)\/?$/.exec(pathname);
+
+    if (!match) {
+      throw InvalidWebhookURLError(url);
+    }
+
+    return { id: match[1], token: match[2] };
+  }
+
+  /**
+   * The url of the webhook
+   */
+  get url() {
+    return `${RouteBases.api}/webhooks/${this.id}/${this.token}`;
+  }
+
+  /**
+   * Send a message with this webhook
+   * @param content The message content
+   * @param options The options to send the message
+   * @returns The created message
+   */
+  send(
+    content: WebhookMessagePostData | string,
+    options?: WebhookSendOptions & { wait?: true },
+  ): Promise<APIMessage>;
+  /**
+   * Send a message with this webhook without waiting it to be created
+   * @param content The message content
+   * @param options The options to send the message
+   */
+  send(
+    content: WebhookMessagePostData | string,
+    options: WebhookSendOptions & { wait: false },
+  ): Promise<null>;
+  send(
+    content: WebhookMessagePostData | string,
+    options: WebhookSendOptions = {},
+  ) {
+    return this.rest.executeWebhook(
+      this.id,
+      this.token,
+      transformMessagePostData(content),
+      {
+        wait: options.wait ?? true,
+        thread_id: options.threadId,
+      },
+    );
+  }
+
+  /**
+   * Fetch a message sent by this webhook
+   * @param messageId The message id
+   * @param threadId The id of the thread which message was sent
+   */
+  fetchMessage(messageId: string, threadId?: string) {
+    return this.rest.getWebhookMessage(
+      this.id,
+      this.token,
+      messageId,
+      threadId,
+    );
+  }
+
+  /**
+   * Edit a message sent by this webhook
+   * @param messageId The message id
+   * @param content The new message content
+   * @param threadId The id of the thread which message was sent
+   */
+  editMessage(
+    messageId: string,
+    content: MessagePostData | string,
+    threadId?: string,
+  ) {
+    return this.rest.editWebhookMessage(
+      this.id,
+      this.token,
+      messageId,
+      transformMessagePostData(content),
+      threadId,
+    );
+  }
+
+  /**
+   * Delete a message sent by this webhook
+   * @param messageId The message id
+   * @param threadId The id of the thread which message was sent
+   */
+  deleteMessage(messageId: string, threadId?: string) {
+    return this.rest.deleteWebhookMessage(
+      this.id,
+      this.token,
+      messageId,
+      threadId,
+    );
+  }
+
+  /**
+   * Fetch information of this webhook
+   */
+  fetch() {
+    return this.rest.getWebhookWithToken(this.id, this.token);
+  }
+
+  /**
+   * Edit the default name and avatar of this webhook
+   * @param options The options to edit this webhook
+   */
+  edit(options: Omit<RESTPatchAPIWebhookWithTokenJSONBody, "channel_id">) {
+    return this.rest.modifyWebhookWithToken(this.id, this.token, options);
+  }
+
+  /**
+   * Delete this webhook
+   */
+  delete() {
+    return this.rest.deleteWebhookWithToken(
+      this.id,
+      this.token,
+    ) as Promise<void>;
+  }
+}
@@ -2,6 +2,10 @@ import { ClientEvents } from "@typings/index";
 import { camelCase } from "@utils/index";
 
 import { GatewayShard } from "@darkcord/ws";
+import { AutoModerationActionExecution } from "./events/autoModerationActionExecution";
+import { AutoModerationRuleCreate } from "./events/autoModerationRuleCreate";
+import { AutoModerationRuleDelete } from "./events/autoModerationRuleDelete";
+import { AutoModerationRuleUpdate } from "./events/autoModerationRuleUpdate";
 import { ChannelCreate } from "./events/channelCreate";
 import { ChannelDelete } from "./events/channelDelete";
 import { ChannelPinsUpdate } from "./events/channelPinsUpdate";
@@ -39,8 +43,12 @@ import { MessageReactionAdd } from "./events/messageReactionAdd";
 import { MessageReactionRemove } from "./events/messageReactionRemove";
 import { MessageReactionRemoveAll } from "./events/messageReactionRemoveAll";
 import { MessageReactionRemoveEmoji } from "./events/messageReactionRemoveEmoji";
+import { MessagePollVoteAdd } from "./events/messagePollVoteAdd";
+import { MessagePollVoteRemove } from "./events/messagePollVoteRemove";
 import { MessageUpdate } from "./events/messageUpdate";
 import { Ready } from "./events/ready";
+import { PresenceUpdate } from "./events/presenceUpdate";
+import { Resumed } from "./events/resumed";
 import { StageInstanceCreate } from "./events/stageInstanceCreate";
 import { StageInstanceDelete } from "./events/stageInstanceDelete";
 import { StageInstanceUpdate } from "./events/stageInstanceUpdate";
@@ -64,6 +72,7 @@ export class EventSource {
   _init() {
     // Gateway
     this.add(Ready);
+    this.add(Resumed);
 
     // Interaction
     this.add(InteractionCreate);
@@ -81,6 +90,7 @@ export class EventSource {
     this.add(GuildMemberAdd);
     this.add(GuildMemberRemove);
     this.add(GuildMemberUpdate);
+    this.add(PresenceUpdate);
     this.add(GuildIntegrationsUpdate);
     this.add(GuildRoleCreate);
     this.add(GuildRoleUpdate);
@@ -91,6 +101,12 @@ export class EventSource {
     this.add(GuildScheduledEventUserAdd);
     this.add(GuildScheduledEventUserRemove);
 
+    // Auto Moderation
+    this.add(AutoModerationRuleCreate);
+    this.add(AutoModerationRuleUpdate);
+    this.add(AutoModerationRuleDelete);
+    this.add(AutoModerationActionExecution);
+
     // Message
     this.add(MessageCreate);
     this.add(MessageUpdate);
@@ -100,6 +116,8 @@ export class EventSource {
     this.add(MessageReactionRemoveAll);
     this.add(MessageReactionRemoveEmoji);
     this.add(MessageReactionAdd);
+    this.add(MessagePollVoteAdd);
+    this.add(MessagePollVoteRemove);
     this.add(TypingStart);
 
     // Stage
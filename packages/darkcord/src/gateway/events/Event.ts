@@ -1,3 +1,9 @@
+import { Forge } from "@resources/forge/Forgified";
+import {
+  PartialChannel,
+  PartialMember,
+  PartialMessage,
+} from "@resources/Partial";
 import { User } from "@resources/User";
 import { Awaitable } from "@typings/index";
 import { APIUser } from "discord-api-types/v10";
@@ -25,4 +31,41 @@ export abstract class Event {
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
     return this.client.users.cache.get(id)! || this.client.users.fetch(id);
   }
+
+  /**
+   * Whether uncached structures are emitted as partials
+   */
+  get partials() {
+    return Boolean(this.client.options.partials);
+  }
+
+  getChannel(id: string, guildId?: string) {
+    return (
+      this.client.channels.cache.get(id) ??
+      (this.partials
+        ? new Forge(this.client, PartialChannel).forge({
+            id,
+            guild_id: guildId,
+            client: this.client,
+          })
+        : undefined)
+    );
+  }
+
+  partialMessage(id: string, channelId: string, guildId?: string) {
+    return new Forge(this.client, PartialMessage).forge({
+      id,
+      channel_id: channelId,
+      guild_id: guildId,
+      client: this.client,
+    });
+  }
+
+  partialMember(id: string, guildId: string) {
+    return new Forge(this.client, PartialMember).forge({
+      id,
+      guild_id: guildId,
+      client: this.client,
+    });
+  }
 }
@@ -0,0 +1,17 @@
+import { AutoModerationActionExecution as ActionExecution } from "@resources/AutoModerationRule";
+import { Events } from "@utils/Constants";
+import { GatewayAutoModerationActionExecutionDispatchData } from "discord-api-types/v10";
+import { Event } from "./Event";
+
+export class AutoModerationActionExecution extends Event {
+  run(data: GatewayAutoModerationActionExecutionDispatchData) {
+    const guild = this.getGuild(data.guild_id);
+
+    if (!guild) return;
+
+    this.client.emit(
+      Events.AutoModerationActionExecution,
+      new ActionExecution(data, guild),
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Events } from "@utils/Constants";
+import { GatewayAutoModerationRuleCreateDispatchData } from "discord-api-types/v10";
+import { Event } from "./Event";
+
+export class AutoModerationRuleCreate extends Event {
+  run(data: GatewayAutoModerationRuleCreateDispatchData) {
+    const guild = this.getGuild(data.guild_id);
+
+    if (!guild) return;
+
+    const rule = guild.autoModerationRules.add(data);
+
+    this.client.emit(Events.AutoModerationRuleCreate, rule);
+  }
+}
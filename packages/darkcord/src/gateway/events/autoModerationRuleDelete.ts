@@ -0,0 +1,19 @@
+import { Events } from "@utils/Constants";
+import { GatewayAutoModerationRuleDeleteDispatchData } from "discord-api-types/v10";
+import { Event } from "./Event";
+
+export class AutoModerationRuleDelete extends Event {
+  run(data: GatewayAutoModerationRuleDeleteDispatchData) {
+    const guild = this.getGuild(data.guild_id);
+
+    if (!guild) return;
+
+    const deleted =
+      guild.autoModerationRules.cache.get(data.id) ??
+      guild.autoModerationRules._resolve(data);
+
+    guild.autoModerationRules.cache.delete(data.id);
+
+    this.client.emit(Events.AutoModerationRuleDelete, deleted);
+  }
+}
@@ -0,0 +1,17 @@
+import { Events } from "@utils/Constants";
+import { structuredClone } from "@utils/index";
+import { GatewayAutoModerationRuleUpdateDispatchData } from "discord-api-types/v10";
+import { Event } from "./Event";
+
+export class AutoModerationRuleUpdate extends Event {
+  run(data: GatewayAutoModerationRuleUpdateDispatchData) {
+    const guild = this.getGuild(data.guild_id);
+
+    if (!guild) return;
+
+    const old = structuredClone(guild.autoModerationRules.cache.get(data.id));
+    const updated = guild.autoModerationRules.add(data);
+
+    this.client.emit(Events.AutoModerationRuleUpdate, old, updated);
+  }
+}
@@ -1,21 +1,28 @@
-import { AuditLogEntry } from "@typings/index";
+import { AuditLogEntry } from "@resources/AuditLog";
+import { Guild } from "@resources/Guild";
+import { Forge } from "@resources/forge/Forgified";
 import { Events } from "@utils/Constants";
-import { objectSnakeKeysToCamelKeys } from "@utils/index";
-import { APIAuditLogEntry } from "discord-api-types/v10";
+import { GatewayGuildAuditLogEntryCreateDispatchData } from "discord-api-types/v10";
 import { Event } from "./Event";
 
 export class GuildAuditLogEntryCreate extends Event {
-  run(data: APIAuditLogEntry) {
-    const log: AuditLogEntry = {
-      actionType: data.action_type,
-      changes: data.changes?.map((c) => objectSnakeKeysToCamelKeys(c)),
-      id: data.id,
-      options: data.options && objectSnakeKeysToCamelKeys(data.options),
-      reason: data.reason,
-      userId: data.user_id,
-      targetId: data.target_id,
-    };
+  async run(data: GatewayGuildAuditLogEntryCreateDispatchData) {
+    let guild = this.getGuild(data.guild_id);
 
-    this.client.emit(Events.GuildAuditLogEntryCreate, log);
+    if (!guild && !this.partials) {
+      guild = await this.client.guilds
+        .fetch(data.guild_id)
+        .catch(() => undefined);
+    }
+
+    // Entries of guilds not available are emitted with a forged guild
+    guild ??= new Forge(this.client, Guild).forge({
+      id: data.guild_id,
+      client: this.client,
+    });
+
+    const entry = new AuditLogEntry({ ...data, client: this.client }, guild);
+
+    this.client.emit(Events.GuildAuditLogEntryCreate, entry);
   }
 }
@@ -49,22 +49,28 @@ export class GuildCreate extends Event {
       guild.members.add(resolved, true);
     }
 
+    for (const presence of data.presences ?? []) {
+      guild.presences.add({ ...presence, guild_id: guild.id });
+    }
+
+    // Add guild to global cache
+    this.client.guilds.add(guild);
+
     if (
       !this.gatewayShard.ready &&
+      this.client.options.fetchAllMembers &&
       this.client.options.gateway.intents & GatewayIntentBits.GuildMembers
     ) {
-      this.gatewayShard.requestGuildMembers({
-        guildId: data.id,
-        nonce: Date.now().toString() + Math.random().toString(36),
-        query: "",
-        limit: 0,
-        userIds: undefined,
-      });
+      guild.members
+        .fetch()
+        .catch((err) =>
+          this.client.emit(
+            Events.Warn,
+            `Failed to fetch members of guild ${guild.id}: ${err}`,
+          ),
+        );
     }
 
-    // Add guild to global cache
-    this.client.guilds.add(guild);
-
     if (this.client.websocket.allReady()) {
       this.client.emit(Events.GuildCreate, guild);
     } else if (this.gatewayShard.status === GatewayStatus.WaitingGuilds) {
@@ -1,4 +1,5 @@
 import { Events } from "@utils/Constants";
+import { structuredClone } from "@utils/index";
 import { GatewayGuildMemberRemoveDispatchData } from "discord-api-types/v10";
 import { Event } from "./Event";
 
@@ -9,8 +10,12 @@ export class GuildMemberRemove extends Event {
     if (!guild) return;
 
     const user = this.client.cache.users.add(data.user)!;
+    const member =
+      structuredClone(guild.members.cache.get(user.id)) ??
+      (this.partials ? this.partialMember(user.id, guild.id) : undefined);
+
     guild.members.cache.delete(user.id);
 
-    this.client.emit(Events.GuildMemberRemove, user, guild);
+    this.client.emit(Events.GuildMemberRemove, user, guild, member);
   }
 }
@@ -27,6 +27,13 @@ export class GuildMemberUpdate extends Event {
       ),
     );
 
-    this.client.emit(Events.GuildMemberUpdate, oldMember, updated);
+    this.client.emit(
+      Events.GuildMemberUpdate,
+      oldMember ??
+        (this.partials
+          ? this.partialMember(data.user.id, guild.id)
+          : undefined),
+      updated,
+    );
   }
 }
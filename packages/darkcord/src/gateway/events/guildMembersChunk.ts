@@ -3,7 +3,6 @@ import { Events } from "@utils/Constants";
 import {
   APIGuildMember,
   GatewayGuildMembersChunkDispatchData,
-  GatewayPresenceUpdate,
 } from "discord-api-types/v10";
 import { Event } from "./Event";
 
@@ -28,7 +27,7 @@ export class GuildMembersChunk extends Event {
 
     if (data.presences) {
       for (const presence of data.presences) {
-        guild.presences.push(presence as GatewayPresenceUpdate);
+        guild.presences.add({ ...presence, guild_id: guild.id });
       }
     }
 
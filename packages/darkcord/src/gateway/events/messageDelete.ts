@@ -3,13 +3,29 @@ import { Event } from "./Event";
 import { structuredClone } from "@utils/index";
 import { Events } from "@utils/Constants";
 import { TextBasedChannel } from "@resources/Channel";
+import { PartialChannel } from "@resources/Partial";
 
 export class MessageDelete extends Event {
   run(data: GatewayMessageDeleteDispatchData) {
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.getChannel(data.channel_id, data.guild_id);
+
+    if (channel instanceof PartialChannel) {
+      this.client.emit(
+        Events.MessageDelete,
+        this.partialMessage(data.id, data.channel_id, data.guild_id),
+      );
+    } else if (TextBasedChannel.isBased(channel!)) {
+      if (!channel.messages.cache.has(data.id)) {
+        if (this.partials) {
+          this.client.emit(
+            Events.MessageDelete,
+            this.partialMessage(data.id, data.channel_id, data.guild_id),
+          );
+        }
+
+        return;
+      }
 
-    if (TextBasedChannel.isBased(channel!)) {
-      if (!channel?.messages.cache.has(data.id)) return;
       if (channel.isThread()) channel.messageCount--;
 
       const message = structuredClone(channel.messages.get(data.id));
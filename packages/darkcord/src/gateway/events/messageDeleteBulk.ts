@@ -1,4 +1,6 @@
 import { TextBasedChannel, ThreadChannel } from "@resources/Channel";
+import { Message } from "@resources/Message";
+import { PartialChannel, PartialMessage } from "@resources/Partial";
 import { Events } from "@utils/Constants";
 import { structuredClone } from "@utils/index";
 import { GatewayMessageDeleteBulkDispatchData } from "discord-api-types/v10";
@@ -6,19 +8,37 @@ import { Event } from "./Event";
 
 export class MessageDeleteBulk extends Event {
   run(data: GatewayMessageDeleteBulkDispatchData) {
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.getChannel(data.channel_id, data.guild_id);
+    const messages = new Map<string, Message | PartialMessage>();
 
-    if (TextBasedChannel.isBased(channel!)) {
-      const messages = new Map();
+    if (channel instanceof PartialChannel) {
+      for (const id of data.ids) {
+        messages.set(
+          id,
+          this.partialMessage(id, data.channel_id, data.guild_id),
+        );
+      }
 
+      this.client.emit(Events.MessageDeleteBulk, messages);
+    } else if (TextBasedChannel.isBased(channel!)) {
       for (const id of data.ids) {
-        if (!channel.messages.cache.has(id)) continue;
+        if (!channel.messages.cache.has(id)) {
+          if (this.partials) {
+            messages.set(
+              id,
+              this.partialMessage(id, data.channel_id, data.guild_id),
+            );
+          }
+
+          continue;
+        }
+
         if (channel instanceof ThreadChannel) channel.messageCount--;
 
         const message = structuredClone(channel.messages.get(id));
 
         channel.messages.cache.delete(id);
-        messages.set(message!.id, message);
+        messages.set(message!.id, message!);
       }
 
       this.client.emit(Events.MessageDeleteBulk, messages);
@@ -0,0 +1,47 @@
+import { GatewayMessagePollVoteDispatchData } from "@darkcord/utils";
+import { TextBasedChannel } from "@resources/Channel";
+import { User } from "@resources/User";
+import { Events } from "@utils/Constants";
+import { Event } from "./Event";
+
+export class MessagePollVoteRemove extends Event {
+  async run(data: GatewayMessagePollVoteDispatchData) {
+    const channel = this.client.channels.cache.get(data.channel_id);
+
+    if (TextBasedChannel.isBased(channel!)) {
+      // Only the ids are emitted of what can't be fetched
+      const user = await Promise.resolve(this.getUser(data.user_id)).catch(
+        () => data.user_id,
+      );
+      const cached = channel.messages.get(data.message_id);
+
+      // A fetched message already has the vote discounted
+      const message =
+        cached ||
+        (await channel.messages.fetch(data.message_id).catch(() => null));
+
+      if (!message) {
+        this.client.emit(
+          Events.MessagePollVoteRemove,
+          data.answer_id,
+          user as User | string,
+          this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+        );
+        return;
+      }
+
+      const answer = cached
+        ? message.poll?._vote(data.answer_id, data.user_id, false)
+        : message.poll?.answers.get(data.answer_id);
+
+      if (answer) {
+        this.client.emit(
+          Events.MessagePollVoteRemove,
+          answer,
+          user as User | string,
+          message,
+        );
+      }
+    }
+  }
+}
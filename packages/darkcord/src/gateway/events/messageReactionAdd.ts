@@ -1,5 +1,8 @@
 import { TextBasedChannel } from "@resources/Channel";
 import { APISuperReaction, Reaction } from "@resources/Emoji";
+import { Message } from "@resources/Message";
+import { PartialChannel, PartialMessage } from "@resources/Partial";
+import { User } from "@resources/User";
 import { Events } from "@utils/Constants";
 import { GatewayMessageReactionAddDispatchData } from "discord-api-types/v10";
 import { Event } from "./Event";
@@ -10,6 +13,8 @@ export class MessageReactionAdd extends Event {
       count: 0,
       emoji: data.emoji,
       me: data.user_id === this.client.user!.id,
+      channel_id: data.channel_id,
+      message_id: data.message_id,
       count_details: {
         burst: 0,
         normal: 0,
@@ -26,26 +31,61 @@ export class MessageReactionAdd extends Event {
 
     const reaction = new Reaction({ ...raw, client: this.client });
 
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.getChannel(data.channel_id, data.guild_id);
 
     const user = await this.getUser(data.user_id);
 
-    if (TextBasedChannel.isBased(channel!)) {
+    if (channel instanceof PartialChannel) {
+      reaction.users.add(user);
+
+      this.#emit(
+        data.burst,
+        reaction,
+        user as User,
+        this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+      );
+    } else if (TextBasedChannel.isBased(channel!)) {
       if (reaction instanceof Reaction) reaction.users.add(user);
 
       const message =
         channel.messages.get(data.message_id) ||
-        (await channel.messages.fetch(data.message_id));
+        (this.partials ? null : await channel.messages.fetch(data.message_id));
+
+      if (!message) {
+        this.#emit(
+          data.burst,
+          reaction,
+          user as User,
+          this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+        );
+        return;
+      }
 
       const existingReactions = message.reactions.get(
         reaction.emoji.id ?? reaction.emoji.name!,
       );
 
+      reaction.message = message;
+
       if (existingReactions) {
-        reaction.count += existingReactions.count;
+        // Reactions created by the client are counted when the request is done
+        if (reaction.me && existingReactions.me) {
+          reaction.count = existingReactions.count;
+          reaction.countDetails = existingReactions.countDetails;
+        } else {
+          reaction.count += existingReactions.count;
+
+          reaction.countDetails.burst += existingReactions.countDetails.burst;
+          reaction.countDetails.normal += existingReactions.countDetails.normal;
+        }
+
+        reaction.me ||= existingReactions.me;
+        reaction._removedUsers = existingReactions._removedUsers;
+        reaction._removedUsers.delete(data.user_id);
 
-        reaction.countDetails.burst += existingReactions.countDetails.burst;
-        reaction.countDetails.normal += existingReactions.countDetails.normal;
+        for (const cached of existingReactions.users.cache.values()) {
+          reaction.users.add(cached);
+        }
 
         message.reactions._add(
           reaction,
@@ -60,16 +100,20 @@ export class MessageReactionAdd extends Event {
         );
       }
 
-      if (data.burst) {
-        this.client.emit(
-          Events.MessageSuperReactionAdd,
-          reaction,
-          user,
-          message,
-        );
-      } else {
-        this.client.emit(Events.MessageReactionAdd, reaction, user, message);
-      }
+      this.#emit(data.burst, reaction, user as User, message);
+    }
+  }
+
+  #emit(
+    burst: boolean,
+    reaction: Reaction,
+    user: User,
+    message: Message | PartialMessage,
+  ) {
+    if (burst) {
+      this.client.emit(Events.MessageSuperReactionAdd, reaction, user, message);
+    } else {
+      this.client.emit(Events.MessageReactionAdd, reaction, user, message);
     }
   }
 }
@@ -1,5 +1,8 @@
 import { TextBasedChannel } from "@resources/Channel";
 import { Reaction } from "@resources/Emoji";
+import { Message } from "@resources/Message";
+import { PartialChannel, PartialMessage } from "@resources/Partial";
+import { User } from "@resources/User";
 import { Events } from "@utils/Constants";
 import { GatewayMessageReactionRemoveDispatchData } from "discord-api-types/v10";
 import { Event } from "./Event";
@@ -11,7 +14,9 @@ export class MessageReactionRemove extends Event {
     const raw = {
       count: 0,
       emoji: data.emoji,
-      me: data.user_id === this.client.user?.id,
+      me: false,
+      channel_id: data.channel_id,
+      message_id: data.message_id,
       count_details: {
         burst: 0,
         normal: 0,
@@ -20,44 +25,75 @@ export class MessageReactionRemove extends Event {
 
     const reaction = new Reaction({ ...raw, client: this.client });
 
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.getChannel(data.channel_id, data.guild_id);
 
     const user = this.client.cache.users.get(data.user_id);
 
-    if (TextBasedChannel.isBased(channel!)) {
-      if (reaction instanceof Reaction) reaction.users.add(user!);
-
+    if (channel instanceof PartialChannel) {
+      this.#emit(
+        data.burst,
+        reaction,
+        user,
+        this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+      );
+    } else if (TextBasedChannel.isBased(channel!)) {
       const message =
-        (channel as TextBasedChannel).messages.get(data.message_id) ||
-        (await (channel as TextBasedChannel).messages.fetch(data.message_id));
+        channel.messages.get(data.message_id) ||
+        (this.partials ? null : await channel.messages.fetch(data.message_id));
 
-      const existingReactions = message.reactions.get(
-        reaction.emoji.id ?? reaction.emoji.name!,
-      );
+      if (!message) {
+        this.#emit(
+          data.burst,
+          reaction,
+          user,
+          this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+        );
+        return;
+      }
+
+      const existingReactions = message.reactions.get(reaction.key);
+
+      reaction.message = message;
 
       if (existingReactions) {
-        reaction.count = existingReactions.count - 1;
+        reaction.count = existingReactions.count;
+        reaction.countDetails = { ...existingReactions.countDetails };
+        reaction.me = existingReactions.me;
+        reaction._removedUsers = existingReactions._removedUsers;
 
-        let countDetails = existingReactions.countDetails;
-        countDetails[data.burst ? "burst" : "normal"]--;
+        for (const cached of existingReactions.users.cache.values()) {
+          reaction.users.add(cached);
+        }
 
-        reaction.countDetails = countDetails;
+        // Removals requested by the client are counted when the request is done
+        reaction._removeUser(data.user_id, data.burst);
       }
 
       if (reaction.count <= 0) {
-        message.reactions.delete(reaction.emoji.id ?? reaction.emoji.name!);
-      }
-
-      if (data.burst) {
-        this.client.emit(
-          Events.MessageSuperReactionRemove,
-          reaction,
-          user,
-          message,
-        );
+        message.reactions.delete(reaction.key);
       } else {
-        this.client.emit(Events.MessageReactionRemove, reaction, user, message);
+        message.reactions._add(reaction, true, reaction.key);
       }
+
+      this.#emit(data.burst, reaction, user, message);
+    }
+  }
+
+  #emit(
+    burst: boolean,
+    reaction: Reaction,
+    user: User | undefined,
+    message: Message | PartialMessage,
+  ) {
+    if (burst) {
+      this.client.emit(
+        Events.MessageSuperReactionRemove,
+        reaction,
+        user!,
+        message,
+      );
+    } else {
+      this.client.emit(Events.MessageReactionRemove, reaction, user!, message);
     }
   }
 }
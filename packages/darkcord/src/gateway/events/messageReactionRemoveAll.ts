@@ -1,4 +1,6 @@
+import { Cache } from "@cache/Cache";
 import { TextBasedChannel } from "@resources/Channel";
+import { PartialChannel } from "@resources/Partial";
 import { Events } from "@utils/Constants";
 import { structuredClone } from "@utils/index";
 import { GatewayMessageReactionRemoveAllDispatchData } from "discord-api-types/v10";
@@ -6,9 +8,21 @@ import { Event } from "./Event";
 
 export class MessageReactionRemoveAll extends Event {
   run(data: GatewayMessageReactionRemoveAllDispatchData) {
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.getChannel(data.channel_id, data.guild_id);
 
-    if (TextBasedChannel.isBased(channel!)) {
+    if (
+      channel instanceof PartialChannel ||
+      (TextBasedChannel.isBased(channel!) &&
+        !channel.messages.cache.has(data.message_id))
+    ) {
+      if (this.partials) {
+        this.client.emit(
+          Events.MessageReactionRemoveAll,
+          this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+          new Cache(),
+        );
+      }
+    } else if (TextBasedChannel.isBased(channel!)) {
       const message = channel.messages.get(data.message_id);
 
       if (message) {
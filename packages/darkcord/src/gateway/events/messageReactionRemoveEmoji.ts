@@ -1,4 +1,5 @@
 import { TextBasedChannel } from "@resources/Channel";
+import { PartialChannel } from "@resources/Partial";
 import { Events } from "@utils/Constants";
 import { structuredClone } from "@utils/index";
 import { GatewayMessageReactionRemoveEmojiDispatchData } from "discord-api-types/v10";
@@ -8,9 +9,21 @@ export class MessageReactionRemoveEmoji extends Event {
   run(data: GatewayMessageReactionRemoveEmojiDispatchData) {
     const emoji = data.emoji;
 
-    const channel = this.client.channels.cache.get(data.channel_id);
+    const channel = this.getChannel(data.channel_id, data.guild_id);
 
-    if (TextBasedChannel.isBased(channel!)) {
+    if (
+      channel instanceof PartialChannel ||
+      (TextBasedChannel.isBased(channel!) &&
+        !channel.messages.cache.has(data.message_id))
+    ) {
+      if (this.partials) {
+        this.client.emit(
+          Events.MessageReactionRemoveEmoji,
+          this.partialMessage(data.message_id, data.channel_id, data.guild_id),
+          undefined,
+        );
+      }
+    } else if (TextBasedChannel.isBased(channel!)) {
       const message = channel.messages.get(data.message_id);
 
       if (message) {
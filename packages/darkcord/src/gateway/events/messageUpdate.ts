@@ -1,5 +1,6 @@
 import { TextBasedChannel } from "@resources/Channel";
 import { Message, APIMessage } from "@resources/Message";
+import { PartialChannel, PartialMessage } from "@resources/Partial";
 import { GatewayMessageUpdateDispatchData } from "discord-api-types/v10";
 import { Event } from "./Event";
 import { structuredClone } from "@utils/index";
@@ -9,11 +10,21 @@ import { Guild } from "@resources/Guild";
 
 export class MessageUpdate extends Event {
   async run(data: GatewayMessageUpdateDispatchData) {
-    const channel = this.client.channels.cache.get(
-      data.channel_id,
-    ) as TextBasedChannel;
+    const channel = this.getChannel(data.channel_id, data.guild_id);
 
-    const old = structuredClone(channel.messages.get(data.id));
+    if (!channel) return;
+
+    let old: Message | PartialMessage | undefined;
+
+    if (!(channel instanceof PartialChannel)) {
+      old = structuredClone(
+        (channel as TextBasedChannel).messages.get(data.id),
+      );
+    }
+
+    if (!old && this.partials) {
+      old = this.partialMessage(data.id, data.channel_id, data.guild_id);
+    }
 
     let guild: Guild | undefined;
 
@@ -32,7 +43,9 @@ export class MessageUpdate extends Event {
     this.client.emit(
       Events.MessageUpdate,
       old,
-      Resolvable.resolveMessage(updated, this.client),
+      channel instanceof PartialChannel
+        ? updated
+        : Resolvable.resolveMessage(updated, this.client),
     );
   }
 }
@@ -0,0 +1,17 @@
+import { Events } from "@utils/Constants";
+import { structuredClone } from "@utils/index";
+import { GatewayPresenceUpdateDispatchData } from "discord-api-types/v10";
+import { Event } from "./Event";
+
+export class PresenceUpdate extends Event {
+  run(data: GatewayPresenceUpdateDispatchData) {
+    const guild = this.getGuild(data.guild_id);
+
+    if (!guild) return;
+
+    const old = structuredClone(guild.presences.cache.get(data.user.id));
+    const updated = guild.presences.add(data);
+
+    this.client.emit(Events.PresenceUpdate, old, updated);
+  }
+}
@@ -24,11 +24,8 @@ export class Ready extends Event {
     this.gatewayShard.uptime = Date.now();
     this.gatewayShard.sessionId = data.session_id;
     this.gatewayShard.status = GatewayStatus.WaitingGuilds;
-    this.gatewayShard.resumeURL = `${data.resume_gateway_url}?v=10&encoding=${this.gatewayShard.options.encoding}`;
-
-    if (this.gatewayShard.options.compress) {
-      this.gatewayShard.resumeURL += "&compress=lib-stream";
-    }
+    // Query params are added by the shard when connecting
+    this.gatewayShard.resumeURL = data.resume_gateway_url;
 
     // Ready heartbeat
     this.gatewayShard.heartbeatAck = true;
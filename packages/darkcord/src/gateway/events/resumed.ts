@@ -0,0 +1,39 @@
+import { ClientApplication } from "@resources/Application";
+import { ClientUser } from "@resources/User";
+import { Events, ShardEvents } from "@utils/Constants";
+import { Event } from "./Event";
+
+export class Resumed extends Event {
+  async run() {
+    this.client.emit(Events.ShardResume, this.shardId);
+
+    if (this.gatewayShard.ready) return;
+
+    // Session restored from a session store, READY is not received again
+    if (!this.client.user) {
+      const rawUser = await this.client.rest.getUser("@me");
+
+      this.client.user = new ClientUser({
+        ...rawUser,
+        client: this.client,
+      });
+
+      this.client.cache.users.add(this.client.user);
+    }
+
+    if (!this.client.application) {
+      const rawApplication = await this.client.rest.getCurrentApplication();
+
+      this.client.applicationId ??= rawApplication.id;
+      this.client.applicationFlags ??= rawApplication.flags;
+      this.client.application = new ClientApplication({
+        ...rawApplication,
+        client: this.client,
+      });
+    }
+
+    this.gatewayShard.ready = true;
+    this.gatewayShard.emit(ShardEvents.Ready);
+    this.client.websocket.fireClientReady();
+  }
+}
@@ -11,6 +11,7 @@ export class VoiceServerUpdate extends Event {
     this.client.emit(Events.VoiceServerUpdate, {
       host,
       guild,
+      guildId: data.guild_id,
       token,
     });
   }
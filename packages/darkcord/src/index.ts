@@ -1,8 +1,15 @@
 // Cache
 export * from "@cache/Cache";
 export * from "@cache/CacheManager";
+export * from "@cache/FileCacheAdapter";
 // Client
 export * from "@client/Client";
+export * from "@client/ClusterClient";
+export * from "@client/ClusterManager";
+export * from "@client/CommandRegistry";
+export * from "@client/ComponentRouter";
+export * from "@client/SessionStore";
+export * from "@client/WebhookClient";
 export * from "@client/WebSocket";
 export {
   WebServer,
@@ -11,17 +18,20 @@ export {
 } from "@darkcord/interactions";
 export { GatewayShard, GatewayShardError, GatewayStatus } from "@darkcord/ws";
 // Manager
+export * from "@manager/AutoModerationRuleDataManager";
 export * from "@manager/ChannelDataManager";
 export * from "@manager/DataManager";
 export * from "@manager/EmojiDataManager";
 export * from "@manager/MemberDataManager";
 export * from "@manager/MessageDataManager";
+export * from "@manager/PresenceDataManager";
 export * from "@manager/RoleDataManager";
 export * from "@manager/StickerDataManager";
 export * from "@manager/UserDataManager";
 // Resources
 export * from "@resources/Application";
 export * from "@resources/AuditLog";
+export * from "@resources/AutoModerationRule";
 export * from "@resources/Base";
 export * from "@resources/BitField";
 export * from "@resources/Channel";
@@ -31,7 +41,10 @@ export * from "@resources/Integration";
 export * from "@resources/Interaction";
 export * from "@resources/Member";
 export * from "@resources/Message";
+export * from "@resources/Partial";
 export * from "@resources/Permission";
+export * from "@resources/Poll";
+export * from "@resources/Presence";
 export * from "@resources/Role";
 export * from "@resources/Sticker";
 export * from "@resources/Team";
@@ -41,7 +54,11 @@ export * from "@resources/Webhook";
 // Typings
 export * from "@typings/index";
 // Utils
+export * from "@utils/Collector";
+export * from "@utils/CommandBuilder";
+export * from "@utils/ComponentBuilder";
 export * as Constants from "@utils/Constants";
+export * from "@utils/Paginator";
 export * from "@utils/PluginManager";
 export * from "@utils/Resolvable";
 export * from "@utils/index";
@@ -0,0 +1,73 @@
+import { CacheManager } from "@cache/CacheManager";
+import { AutoModerationRule } from "@resources/AutoModerationRule";
+import { Guild } from "@resources/Guild";
+import { BaseCacheOptions } from "@typings/index";
+import { APIAutoModerationRule } from "discord-api-types/v10";
+import { DataManager } from "./DataManager";
+
+export class AutoModerationRuleDataManager extends DataManager<AutoModerationRule> {
+  constructor(
+    options: number | BaseCacheOptions<AutoModerationRule>,
+    public manager: CacheManager,
+    public guild: Guild,
+  ) {
+    super(options, (get, id) => {
+      const rule = get(id);
+      return rule && this._resolve(rule, true);
+    });
+  }
+
+  get(id: string) {
+    return this.cache.get(id);
+  }
+
+  add(rule: APIAutoModerationRule | AutoModerationRule, replace = true) {
+    if (!rule || !rule.id) {
+      return null as unknown as AutoModerationRule;
+    }
+
+    return super.add(this._resolve(rule), replace, rule.id);
+  }
+
+  _resolve(
+    rule: APIAutoModerationRule | AutoModerationRule,
+    addInCache = false,
+  ) {
+    if (!(rule instanceof AutoModerationRule)) {
+      rule = new AutoModerationRule(
+        { ...rule, client: this.manager.client },
+        this.guild,
+      );
+
+      if (addInCache) this.add(rule);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Fetch a rule of this guild
+   * @param id The rule id
+   */
+  fetch(id: string): Promise<AutoModerationRule>;
+  /**
+   * Fetch all rules of this guild
+   */
+  fetch(): Promise<AutoModerationRule[]>;
+  async fetch(id?: string) {
+    if (id) {
+      const rule = await this.manager.client.rest.getAutoModerationRule(
+        this.guild.id,
+        id,
+      );
+
+      return this.add(rule);
+    }
+
+    const rules = await this.manager.client.rest.getAutoModerationRules(
+      this.guild.id,
+    );
+
+    return rules.map((rule) => this.add(rule));
+  }
+}
@@ -1,5 +1,9 @@
 import { Cache, CacheEntries } from "@cache/Cache";
-import { BaseCacheOptions } from "@typings/index";
+import {
+  AsyncCacheAdapter,
+  BaseCacheOptions,
+  CacheAdapter,
+} from "@typings/index";
 
 type DataResolver<V> = (
   this: Cache<V>,
@@ -7,18 +11,225 @@ type DataResolver<V> = (
   key: string,
 ) => V | undefined;
 
+interface BoundCacheAdapter {
+  store: CacheAdapter<any> | AsyncCacheAdapter<any>;
+  namespace: string;
+  onError: (err: unknown) => void;
+  /**
+   * Chain of pending operations, keeps the order of writes in async adapters
+   */
+  pending: Promise<unknown>;
+  /**
+   * Amount of operations waiting in pending chain
+   */
+  queued: number;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
 export class DataCache<V extends Record<string, any>> extends Cache<V> {
   #resolver?: DataResolver<V>;
+  /**
+   * The adapter backing this cache
+   */
+  adapter?: BoundCacheAdapter;
   _setResolver(resolver: DataResolver<V>) {
     this.#resolver = resolver.bind(this);
   }
 
+  /**
+   * Store the values of this cache in a adapter
+   * @param store The cache adapter
+   * @param namespace Prefix of the keys written by this cache
+   * @param onError Function called when a adapter operation fails
+   */
+  _setAdapter(
+    store: CacheAdapter<any> | AsyncCacheAdapter<any>,
+    namespace: string,
+    onError: (err: unknown) => void = () => {},
+  ) {
+    this.adapter = {
+      store,
+      namespace,
+      onError,
+      pending: Promise.resolve(),
+      queued: 0,
+    };
+  }
+
+  /**
+   * Serializes a value to be stored in adapter
+   * @param value The value to serialize
+   */
+  static _serialize(value: Record<string, any>) {
+    if (value && typeof value === "object" && "rawData" in value) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { client, ...raw } = value.rawData;
+      return raw;
+    }
+
+    return value;
+  }
+
+  #adapterKey(key: string) {
+    return `${this.adapter!.namespace}:${key}`;
+  }
+
+  #runAdapter(fn: (store: BoundCacheAdapter["store"]) => unknown) {
+    const adapter = this.adapter!;
+
+    const enqueue = (op: () => unknown) => {
+      adapter.queued++;
+      adapter.pending = adapter.pending
+        .then(op)
+        .catch(adapter.onError)
+        .finally(() => adapter.queued--);
+    };
+
+    // Wait previous async operations to keep the order
+    if (adapter.queued > 0) {
+      enqueue(() => fn(adapter.store));
+      return;
+    }
+
+    try {
+      const result = fn(adapter.store);
+
+      if (isPromiseLike(result)) {
+        enqueue(() => result);
+      }
+    } catch (err) {
+      adapter.onError(err);
+    }
+  }
+
+  #getFromAdapter(key: string) {
+    if (!this.adapter) return;
+
+    try {
+      const raw = this.adapter.store.get(this.#adapterKey(key));
+
+      // Async adapters can only be read with DataCache.resolve
+      return isPromiseLike(raw) ? undefined : (raw as V | undefined);
+    } catch (err) {
+      this.adapter.onError(err);
+    }
+  }
+
   get(key: string): V | undefined {
-    if (this.#resolver) {
-      return this.#resolver((key_1) => super.get(key_1), key);
+    let fromAdapter = false;
+
+    const getFn = (key_1: string) => {
+      const value = super.get(key_1);
+
+      if (value !== undefined || !this.adapter) return value;
+
+      const raw = this.#getFromAdapter(key_1);
+      fromAdapter = raw !== undefined;
+      return raw;
+    };
+
+    const value = this.#resolver ? this.#resolver(getFn, key) : getFn(key);
+
+    if (fromAdapter && value !== undefined && !super.has(key)) {
+      // Rehydrated value, keep it in memory without writing it again
+      super.set(key, value);
     }
 
-    return super.get(key);
+    return value;
+  }
+
+  /**
+   * Get a value from memory or from the adapter, supporting async adapters
+   * @param key The key of value
+   */
+  async resolve(key: string): Promise<V | undefined> {
+    const cached = this.get(key);
+
+    if (cached !== undefined || !this.adapter) return cached;
+
+    await this.adapter.pending;
+
+    let raw: V | undefined;
+
+    try {
+      raw = await this.adapter.store.get(this.#adapterKey(key));
+    } catch (err) {
+      this.adapter.onError(err);
+    }
+
+    if (raw === undefined) return;
+
+    const value = this.#resolver
+      ? this.#resolver((key_1) => (key_1 === key ? raw : super.get(key_1)), key)
+      : raw;
+
+    if (value !== undefined && !super.has(key)) {
+      super.set(key, value);
+    }
+
+    return value;
+  }
+
+  set(key: string, value: V) {
+    super.set(key, value);
+
+    if (this.adapter && !("isForged" in value)) {
+      const serialized = DataCache._serialize(value);
+      this.#runAdapter((store) => store.set(this.#adapterKey(key), serialized));
+    }
+
+    return this;
+  }
+
+  delete(key: string) {
+    const deleted = super.delete(key);
+
+    if (this.adapter) {
+      this.#runAdapter((store) => store.delete(this.#adapterKey(key)));
+    }
+
+    return deleted;
+  }
+
+  clear() {
+    super.clear();
+
+    if (this.adapter) {
+      const prefix = `${this.adapter.namespace}:`;
+
+      // Keys of nested namespaces are not from this cache
+      const isOwnKey = (key: string) =>
+        key.startsWith(prefix) && !key.slice(prefix.length).includes(":");
+
+      this.#runAdapter((store) => {
+        const keys = store.keys();
+
+        if (isPromiseLike(keys) || Symbol.asyncIterator in keys) {
+          return (async () => {
+            const ownKeys: string[] = [];
+
+            for await (const key of await keys) {
+              if (isOwnKey(key)) ownKeys.push(key);
+            }
+
+            for (const key of ownKeys) {
+              await store.delete(key);
+            }
+          })();
+        }
+
+        for (const key of [...keys].filter(isOwnKey)) {
+          store.delete(key);
+        }
+      });
+    }
   }
 
   _add(item: V, replace = true, id?: string): V {
@@ -38,7 +249,14 @@ export class DataCache<V extends Record<string, any>> extends Cache<V> {
         typeof existing === "object" &&
         existing._update
       ) {
-        return existing._update("rawData" in item ? item.rawData : item);
+        const updated = existing._update(
+          "rawData" in item ? item.rawData : item,
+        );
+
+        // Write the updated value in the adapter too
+        if (this.adapter) this.set(id!, existing);
+
+        return updated;
       }
 
       return item;
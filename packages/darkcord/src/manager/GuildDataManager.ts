@@ -12,7 +12,15 @@ export interface GuildFetchOptions {
 
 export class GuildDataManager extends DataManager<Guild> {
   constructor(public manager: CacheManager, limit?: number) {
-    super(limit);
+    super(limit, (get, id) => {
+      const guild = get(id) as unknown as APIGuild | Guild | undefined;
+
+      if (!guild) return;
+
+      return guild instanceof Guild
+        ? guild
+        : new Guild({ ...guild, client: this.manager.client });
+    });
   }
 
   get(id: string) {
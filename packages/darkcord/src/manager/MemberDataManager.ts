@@ -1,11 +1,33 @@
+import { Cache } from "@cache/Cache";
 import { CacheManager } from "@cache/CacheManager";
 import { Guild } from "@resources/Guild";
 import { Member } from "@resources/Member";
-import { BaseCacheOptions } from "@typings/index";
+import {
+  BaseCacheOptions,
+  FetchMembersOptions,
+  GuildMembersChunkData,
+  IterateMembersOptions,
+} from "@typings/index";
+import { Events } from "@utils/Constants";
+import { MakeError } from "@utils/index";
+import { paginate, snowflakeCursor } from "@utils/Paginator";
 import { APIGuildMember } from "discord-api-types/v10";
 import { DataManager } from "./DataManager";
 import { Forge, Forged } from "@resources/forge/Forgified";
 
+export const GuildMembersTimeoutError = (
+  guildId: string,
+  received: Cache<Member>,
+) =>
+  MakeError({
+    name: "GuildMembersTimeout",
+    message: `Members of guild ${guildId} were not received in time`,
+    args: [
+      ["guildId", guildId],
+      ["received", received],
+    ],
+  });
+
 export class MemberDataManager extends DataManager<Member> {
   constructor(
     options: number | BaseCacheOptions,
@@ -37,12 +59,124 @@ export class MemberDataManager extends DataManager<Member> {
     return this.add(forged, false);
   }
 
-  async fetch(id: string): Promise<Member> {
-    const member = await this.manager.client.rest.getGuildMember(
-      this.guild.id,
-      id,
-    );
+  /**
+   * Fetch a member of this guild
+   * @param id The member id
+   */
+  fetch(id: string): Promise<Member>;
+  /**
+   * Request members of this guild to the gateway
+   * @param options The options to request members
+   * @returns The received members
+   */
+  fetch(options?: FetchMembersOptions): Promise<Cache<Member>>;
+  async fetch(options: string | FetchMembersOptions = {}) {
+    if (typeof options === "string") {
+      const member = await this.manager.client.rest.getGuildMember(
+        this.guild.id,
+        options,
+      );
+
+      return this.add(new Member(member, this.guild));
+    }
+
+    return this._requestMembers(options);
+  }
+
+  /**
+   * Iterate the members of this guild through the REST API, ordered by user id
+   *
+   * Requires the GuildMembers intent
+   * @param options The options to iterate members
+   * @example
+   * for await (const member of guild.members.iterate({ limit: 5000 })) {
+   *   console.log(member.displayName());
+   * }
+   */
+  async *iterate(options: IterateMembersOptions = {}) {
+    const pages = paginate({
+      fetch: (after, limit) =>
+        this.manager.client.rest.getGuildMembers(this.guild.id, {
+          after,
+          limit,
+        }),
+      next: snowflakeCursor(
+        "after",
+        (member: APIGuildMember) => member.user!.id,
+      ),
+      cursor: options.after,
+      limit: options.limit,
+      pageSize: 1000,
+    });
+
+    for await (const member of pages) {
+      yield this.add(new Member(member, this.guild));
+    }
+  }
+
+  _requestMembers(options: FetchMembersOptions) {
+    const client = this.manager.client;
+
+    if (!("websocket" in client)) {
+      throw MakeError({
+        name: "GatewayUnavailable",
+        message: "Members can be requested only by gateway clients",
+      });
+    }
 
-    return this.add(new Member(member, this.guild));
+    const shard = client.websocket.shards.get(this.guild.shardId);
+
+    if (!shard) {
+      throw MakeError({
+        name: "ShardNotFound",
+        message: `Shard ${this.guild.shardId} of guild ${this.guild.id} is not connected`,
+      });
+    }
+
+    // Discord ignores nonces longer than 32 characters
+    const nonce =
+      Date.now().toString(36) + Math.random().toString(36).slice(2, 12);
+    const members = new Cache<Member>();
+
+    return new Promise<Cache<Member>>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        client.off(Events.GuildMembersChunk, handler);
+      };
+
+      const handler = (data: GuildMembersChunkData) => {
+        if (data.nonce !== nonce) return;
+
+        for (const member of data.members as Member[]) {
+          members.set(member.id, member);
+        }
+
+        if (data.chunkIndex >= data.chunkCount - 1) {
+          cleanup();
+          resolve(members);
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        reject(GuildMembersTimeoutError(this.guild.id, members));
+      }, options.time ?? 120_000).unref();
+
+      client.on(Events.GuildMembersChunk, handler);
+
+      try {
+        shard.requestGuildMembers({
+          guildId: this.guild.id,
+          query: options.query,
+          limit: options.limit ?? 0,
+          userIds: options.userIds,
+          presences: options.presences,
+          nonce,
+        });
+      } catch (err) {
+        cleanup();
+        reject(err);
+      }
+    });
   }
 }
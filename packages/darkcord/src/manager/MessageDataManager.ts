@@ -1,7 +1,9 @@
 import { CacheManager } from "@cache/CacheManager";
 import { GuildTextChannel, TextBasedChannel } from "@resources/Channel";
 import { Message, APIMessage } from "@resources/Message";
-import { BaseCacheOptions } from "@typings/index";
+import { Snowflake } from "@resources/Base";
+import { BaseCacheOptions, IterateMessagesOptions } from "@typings/index";
+import { paginate, snowflakeCursor } from "@utils/Paginator";
 import { Resolvable } from "@utils/Resolvable";
 import { RESTGetAPIChannelMessagesQuery } from "discord-api-types/v10";
 import { DataManager } from "./DataManager";
@@ -90,4 +92,39 @@ export class MessageDataManager extends DataManager<Message> {
       ),
     );
   }
+
+  /**
+   * Iterate the messages of this channel, requesting pages as needed
+   * @param options The options, messages are iterated newest first unless after is given
+   * @example
+   * for await (const message of channel.messages.iterate({ limit: 5000 })) {
+   *   console.log(message.content);
+   * }
+   */
+  async *iterate(options: IterateMessagesOptions = {}) {
+    const direction = options.after ? "after" : "before";
+    const pages = paginate({
+      fetch: async (cursor, limit) => {
+        const messages = (await this.manager.client.rest.getMessages(
+          this.channel.id,
+          { [direction]: cursor, limit },
+        )) as APIMessage[];
+
+        return direction === "after"
+          ? messages.sort((a, b) => Snowflake.compare(a.id, b.id))
+          : messages;
+      },
+      next: snowflakeCursor(direction, (message: APIMessage) => message.id),
+      cursor: options.after ?? options.before,
+      limit: options.limit,
+      pageSize: 100,
+    });
+
+    for await (const message of pages) {
+      yield Resolvable.resolveMessage(
+        new Message({ ...message, client: this.manager.client }),
+        this.manager.client,
+      );
+    }
+  }
 }
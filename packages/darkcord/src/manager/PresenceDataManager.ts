@@ -0,0 +1,58 @@
+import { CacheManager } from "@cache/CacheManager";
+import { Guild } from "@resources/Guild";
+import { Presence } from "@resources/Presence";
+import { BaseCacheOptions } from "@typings/index";
+import { GatewayPresenceUpdate } from "discord-api-types/v10";
+import { DataManager } from "./DataManager";
+
+export class PresenceDataManager extends DataManager<Presence> {
+  constructor(
+    options: number | BaseCacheOptions<Presence>,
+    public manager: CacheManager,
+    public guild: Guild,
+  ) {
+    super(options, (get, id) => {
+      const presence = get(id);
+      return presence && this._resolve(presence, true);
+    });
+  }
+
+  get(userId: string) {
+    return this.cache.get(userId);
+  }
+
+  /**
+   * Add a presence to the cache, raw presences update the cached presence of the same user
+   * @param presence The presence
+   * @param replace Whether an existing presence should be replaced
+   */
+  add(presence: GatewayPresenceUpdate | Presence, replace = true) {
+    if (!presence) {
+      return null as unknown as Presence;
+    }
+
+    if (!(presence instanceof Presence)) {
+      const existing = this.cache.get(presence.user.id);
+
+      if (existing) {
+        return super.add(existing._update(presence), replace, existing.id);
+      }
+    }
+
+    const resolved = this._resolve(presence);
+    return super.add(resolved, replace, resolved.id);
+  }
+
+  _resolve(presence: GatewayPresenceUpdate | Presence, addInCache = false) {
+    if (!(presence instanceof Presence)) {
+      presence = new Presence(
+        { ...presence, client: this.manager.client },
+        this.guild,
+      );
+
+      if (addInCache) this.add(presence);
+    }
+
+    return presence;
+  }
+}
@@ -8,8 +8,21 @@ import { Forge } from "@resources/forge/Forgified";
 
 export class ClientRoles {
   cache: DataCache<Role>;
-  constructor(options?: number | BaseCacheOptions<Role>) {
+  constructor(
+    options: number | BaseCacheOptions<Role> | undefined,
+    public manager: CacheManager,
+  ) {
     this.cache = new DataCache(options);
+    this.cache._setResolver((get, id) => {
+      const role = get(id);
+
+      if (!role || role instanceof Role) return role;
+
+      // Roles rehydrated from the adapter are resolved from their guild
+      return this.manager.guilds.cache
+        .find((guild) => guild.roles.cache.has(id))?.[1]
+        .roles.get(id);
+    });
   }
 }
 
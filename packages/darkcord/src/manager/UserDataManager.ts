@@ -10,12 +10,14 @@ export class UserDataManager extends DataManager<User> {
     options: number | BaseCacheOptions<User>,
     public manager: CacheManager,
   ) {
-    super(options);
+    super(options, (get, id) => {
+      const user = get(id);
+      return user && this.#resolve(user);
+    });
   }
 
   get(id: string) {
-    const user = this.cache.get(id);
-    return user && this.#resolve(user, true);
+    return this.cache.get(id);
   }
 
   forge(id: string): User;
@@ -132,6 +132,18 @@ export class Application extends Base {
 }
 
 export class ClientApplication extends Application {
+  fetchCommands(withLocalizations?: boolean) {
+    return this._client.rest.getApplicationCommands(this.id, withLocalizations);
+  }
+
+  fetchGuildCommands(guildId: string, withLocalizations?: boolean) {
+    return this._client.rest.getGuildApplicationCommands(
+      this.id,
+      guildId,
+      withLocalizations,
+    );
+  }
+
   createCommand(options: RESTPostAPIApplicationCommandsJSONBody) {
     return this._client.rest.createApplicationCommand(this.id, options);
   }
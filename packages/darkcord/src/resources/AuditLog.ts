@@ -1,5 +1,13 @@
 import { Cache } from "@cache/Cache";
-import { DataWithClient, GuildDataModel } from "@typings/index";
+import {
+  AuditLogChange,
+  AuditLogChangeKey,
+  AuditLogEntryOptions,
+  AuditLogTargetType,
+  DataWithClient,
+  GuildDataModel,
+} from "@typings/index";
+import { objectSnakeKeysToCamelKeys } from "@utils/index";
 import {
   APIApplicationCommand,
   APIAuditLog,
@@ -7,17 +15,230 @@ import {
   APIAutoModerationRule,
   APIGuildScheduledEvent,
   APIUser,
+  AuditLogEvent,
 } from "discord-api-types/v10";
-import { ThreadChannel } from "./Channel";
+import type { AutoModerationRule } from "./AutoModerationRule";
+import { Base } from "./Base";
+import type { Channel, ThreadChannel } from "./Channel";
+import type { Emoji } from "./Emoji";
+import type { Guild } from "./Guild";
 import { Integration } from "./Integration";
+import type { Role } from "./Role";
+import type { Sticker } from "./Sticker";
 import { User } from "./User";
 import { Webhook } from "./Webhook";
 
+/**
+ * Type of entity affected by each range of audit log actions
+ */
+const AuditLogTargetRanges: [
+  first: number,
+  last: number,
+  type: AuditLogTargetType,
+][] = [
+  [AuditLogEvent.GuildUpdate, AuditLogEvent.GuildUpdate, "Guild"],
+  [
+    AuditLogEvent.ChannelCreate,
+    AuditLogEvent.ChannelOverwriteDelete,
+    "Channel",
+  ],
+  [AuditLogEvent.MemberKick, AuditLogEvent.BotAdd, "User"],
+  [AuditLogEvent.RoleCreate, AuditLogEvent.RoleDelete, "Role"],
+  [AuditLogEvent.InviteCreate, AuditLogEvent.InviteDelete, "Invite"],
+  [AuditLogEvent.WebhookCreate, AuditLogEvent.WebhookDelete, "Webhook"],
+  [AuditLogEvent.EmojiCreate, AuditLogEvent.EmojiDelete, "Emoji"],
+  // The target of deleted, pinned and unpinned messages is the author
+  [AuditLogEvent.MessageDelete, AuditLogEvent.MessageDelete, "User"],
+  [AuditLogEvent.MessageBulkDelete, AuditLogEvent.MessageBulkDelete, "Channel"],
+  [AuditLogEvent.MessagePin, AuditLogEvent.MessageUnpin, "User"],
+  [
+    AuditLogEvent.IntegrationCreate,
+    AuditLogEvent.IntegrationDelete,
+    "Integration",
+  ],
+  [
+    AuditLogEvent.StageInstanceCreate,
+    AuditLogEvent.StageInstanceDelete,
+    "StageInstance",
+  ],
+  [AuditLogEvent.StickerCreate, AuditLogEvent.StickerDelete, "Sticker"],
+  [
+    AuditLogEvent.GuildScheduledEventCreate,
+    AuditLogEvent.GuildScheduledEventDelete,
+    "GuildScheduledEvent",
+  ],
+  [AuditLogEvent.ThreadCreate, AuditLogEvent.ThreadDelete, "Thread"],
+  [
+    AuditLogEvent.ApplicationCommandPermissionUpdate,
+    AuditLogEvent.ApplicationCommandPermissionUpdate,
+    "ApplicationCommand",
+  ],
+  // Soundboard sound create, update and delete, sounds have no resource
+  [130, 132, "Unknown"],
+  [
+    AuditLogEvent.AutoModerationRuleCreate,
+    AuditLogEvent.AutoModerationRuleDelete,
+    "AutoModerationRule",
+  ],
+  // The target of auto moderation actions is the member
+  [
+    AuditLogEvent.AutoModerationBlockMessage,
+    AuditLogEvent.AutoModerationUserCommunicationDisabled,
+    "User",
+  ],
+];
+
+export type AuditLogTarget =
+  | Guild
+  | Channel
+  | User
+  | Role
+  | Webhook
+  | Emoji
+  | Integration
+  | Sticker
+  | AutoModerationRule;
+
+export class AuditLogEntry extends Base {
+  /**
+   * Type of action that occurred
+   */
+  actionType: AuditLogEvent;
+  /**
+   * Id of the user or app that made the changes
+   */
+  userId: string | null;
+  /**
+   * The user or app that made the changes, if cached
+   */
+  executor: User | null;
+  /**
+   * Id of the affected entity
+   */
+  targetId: string | null;
+  /**
+   * The type of the affected entity
+   */
+  targetType: AuditLogTargetType;
+  /**
+   * The affected entity, if cached
+   */
+  target: AuditLogTarget | null;
+  /**
+   * Reason for the change (1-512 characters)
+   */
+  reason: string | null;
+  /**
+   * Additional info for certain event types
+   */
+  options: AuditLogEntryOptions | null;
+  /**
+   * Changes made to the target
+   */
+  changes: AuditLogChange[];
+  declare rawData: APIAuditLogEntry;
+  constructor(
+    data: DataWithClient<APIAuditLogEntry>,
+    public guild: Guild,
+    log?: AuditLog,
+  ) {
+    super(data, data.client);
+
+    this.actionType = data.action_type;
+    this.userId = data.user_id;
+    this.executor = data.user_id
+      ? this._client.users.cache.get(data.user_id) ?? null
+      : null;
+    this.targetId = data.target_id;
+    this.targetType = AuditLogEntry.targetTypeOf(data.action_type);
+    this.target = this._resolveTarget(log);
+    this.reason = data.reason ?? null;
+    this.options = data.options
+      ? (objectSnakeKeysToCamelKeys(data.options) as AuditLogEntryOptions)
+      : null;
+    this.changes = (data.changes ?? []).map((change) => ({
+      key: change.key,
+      old: change.old_value,
+      new: change.new_value,
+    }));
+  }
+
+  /**
+   * Get the type of entity affected by an action
+   * @param actionType The type of action
+   */
+  static targetTypeOf(actionType: AuditLogEvent): AuditLogTargetType {
+    const range = AuditLogTargetRanges.find(
+      ([first, last]) => actionType >= first && actionType <= last,
+    );
+
+    return range?.[2] ?? "Unknown";
+  }
+
+  /**
+   * Get the change of a property
+   * @param key Name of the property
+   */
+  getChange<K extends AuditLogChangeKey>(key: K) {
+    return this.changes.find((change) => change.key === key) as
+      | AuditLogChange<K>
+      | undefined;
+  }
+
+  _resolveTarget(log?: AuditLog): AuditLogTarget | null {
+    const id = this.targetId;
+
+    if (this.targetType === "Guild") return this.guild;
+    if (!id) return null;
+
+    switch (this.targetType) {
+      case "Channel":
+      case "Thread":
+        return (
+          this.guild.channels.cache.get(id) ??
+          this._client.channels.cache.get(id) ??
+          null
+        );
+      case "User":
+        return this._client.users.cache.get(id) ?? null;
+      case "Role":
+        return this.guild.roles.cache.get(id) ?? null;
+      case "Webhook":
+        return log?.webhooks.get(id) ?? null;
+      case "Emoji":
+        return this.guild.emojis.cache.get(id) ?? null;
+      case "Integration":
+        return log?.integrations.get(id) ?? null;
+      case "Sticker":
+        return this.guild.stickers.cache.get(id) ?? null;
+      case "AutoModerationRule":
+        return this.guild.autoModerationRules.cache.get(id) ?? null;
+      default:
+        return null;
+    }
+  }
+
+  toJSON() {
+    return Base.toJSON(this as AuditLogEntry, [
+      "actionType",
+      "changes",
+      "createdAt",
+      "id",
+      "options",
+      "rawData",
+      "reason",
+      "targetId",
+      "targetType",
+      "userId",
+    ]);
+  }
+}
+
 export class AuditLog {
   applicationCommands: APIApplicationCommand[];
   webhooks: Map<string, Webhook>;
   users: Cache<User | APIUser>;
-  auditLogEntries: APIAuditLogEntry[];
+  auditLogEntries: AuditLogEntry[];
   autoModerationRules: APIAutoModerationRule[];
   integrations: Map<string, Integration>;
   threads: Cache<ThreadChannel>;
@@ -25,15 +246,16 @@ export class AuditLog {
 
   constructor(data: DataWithClient<GuildDataModel<APIAuditLog>>) {
     this.applicationCommands = data.application_commands;
-    this.auditLogEntries = data.audit_log_entries;
     this.guildScheduledEvents = data.guild_scheduled_events;
+    this.autoModerationRules = data.auto_moderation_rules;
 
     // Users
-    const usersIdMap = data.users.map((u) => u.id);
+    this.users = new Cache();
 
-    this.users = data.client.users.cache.filter((u) =>
-      usersIdMap.includes(u.id),
-    );
+    for (const raw of data.users) {
+      const user = data.client.users.add(raw)!;
+      this.users.set(user.id, user);
+    }
 
     // Webhooks
     this.webhooks = new Map();
@@ -65,5 +287,11 @@ export class AuditLog {
         );
       }
     }
+
+    // Entries are resolved last, their targets can be in this log
+    this.auditLogEntries = data.audit_log_entries.map(
+      (entry) =>
+        new AuditLogEntry({ ...entry, client: data.client }, data.guild, this),
+    );
   }
 }
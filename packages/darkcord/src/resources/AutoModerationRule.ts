@@ -0,0 +1,213 @@
+import { DataWithClient, EditAutoModerationRuleOptions } from "@typings/index";
+import {
+  APIAutoModerationAction,
+  APIAutoModerationRule,
+  APIAutoModerationRuleTriggerMetadata,
+  AutoModerationRuleEventType,
+  AutoModerationRuleTriggerType,
+  GatewayAutoModerationActionExecutionDispatchData,
+} from "discord-api-types/v10";
+import { Base } from "./Base";
+import type { Channel } from "./Channel";
+import type { Guild } from "./Guild";
+import type { Member } from "./Member";
+
+export class AutoModerationRule extends Base {
+  /**
+   * The rule name
+   */
+  name: string;
+  /**
+   * The user id which first created this rule
+   */
+  creatorId: string;
+  /**
+   * The rule event type
+   */
+  eventType: AutoModerationRuleEventType;
+  /**
+   * The rule trigger type
+   */
+  triggerType: AutoModerationRuleTriggerType;
+  /**
+   * The rule trigger metadata
+   */
+  triggerMetadata: APIAutoModerationRuleTriggerMetadata;
+  /**
+   * The actions which will execute when the rule is triggered
+   */
+  actions: APIAutoModerationAction[];
+  /**
+   * Whether the rule is enabled
+   */
+  enabled: boolean;
+  /**
+   * The role ids that should not be affected by the rule
+   */
+  exemptRoles: string[];
+  /**
+   * The channel ids that should not be affected by the rule
+   */
+  exemptChannels: string[];
+  declare rawData: APIAutoModerationRule;
+  constructor(
+    data: DataWithClient<APIAutoModerationRule>,
+    public guild: Guild,
+  ) {
+    super(data, data.client);
+
+    this._update(data);
+  }
+
+  _update(data: APIAutoModerationRule) {
+    if ("name" in data) this.name = data.name;
+    if ("creator_id" in data) this.creatorId = data.creator_id;
+    if ("event_type" in data) this.eventType = data.event_type;
+    if ("trigger_type" in data) this.triggerType = data.trigger_type;
+    if ("trigger_metadata" in data)
+      this.triggerMetadata = data.trigger_metadata;
+    if ("actions" in data) this.actions = data.actions;
+    if ("enabled" in data) this.enabled = data.enabled;
+    if ("exempt_roles" in data) this.exemptRoles = data.exempt_roles;
+    if ("exempt_channels" in data) this.exemptChannels = data.exempt_channels;
+
+    this.rawData = Object.assign({}, this.rawData, data);
+
+    return this;
+  }
+
+  /**
+   * Edit this rule
+   * @param options The options to edit this rule
+   * @param reason The reason for editing this rule
+   */
+  edit(options: EditAutoModerationRuleOptions, reason?: string) {
+    return this.guild.editAutoModerationRule(this.id, options, reason);
+  }
+
+  /**
+   * Enable or disable this rule
+   */
+  setEnabled(enabled: boolean, reason?: string) {
+    return this.edit({ enabled }, reason);
+  }
+
+  /**
+   * Delete this rule
+   * @param reason The reason for deleting this rule
+   */
+  delete(reason?: string) {
+    return this.guild.deleteAutoModerationRule(this.id, reason);
+  }
+
+  /**
+   * Update information of this rule
+   *
+   * Util if this is forged
+   * @returns
+   */
+  async fetchInformation() {
+    const data = await this._client.rest.getAutoModerationRule(
+      this.guild.id,
+      this.id,
+    );
+
+    return this._update(data);
+  }
+
+  toJSON() {
+    return Base.toJSON(this as AutoModerationRule, [
+      "actions",
+      "createdAt",
+      "creatorId",
+      "enabled",
+      "eventType",
+      "exemptChannels",
+      "exemptRoles",
+      "id",
+      "name",
+      "rawData",
+      "triggerMetadata",
+      "triggerType",
+    ]);
+  }
+}
+
+/**
+ * A action executed by a auto moderation rule
+ */
+export class AutoModerationActionExecution {
+  /**
+   * The action which was executed
+   */
+  action: APIAutoModerationAction;
+  /**
+   * The id of the rule which action belongs to
+   */
+  ruleId: string;
+  /**
+   * The rule which action belongs to, if cached
+   */
+  rule: AutoModerationRule | null;
+  /**
+   * The trigger type of rule which was triggered
+   */
+  ruleTriggerType: AutoModerationRuleTriggerType;
+  /**
+   * The id of the user which generated the content which triggered the rule
+   */
+  userId: string;
+  /**
+   * The member which generated the content which triggered the rule, if cached
+   */
+  member: Member | null;
+  /**
+   * The id of the channel in which user content was posted
+   */
+  channelId: string | null;
+  /**
+   * The channel in which user content was posted, if cached
+   */
+  channel: Channel | null;
+  /**
+   * The id of any user message which content belongs to,
+   * not present if the message was blocked by automod or content was not part of any message
+   */
+  messageId: string | null;
+  /**
+   * The id of any system auto moderation messages posted as a result of this action
+   */
+  alertSystemMessageId: string | null;
+  /**
+   * The user generated text content, requires the MessageContent intent
+   */
+  content: string;
+  /**
+   * The word or phrase configured in the rule that triggered the rule
+   */
+  matchedKeyword: string | null;
+  /**
+   * The substring in content that triggered the rule, requires the MessageContent intent
+   */
+  matchedContent: string | null;
+  constructor(
+    data: GatewayAutoModerationActionExecutionDispatchData,
+    public guild: Guild,
+  ) {
+    this.action = data.action;
+    this.ruleId = data.rule_id;
+    this.rule = guild.autoModerationRules.cache.get(data.rule_id) ?? null;
+    this.ruleTriggerType = data.rule_trigger_type;
+    this.userId = data.user_id;
+    this.member = guild.members.cache.get(data.user_id) ?? null;
+    this.channelId = data.channel_id ?? null;
+    this.channel = data.channel_id
+      ? guild.channels.cache.get(data.channel_id) ?? null
+      : null;
+    this.messageId = data.message_id ?? null;
+    this.alertSystemMessageId = data.alert_system_message_id ?? null;
+    this.content = data.content;
+    this.matchedKeyword = data.matched_keyword;
+    this.matchedContent = data.matched_content;
+  }
+}
@@ -9,38 +9,57 @@ export namespace Snowflake {
       message: `${id} is not a snowflake`,
     });
 
+  export const InvalidTimestampError = (timestamp: number) =>
+    MakeError(
+      {
+        name: "InvalidTimestamp",
+        message: `${timestamp} is not a timestamp after the discord epoch`,
+      },
+      RangeError,
+    );
+
+  export const Epoch = 1420070400000;
+
+  const MaxSnowflake = 0xffffffffffffffffn;
+
+  let increment = 0n;
+
   export function valid(id: string) {
-    return Number.isInteger(Number(id));
+    return /^\d{1,20}$/.test(id) && BigInt(id) <= MaxSnowflake;
   }
 
+  /**
+   * Milliseconds since the discord epoch when the snowflake was created
+   */
   export function getEpoch(id: string) {
     verify(id);
-    return Math.floor(Number(id) / 4194304);
+    return Number(BigInt(id) >> 22n);
   }
 
+  /**
+   * Unix timestamp in milliseconds of when the snowflake was created
+   */
   export function getCreatedAt(id: string) {
-    verify(id);
     return getEpoch(id) + Epoch;
   }
 
   export function getCreatedTimestamp(id: string) {
-    verify(id);
-    return (Number(id) >> 22) + Epoch;
+    return getCreatedAt(id);
   }
 
   export function getWorkerId(id: string) {
     verify(id);
-    return (Number(id) & 0x3e0000) >> 17;
+    return Number((BigInt(id) & 0x3e0000n) >> 17n);
   }
 
   export function getProcessId(id: string) {
     verify(id);
-    return (Number(id) & 0x1f000) >> 12;
+    return Number((BigInt(id) & 0x1f000n) >> 12n);
   }
 
   export function getIncrement(id: string) {
     verify(id);
-    return Number(id) & 0xfff;
+    return Number(BigInt(id) & 0xfffn);
   }
 
   /**
@@ -51,6 +70,65 @@ export namespace Snowflake {
     return true;
   }
 
+  /**
+   * Compare two snowflakes by their creation order
+   * @returns A negative number if a is older than b, a positive number if a is newer and 0 if equal
+   */
+  export function compare(a: string, b: string) {
+    const diff = BigInt(a) - BigInt(b);
+    return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+  }
+
+  /**
+   * Sort snowflakes by their creation order, oldest first
+   * @param ids The snowflakes, the array is not modified
+   * @param descending Whether to sort newest first
+   */
+  export function sort<T extends string>(ids: T[], descending = false) {
+    return [...ids].sort((a, b) =>
+      descending ? compare(b, a) : compare(a, b),
+    );
+  }
+
+  /**
+   * Generate a snowflake
+   * @param timestamp The unix timestamp in milliseconds or the date of snowflake
+   * @param options The worker id, process id and increment, the increment is generated if not given
+   */
+  export function generate(
+    timestamp: number | Date = Date.now(),
+    options: { workerId?: number; processId?: number; increment?: number } = {},
+  ) {
+    if (timestamp instanceof Date) timestamp = timestamp.getTime();
+
+    if (!Number.isInteger(timestamp) || timestamp < Epoch) {
+      throw InvalidTimestampError(timestamp);
+    }
+
+    const inc =
+      options.increment === undefined
+        ? increment++ & 0xfffn
+        : BigInt(options.increment) & 0xfffn;
+
+    return (
+      (BigInt(timestamp - Epoch) << 22n) |
+      ((BigInt(options.workerId ?? 0) & 0x1fn) << 17n) |
+      ((BigInt(options.processId ?? 0) & 0x1fn) << 12n) |
+      inc
+    ).toString();
+  }
+
+  /**
+   * Get the lowest snowflake of a timestamp, useful as cursor of paginated requests
+   * @param timestamp The unix timestamp in milliseconds or the date
+   * @example
+   * // Messages sent in the last hour
+   * channel.messages.iterate({ after: Snowflake.fromTimestamp(Date.now() - 3600000) });
+   */
+  export function fromTimestamp(timestamp: number | Date) {
+    return generate(timestamp, { increment: 0 });
+  }
+
   export function deconstruct(id: string) {
     return {
       timestamp: getCreatedTimestamp(id),
@@ -60,8 +138,6 @@ export namespace Snowflake {
       increment: getIncrement(id),
     };
   }
-
-  export const Epoch = 1420070400000;
 }
 
 export class Base {
@@ -3,11 +3,16 @@ import { DataCache } from "@manager/DataManager";
 import { MemberDataManager } from "@manager/MemberDataManager";
 import { MessageDataManager } from "@manager/MessageDataManager";
 import {
+  AwaitCollectorOptions,
   DataWithClient,
+  IterateArchivedThreadsOptions,
   KeysToCamelCase,
+  MessageCollectorOptions,
   MessagePostData,
 } from "@typings/index";
+import { MessageCollector } from "@utils/Collector";
 import { channelMention } from "@utils/Constants";
+import { paginate, snowflakeCursor } from "@utils/Paginator";
 import { Resolvable } from "@utils/Resolvable";
 import { transformMessagePostData } from "@utils/index";
 import {
@@ -32,6 +37,7 @@ import {
   ChannelType,
   ForumLayoutType,
   GuildTextChannelType,
+  OverwriteType,
   RESTPatchAPIChannelJSONBody,
   RESTPostAPIChannelWebhookJSONBody,
   RESTPostAPIStageInstanceJSONBody,
@@ -44,9 +50,10 @@ import { Base } from "./Base";
 import { BitField } from "./BitField";
 import { Emoji } from "./Emoji";
 import { Guild } from "./Guild";
-import { ThreadMember } from "./Member";
+import { Member, ThreadMember } from "./Member";
 import { APIMessage, Message } from "./Message";
-import { PermissionOverwrite } from "./Permission";
+import { PermissionOverwrite, Permissions } from "./Permission";
+import { Role } from "./Role";
 import { User } from "./User";
 import { Webhook } from "./Webhook";
 
@@ -152,7 +159,7 @@ export class Channel extends Base {
     if ("flags" in data)
       this.flags = (data.flags && new ChannelFlags(data.flags)) ?? null;
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
@@ -267,6 +274,10 @@ export class TextBasedChannel extends Channel {
       this._client.cache,
       this,
     );
+    this._client.cache._bindAdapter(
+      this.messages.cache,
+      `channels:${this.id}:messages`,
+    );
 
     this.lastMessageId = data.last_message_id;
     this.lastPinTimestamp = data.last_pin_timestamp
@@ -294,6 +305,12 @@ export class TextBasedChannel extends Channel {
   }
 
   async bulkDeleteMessages(messages: number | Message[] | string[]) {
+    if (this.isGuildChannel()) {
+      this.guild._checkPermissions(Permissions.Flags.ManageMessages, {
+        channel: this,
+      });
+    }
+
     if (typeof messages === "number") {
       messages = await this.messages
         .fetch({
@@ -314,6 +331,82 @@ export class TextBasedChannel extends Channel {
     return this._client.rest.triggerTyping(this.id);
   }
 
+  /**
+   * Fetch the pinned messages of this channel
+   * @returns The pinned messages
+   */
+  async fetchPins() {
+    const messages = (await this._client.rest.getPinnedMessages(
+      this.id,
+    )) as APIMessage[];
+
+    return Promise.all(
+      messages.map((message) =>
+        Resolvable.resolveMessage(
+          new Message({
+            ...message,
+            client: this._client,
+          }),
+          this._client,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Pin a message in this channel
+   * @param id Id of the message
+   * @param reason Reason to pin message
+   */
+  async pinMessage(id: string, reason?: string) {
+    if (this.isGuildChannel()) {
+      this.guild._checkPermissions(Permissions.Flags.ManageMessages, {
+        channel: this,
+      });
+    }
+
+    await this._client.rest.pinMessage(this.id, id, reason);
+
+    const message = this.messages.cache.get(id);
+    if (message) message.pinned = true;
+  }
+
+  /**
+   * Unpin a message in this channel
+   * @param id Id of the message
+   * @param reason Reason to unpin message
+   */
+  async unpinMessage(id: string, reason?: string) {
+    if (this.isGuildChannel()) {
+      this.guild._checkPermissions(Permissions.Flags.ManageMessages, {
+        channel: this,
+      });
+    }
+
+    await this._client.rest.unpinMessage(this.id, id, reason);
+
+    const message = this.messages.cache.get(id);
+    if (message) message.pinned = false;
+  }
+
+  /**
+   * Create a collector of messages sent in this channel
+   * @param options The collector options
+   * @returns
+   */
+  createMessageCollector(options?: MessageCollectorOptions) {
+    return new MessageCollector(this, options);
+  }
+
+  /**
+   * Wait messages be sent in this channel
+   * @param options The collector options
+   * @returns The collected messages
+   */
+  awaitMessages(options: AwaitCollectorOptions<[message: Message]> = {}) {
+    return this.createMessageCollector(options).wait(options.errors);
+  }
+
   toJSON() {
     return Base.toJSON(this as TextBasedChannel, [
       "createdAt",
@@ -340,6 +433,140 @@ export class TextBasedChannel extends Channel {
   }
 }
 
+function applyOverwrite(perms: bigint, allow: bigint, deny: bigint) {
+  return (perms & ~deny) | allow;
+}
+
+function applyEveryoneOverwrite(channel: GuildChannel, perms: bigint) {
+  const everyone = channel.permissionOverwrites.get(channel.guild.id);
+
+  return everyone
+    ? applyOverwrite(
+        perms,
+        everyone.permissions.allow,
+        everyone.permissions.deny,
+      )
+    : perms;
+}
+
+function applyImplicitPermissions(channel: GuildChannel, perms: bigint) {
+  // Without view channel all the other permissions are denied
+  if (!(perms & Permissions.Flags.ViewChannel)) {
+    return 0n;
+  }
+
+  if (
+    channel.isText() &&
+    !(perms & Permissions.Flags.SendMessages) &&
+    channel.type !== ChannelType.GuildForum
+  ) {
+    perms &= ~(
+      Permissions.Flags.MentionEveryone |
+      Permissions.Flags.SendTTSMessages |
+      Permissions.Flags.AttachFiles |
+      Permissions.Flags.EmbedLinks
+    );
+  }
+
+  if (
+    (channel.type === ChannelType.GuildVoice ||
+      channel.type === ChannelType.GuildStageVoice) &&
+    !(perms & Permissions.Flags.Connect)
+  ) {
+    perms &= ~(
+      Permissions.Flags.Speak |
+      Permissions.Flags.Stream |
+      Permissions.Flags.UseVAD |
+      Permissions.Flags.PrioritySpeaker |
+      Permissions.Flags.MuteMembers |
+      Permissions.Flags.DeafenMembers |
+      Permissions.Flags.MoveMembers |
+      Permissions.Flags.UseEmbeddedActivities |
+      Permissions.Flags.UseSoundboard |
+      Permissions.Flags.RequestToSpeak
+    );
+  }
+
+  return perms;
+}
+
+function rolePermissionsIn(channel: GuildChannel, role: Role) {
+  const everyoneRole = channel.guild.roles.everyone;
+
+  let perms = (everyoneRole?.permissions.allow ?? 0n) | role.permissions.allow;
+
+  if (perms & Permissions.Flags.Administrator) {
+    return new Permissions(Permissions.All);
+  }
+
+  perms = applyEveryoneOverwrite(channel, perms);
+
+  const overwrite = channel.permissionOverwrites.get(role.id);
+
+  if (overwrite && role.id !== channel.guild.id) {
+    perms = applyOverwrite(
+      perms,
+      overwrite.permissions.allow,
+      overwrite.permissions.deny,
+    );
+  }
+
+  return new Permissions(applyImplicitPermissions(channel, perms));
+}
+
+function memberPermissionsIn(channel: GuildChannel, member: Member) {
+  if (member.id === channel.guild.ownerId) {
+    return new Permissions(Permissions.All);
+  }
+
+  let perms = channel.guild.roles.everyone?.permissions.allow ?? 0n;
+
+  for (const roleId of member.roles.toArray()) {
+    perms |= channel.guild.roles.cache.get(roleId)?.permissions.allow ?? 0n;
+  }
+
+  if (perms & Permissions.Flags.Administrator) {
+    return new Permissions(Permissions.All);
+  }
+
+  perms = applyEveryoneOverwrite(channel, perms);
+
+  let allow = 0n;
+  let deny = 0n;
+
+  for (const roleId of member.roles.toArray()) {
+    const overwrite = channel.permissionOverwrites.get(roleId);
+
+    if (overwrite?.type === OverwriteType.Role) {
+      allow |= overwrite.permissions.allow;
+      deny |= overwrite.permissions.deny;
+    }
+  }
+
+  perms = applyOverwrite(perms, allow, deny);
+
+  const memberOverwrite = channel.permissionOverwrites.get(member.id);
+
+  if (memberOverwrite?.type === OverwriteType.Member) {
+    perms = applyOverwrite(
+      perms,
+      memberOverwrite.permissions.allow,
+      memberOverwrite.permissions.deny,
+    );
+  }
+
+  // Timed out members can only view the channel and read message history
+  if (
+    member.communicationDisabledUntil &&
+    Date.parse(member.communicationDisabledUntil) > Date.now()
+  ) {
+    perms &=
+      Permissions.Flags.ViewChannel | Permissions.Flags.ReadMessageHistory;
+  }
+
+  return new Permissions(applyImplicitPermissions(channel, perms));
+}
+
 export class GuildChannel extends Channel {
   guild: Guild;
   /**
@@ -408,6 +635,80 @@ export class GuildChannel extends Channel {
     );
   }
 
+  /**
+   * Get the permissions of a member or role in this channel, applying the permission overwrites
+   * @param memberOrRole The member, role or the id of one of them
+   * @returns
+   */
+  permissionsFor(memberOrRole: Member | Role | string) {
+    if (typeof memberOrRole === "string") {
+      const resolved =
+        this.guild.members.cache.get(memberOrRole) ??
+        this.guild.roles.cache.get(memberOrRole);
+
+      if (!resolved) {
+        throw new TypeError(
+          `Member or role ${memberOrRole} not found in guild cache`,
+        );
+      }
+
+      memberOrRole = resolved;
+    }
+
+    if (memberOrRole instanceof Role) {
+      return rolePermissionsIn(this, memberOrRole);
+    }
+
+    return memberPermissionsIn(this, memberOrRole);
+  }
+
+  /**
+   * Iterate the archived threads of this channel, requesting pages as needed
+   * @param options The options, threads are iterated from the most recently archived
+   * @example
+   * for await (const thread of channel.iterateArchivedThreads({ type: "private" })) {
+   *   console.log(thread.name);
+   * }
+   */
+  async *iterateArchivedThreads(options: IterateArchivedThreadsOptions = {}) {
+    const type = options.type ?? "public";
+    const joined = type === "joined";
+
+    const pages = paginate({
+      fetch: async (before, limit) => {
+        const data = joined
+          ? await this._client.rest.getJoinedArchivedThreads(this.id, {
+              before,
+              limit,
+            })
+          : await this._client.rest.getArchivedThreads(this.id, type, {
+              before,
+              limit,
+            });
+
+        return { items: data.threads, hasMore: data.has_more };
+      },
+      next: joined
+        ? snowflakeCursor("before", (thread: APIChannel) => thread.id)
+        : (threads) =>
+            (threads[threads.length - 1] as APIThreadChannel).thread_metadata!
+              .archive_timestamp,
+      cursor:
+        options.before instanceof Date
+          ? options.before.toISOString()
+          : options.before,
+      limit: options.limit,
+      pageSize: 100,
+    });
+
+    for await (const thread of pages) {
+      yield new ThreadChannel(
+        { ...(thread as APIThreadChannel), client: this._client },
+        this.guild,
+      );
+    }
+  }
+
   _update(data: APIGuildChannelResolvable) {
     if ("position" in data) this.position = data.position;
     if ("nsfw" in data) this.nsfw = Boolean(data.nsfw);
@@ -560,6 +861,10 @@ export class ThreadChannel extends TextBasedChannel {
    * The channel associated with this thread
    */
   channel: GuildTextChannel | null;
+  /**
+   * The id of the channel associated with this thread
+   */
+  parentId: string | null;
   /**
    * The id of the guild
    */
@@ -602,6 +907,7 @@ export class ThreadChannel extends TextBasedChannel {
     this.guild = guild;
     this.ownerId = data.owner_id;
     this.guildId = data.guild_id || guild.id;
+    this.parentId = data.parent_id ?? null;
     this.channel = data.parent_id
       ? (guild.channels.cache.get(data.parent_id) as GuildTextChannel)
       : null;
@@ -614,6 +920,49 @@ export class ThreadChannel extends TextBasedChannel {
     this._update(data);
   }
 
+  /**
+   * The parent channel of this thread
+   */
+  get parent() {
+    return (
+      this.channel ??
+      (this.guild.channels.cache.get(this.parentId!) as
+        | GuildTextChannel
+        | undefined) ??
+      null
+    );
+  }
+
+  /**
+   * Get the permissions of a member or role in this thread, inherited from the parent channel
+   * @param memberOrRole The member, role or the id of one of them
+   * @returns
+   */
+  permissionsFor(memberOrRole: Member | Role | string) {
+    const parent = this.parent;
+
+    if (!parent) {
+      throw new TypeError("Thread parent channel not found in guild cache");
+    }
+
+    let perms = parent.permissionsFor(memberOrRole).allow;
+
+    // In threads send messages is given by send messages in threads
+    if (perms & Permissions.Flags.SendMessagesInThreads) {
+      perms |= Permissions.Flags.SendMessages;
+    } else {
+      perms &= ~(
+        Permissions.Flags.SendMessages |
+        Permissions.Flags.MentionEveryone |
+        Permissions.Flags.SendTTSMessages |
+        Permissions.Flags.AttachFiles |
+        Permissions.Flags.EmbedLinks
+      );
+    }
+
+    return new Permissions(perms);
+  }
+
   addMember(userId: string) {
     return this._client.rest.addThreadMember(this.id, userId);
   }
@@ -685,6 +1034,7 @@ export class ThreadChannel extends TextBasedChannel {
       "messages",
       "name",
       "ownerId",
+      "parentId",
       "rawData",
       "totalMessageSent",
       "type",
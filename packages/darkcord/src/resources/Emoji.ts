@@ -1,14 +1,21 @@
 import { UserDataManager } from "@manager/UserDataManager";
-import { AnyClient, DataWithClient } from "@typings/index";
+import {
+  AnyClient,
+  DataWithClient,
+  FetchReactionUsersOptions,
+} from "@typings/index";
+import { paginate, snowflakeCursor } from "@utils/Paginator";
 import {
   APIEmoji,
   APIReaction as RawAPIReaction,
+  APIUser,
   CDNRoutes,
   ImageFormat,
   RouteBases,
 } from "discord-api-types/v10";
 import { Snowflake } from "./Base";
 import { Message } from "./Message";
+import { User } from "./User";
 
 export class Emoji {
   /**
@@ -51,13 +58,16 @@ export class Emoji {
     if ("animated" in data) this.animated = Boolean(data.animated);
     else this.animated ??= false;
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
 
+  /**
+   * When the emoji was created, null for unicode emojis
+   */
   createdAt() {
-    return this.id && Snowflake.getCreatedAt(this.id);
+    return this.id ? Snowflake.getCreatedAt(this.id) : null;
   }
 
   /**
@@ -124,12 +134,13 @@ export class Emoji {
   }
 
   static getEncodedURI(emoji: string | APIEmoji) {
-    if (typeof emoji === "string") {
-      emoji = Emoji.parse(emoji) as Emoji;
-    }
+    // Unicode emojis aren't parsed
+    emoji = (typeof emoji === "string" ? Emoji.parse(emoji) : emoji) ?? {
+      id: null,
+      name: emoji as string,
+    };
 
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    return emoji && emoji.id
+    return emoji.id
       ? `${emoji.animated ? "a:" : ""}${emoji.name}:${emoji.id}`
       : encodeURIComponent(emoji.name!);
   }
@@ -206,9 +217,20 @@ export class Reaction {
    * The channel id of the message of this reaction
    */
   channelId?: string;
+  /**
+   * Ids of users whose removal was counted by only one of the request
+   * or the gateway event, the other one doesn't count it again
+   */
+  _removedUsers: Set<string>;
   constructor(data: DataWithClient<APIReaction | APISuperReaction>) {
     Object.defineProperty(this, "_client", { value: data.client });
 
+    this.users = new UserDataManager(
+      this._client.cache._cacheLimit("users"),
+      this._client.cache,
+    );
+    this._removedUsers = new Set();
+
     this._update(data);
   }
 
@@ -216,11 +238,6 @@ export class Reaction {
     if ("me" in data) this.me = data.me;
     if ("emoji" in data) this.emoji = new Emoji(data.emoji);
     if ("count" in data) this.count = data.count;
-    if ("users" in data)
-      this.users = new UserDataManager(
-        this._client.cache._cacheLimit("users"),
-        this._client.cache,
-      );
     if ("burst_colors" in data) this.burstColors = data.burst_colors;
     if ("count_details" in data) this.countDetails = data.count_details;
     if ("channel_id" in data) this.channelId = data.channel_id;
@@ -262,4 +279,143 @@ export class Reaction {
 
     return this._update(updated ?? {});
   }
+
+  /**
+   * Key of this reaction in the reactions of message
+   */
+  get key() {
+    return this.emoji.id ?? this.emoji.name!;
+  }
+
+  _getIds() {
+    if (!this.channelId || !this.messageId) {
+      throw new Error(
+        "Channel id and message id must be provided to update this reaction",
+      );
+    }
+
+    return [this.channelId, this.messageId] as const;
+  }
+
+  /**
+   * Iterate the users that reacted with this emoji, requesting pages as needed
+   * @param options The options, all users are iterated if no limit is given
+   * @example
+   * for await (const user of reaction.iterateUsers()) {
+   *   console.log(user.username);
+   * }
+   */
+  async *iterateUsers(options: FetchReactionUsersOptions = {}) {
+    const [channelId, messageId] = this._getIds();
+    const pages = paginate({
+      fetch: (after, limit) =>
+        this._client.rest.getReactions(
+          channelId,
+          messageId,
+          this.emoji.uriComponent,
+          { after, limit },
+        ),
+      next: snowflakeCursor("after", (user: APIUser) => user.id),
+      cursor: options.after,
+      limit: options.limit,
+      pageSize: 100,
+    });
+
+    for await (const data of pages) {
+      const user = this._client.users.add(data)!;
+
+      this.users.add(user);
+      yield user;
+    }
+  }
+
+  /**
+   * Fetch the users that reacted with this emoji
+   * @param options The options, a limit above 100 fetches multiple pages
+   * @returns The users
+   */
+  async fetchUsers(options: FetchReactionUsersOptions = {}) {
+    const users: User[] = [];
+
+    for await (const user of this.iterateUsers({
+      ...options,
+      limit: options.limit ?? 100,
+    })) {
+      users.push(user);
+    }
+
+    return users;
+  }
+
+  /**
+   * Count the removal of the reaction of a user
+   * @param userId Id of the user
+   * @param burst If the removed reaction is a super reaction
+   * @returns If the removal was not counted before
+   */
+  _removeUser(userId: string, burst = false) {
+    const own = userId === this._client.user?.id;
+
+    if (own ? !this.me : this._removedUsers.delete(userId)) return false;
+
+    if (own) this.me = false;
+    else this._removedUsers.add(userId);
+
+    this.users.cache.delete(userId);
+    this.count--;
+    if (this.countDetails[burst ? "burst" : "normal"] > 0) {
+      this.countDetails[burst ? "burst" : "normal"]--;
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove the reaction of a user with this emoji
+   * @param userId Id of the user, defaults to the client user
+   */
+  async remove(userId = this._client.user!.id) {
+    const [channelId, messageId] = this._getIds();
+
+    if (userId === this._client.user?.id) {
+      await this._client.rest.deleteOwnReaction(
+        channelId,
+        messageId,
+        this.emoji.uriComponent,
+      );
+    } else {
+      await this._client.rest.deleteUserReaction(
+        channelId,
+        messageId,
+        this.emoji.uriComponent,
+        userId,
+      );
+    }
+
+    // The gateway event may have replaced or removed this reaction in the message
+    const reaction = this.message ? this.message.reactions.get(this.key) : this;
+
+    if (reaction?._removeUser(userId) && reaction.count <= 0) {
+      this.message?.reactions.delete(this.key);
+    }
+
+    return this;
+  }
+
+  /**
+   * Remove all reactions with this emoji
+   */
+  async removeAll() {
+    const [channelId, messageId] = this._getIds();
+
+    await this._client.rest.deleteAllReactionsForEmoji(
+      channelId,
+      messageId,
+      this.emoji.uriComponent,
+    );
+
+    this.message?.reactions.delete(this.key);
+
+    return this;
+  }
 }
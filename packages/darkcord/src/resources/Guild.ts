@@ -1,19 +1,29 @@
+import { AutoModerationRuleDataManager } from "@manager/AutoModerationRuleDataManager";
 import { GuildChannelDataManager } from "@manager/ChannelDataManager";
 import { GuildEmojiDataManager } from "@manager/EmojiDataManager";
 import { MemberDataManager } from "@manager/MemberDataManager";
+import { PresenceDataManager } from "@manager/PresenceDataManager";
 import { RoleDataManager } from "@manager/RoleDataManager";
 import { GuildStickerDataManager } from "@manager/StickerDataManager";
 import {
   APIGuildWithShard,
   Base64File,
+  ClientOptions,
+  CreateAutoModerationRuleOptions,
   CreateChannelOptions,
   CreateEmojiOptions,
   DataWithClient,
+  EditAutoModerationRuleOptions,
+  FetchAuditLogOptions,
+  FindAuditLogEntryOptions,
+  IterateAuditLogOptions,
+  IterateBansOptions,
   KeysToCamelCase,
 } from "@typings/index";
+import { paginate, snowflakeCursor } from "@utils/Paginator";
 import { Resolvable } from "@utils/Resolvable";
 import {
-  APIAutoModerationRuleTriggerMetadata,
+  APIBan,
   APIGuild,
   APIGuildScheduledEvent,
   APIGuildScheduledEventEntityMetadata,
@@ -23,7 +33,6 @@ import {
   APIStageInstance,
   APIUser,
   CDNRoutes,
-  GatewayPresenceUpdate,
   GuildBannerFormat,
   GuildDefaultMessageNotifications,
   GuildExplicitContentFilter,
@@ -41,14 +50,12 @@ import {
   ImageFormat,
   RESTGetAPIGuildBansQuery,
   RESTPatchAPIApplicationCommandJSONBody,
-  RESTPatchAPIAutoModerationRuleJSONBody,
   RESTPatchAPICurrentGuildMemberJSONBody,
   RESTPatchAPIGuildEmojiJSONBody,
   RESTPatchAPIGuildJSONBody,
   RESTPatchAPIGuildMemberJSONBody,
   RESTPatchAPIGuildRoleJSONBody,
   RESTPostAPIApplicationCommandsJSONBody,
-  RESTPostAPIAutoModerationRuleJSONBody,
   RESTPostAPIGuildPruneJSONBody,
   RESTPostAPIGuildRoleJSONBody,
   RESTPostAPIGuildScheduledEventJSONBody,
@@ -58,13 +65,13 @@ import {
 } from "discord-api-types/v10";
 
 import { Base } from "./Base";
-import { Channel, WelcomeChannel } from "./Channel";
+import { Channel, GuildChannel, WelcomeChannel } from "./Channel";
 import { Invite } from "./Invite";
 import { Member } from "./Member";
-import { Permissions } from "./Permission";
+import { MissingPermissionsError, Permissions } from "./Permission";
 import { User } from "./User";
 import { VoiceState } from "./VoiceState";
-import { AuditLog } from "./AuditLog";
+import { AuditLog, AuditLogEntry } from "./AuditLog";
 import { Integration } from "./Integration";
 
 export class BaseGuild extends Base {
@@ -344,6 +351,10 @@ export class Guild extends BaseGuild {
    * Members of guild
    */
   members: MemberDataManager;
+  /**
+   * Auto moderation rules of this guild
+   */
+  autoModerationRules: AutoModerationRuleDataManager;
   /**
    * Guild NSFW level
    */
@@ -353,9 +364,9 @@ export class Guild extends BaseGuild {
    */
   premiumSubscriptionCount: number;
   /**
-   * Guild presences
+   * Guild presences, keyed by user id
    */
-  presences: GatewayPresenceUpdate[];
+  presences: PresenceDataManager;
   /**
    * Guild shard id
    */
@@ -395,6 +406,63 @@ export class Guild extends BaseGuild {
     return this.members.cache.get(this._client.user!.id)!;
   }
 
+  /**
+   * Check if the client member can execute an action before sending the request,
+   * does nothing if checkPermissions option is disabled, the client member or the parent of thread is not cached
+   * @param permissions The permissions required by the action
+   * @param options The channel where the action is executed and the member or role affected by it
+   */
+  _checkPermissions(
+    permissions: bigint,
+    options: {
+      channel?: GuildChannel;
+      memberId?: string;
+      roleId?: string;
+    } = {},
+  ) {
+    if (!(this._client.options as ClientOptions).checkPermissions) return;
+
+    const clientMember = this._client.user && this.clientMember;
+    if (!clientMember) return;
+
+    // Permissions of threads are inherited from the parent channel
+    if (options.channel?.isThread() && !options.channel.parent) return;
+
+    const computed = options.channel
+      ? options.channel.permissionsFor(clientMember)
+      : this.permissionsOf(clientMember);
+    const missing = permissions & ~computed.allow;
+
+    if (missing) {
+      throw MissingPermissionsError(new Permissions(missing).toArray());
+    }
+
+    if (clientMember.id === this.ownerId) return;
+
+    const member = options.memberId && this.members.cache.get(options.memberId);
+
+    if (member && !member.manageable) {
+      throw MissingPermissionsError(
+        new Permissions(permissions).toArray(),
+        `Client member cannot manage member ${member.id} due to role hierarchy`,
+      );
+    }
+
+    if (
+      options.roleId &&
+      this.roles.cache.has(options.roleId) &&
+      this.roles.comparePositions(
+        clientMember.roles.highest.id,
+        options.roleId,
+      ) <= 0
+    ) {
+      throw MissingPermissionsError(
+        new Permissions(permissions).toArray(),
+        `Client member cannot manage role ${options.roleId} due to role hierarchy`,
+      );
+    }
+  }
+
   /**
    * Returns a ban object for the given user
    * @param userId
@@ -408,17 +476,40 @@ export class Guild extends BaseGuild {
     return this._client.rest.getGuildBans(this.id, options);
   }
 
+  /**
+   * Iterate the bans of this guild, requesting pages as needed
+   * @param options The options, bans are iterated after the given user id unless only before is given
+   * @example
+   * for await (const ban of guild.iterateBans()) {
+   *   console.log(ban.user.id, ban.reason);
+   * }
+   */
+  iterateBans(options: IterateBansOptions = {}) {
+    const direction = options.before && !options.after ? "before" : "after";
+
+    return paginate({
+      fetch: (cursor, limit) =>
+        this._client.rest.getGuildBans(this.id, { [direction]: cursor, limit }),
+      next: snowflakeCursor(direction, (ban: APIBan) => ban.user.id),
+      cursor: options.after ?? options.before,
+      limit: options.limit,
+      pageSize: 1000,
+    });
+  }
+
   /**
    * Create a guild ban, and optionally delete previous messages sent by the banned user.
    * @param userId
    * @param reason
    * @returns
    */
-  createMemberBan(
+  async createMemberBan(
     userId: string,
     options: KeysToCamelCase<RESTPutAPIGuildBanJSONBody> = {},
     reason?: string,
   ) {
+    this._checkPermissions(Permissions.Flags.BanMembers, { memberId: userId });
+
     if (
       options.deleteMessageDays &&
       !Number.isNaN(options.deleteMessageDays) &&
@@ -441,7 +532,9 @@ export class Guild extends BaseGuild {
    * @param reason Reason to remove ban
    * @returns
    */
-  removeMemberBan(userId: string, reason?: string) {
+  async removeMemberBan(userId: string, reason?: string) {
+    this._checkPermissions(Permissions.Flags.BanMembers);
+
     return this._client.rest.removeGuildBan(this.id, userId, reason);
   }
 
@@ -457,6 +550,8 @@ export class Guild extends BaseGuild {
       throw new TypeError("Invalid position");
     }
 
+    this._checkPermissions(Permissions.Flags.ManageRoles, { roleId });
+
     const roles = await this._client.rest.modifyRolePosition(
       this.id,
       roleId,
@@ -480,6 +575,8 @@ export class Guild extends BaseGuild {
     options: KeysToCamelCase<RESTPatchAPIGuildRoleJSONBody>,
     reason?: string,
   ) {
+    this._checkPermissions(Permissions.Flags.ManageRoles, { roleId });
+
     const role = await this._client.rest.modifyGuildRole(
       this.id,
       roleId,
@@ -513,6 +610,8 @@ export class Guild extends BaseGuild {
     > & { permissions: Permissions | bigint },
     reason?: string,
   ) {
+    this._checkPermissions(Permissions.Flags.ManageRoles);
+
     const opts: RESTPostAPIGuildRoleJSONBody = {};
 
     opts.color = options.color;
@@ -539,7 +638,9 @@ export class Guild extends BaseGuild {
    * @param reason Reason to delete role
    * @returns
    */
-  deleteRole(id: string, reason?: string) {
+  async deleteRole(id: string, reason?: string) {
+    this._checkPermissions(Permissions.Flags.ManageRoles, { roleId: id });
+
     return this._client.rest.deleteGuildRole(this.id, id, reason);
   }
 
@@ -549,10 +650,12 @@ export class Guild extends BaseGuild {
    * @param reason Reason to prune members
    * @returns
    */
-  pruneMembers(
+  async pruneMembers(
     options: KeysToCamelCase<RESTPostAPIGuildPruneJSONBody>,
     reason?: string,
   ) {
+    this._checkPermissions(Permissions.Flags.KickMembers);
+
     return this._client.rest.beginGuildPrune(
       this.id,
       {
@@ -570,7 +673,9 @@ export class Guild extends BaseGuild {
    * @param reason Reason to remove member
    * @returns
    */
-  removeMember(userId: string, reason?: string) {
+  async removeMember(userId: string, reason?: string) {
+    this._checkPermissions(Permissions.Flags.KickMembers, { memberId: userId });
+
     return this._client.rest.removeGuildMember(this.id, userId, reason);
   }
 
@@ -581,7 +686,9 @@ export class Guild extends BaseGuild {
    * @param reason Reason to add role
    * @returns
    */
-  addMemberRole(userId: string, roleId: string, reason?: string) {
+  async addMemberRole(userId: string, roleId: string, reason?: string) {
+    this._checkPermissions(Permissions.Flags.ManageRoles, { roleId });
+
     return this._client.rest.addGuildMemberRole(
       this.id,
       userId,
@@ -597,7 +704,9 @@ export class Guild extends BaseGuild {
    * @param reason The reason to remove role
    * @returns
    */
-  removeMemberRole(userId: string, roleId: string, reason?: string) {
+  async removeMemberRole(userId: string, roleId: string, reason?: string) {
+    this._checkPermissions(Permissions.Flags.ManageRoles, { roleId });
+
     return this._client.rest.removeGuildMemberRole(
       this.id,
       userId,
@@ -634,7 +743,36 @@ export class Guild extends BaseGuild {
   ): Promise<Member> {
     const opts: RESTPatchAPIGuildMemberJSONBody = {};
 
-    if (userId !== "@me") {
+    if (userId === "@me") {
+      if (options.nick !== undefined) {
+        this._checkPermissions(Permissions.Flags.ChangeNickname);
+      }
+    } else {
+      let permissions = 0n;
+
+      if (options.nick !== undefined)
+        permissions |= Permissions.Flags.ManageNicknames;
+      if (options.roles !== undefined)
+        permissions |= Permissions.Flags.ManageRoles;
+      if (options.mute !== undefined)
+        permissions |= Permissions.Flags.MuteMembers;
+      if (options.deaf !== undefined)
+        permissions |= Permissions.Flags.DeafenMembers;
+      if (options.channelId !== undefined)
+        permissions |= Permissions.Flags.MoveMembers;
+      if (options.communicationDisabledUntil !== undefined)
+        permissions |= Permissions.Flags.ModerateMembers;
+
+      // Voice actions do not depend on role hierarchy
+      const hierarchy =
+        options.nick !== undefined ||
+        options.roles !== undefined ||
+        options.communicationDisabledUntil !== undefined;
+
+      this._checkPermissions(permissions, {
+        memberId: hierarchy ? userId : undefined,
+      });
+
       opts.channel_id = options.channelId;
       opts.communication_disabled_until = options.communicationDisabledUntil;
       opts.deaf = options.deaf;
@@ -654,11 +792,86 @@ export class Guild extends BaseGuild {
     return this.members.add(new Member(member, this));
   }
 
-  async getAuditLogs() {
-    const data = await this._client.rest.getGuildAuditLog(this.id);
+  /**
+   * Get the audit log of this guild
+   * @param options The options to filter the entries
+   */
+  async getAuditLogs(options: FetchAuditLogOptions = {}) {
+    const data = await this._client.rest.getGuildAuditLog(this.id, {
+      before: options.before,
+      after: options.after,
+      user_id: options.userId,
+      action_type: options.actionType,
+      limit: options.limit,
+    });
+
     return new AuditLog({ ...data, client: this._client, guild: this });
   }
 
+  /**
+   * Iterate the audit log entries of this guild, requesting pages as needed
+   * @param options The options, entries are iterated newest first unless after is given
+   * @example
+   * for await (const entry of guild.iterateAuditLog({ userId, limit: 500 })) {
+   *   console.log(entry.actionType, entry.target);
+   * }
+   */
+  iterateAuditLog(options: IterateAuditLogOptions = {}) {
+    const direction = options.after ? "after" : "before";
+
+    return paginate({
+      fetch: async (cursor, limit) => {
+        const log = await this.getAuditLogs({
+          userId: options.userId,
+          actionType: options.actionType,
+          [direction]: cursor,
+          limit,
+        });
+
+        return log.auditLogEntries;
+      },
+      next: snowflakeCursor(direction, (entry: AuditLogEntry) => entry.id),
+      cursor: options.after ?? options.before,
+      limit: options.limit,
+      pageSize: 100,
+    });
+  }
+
+  /**
+   * Find the most recent audit log entry matching the options
+   *
+   * Entries of some actions are grouped, e.g. multiple messages of the same author deleted
+   * by a user in a short time only increase the count of one MessageDelete entry
+   * @param options The options to find the entry
+   * @example
+   * // Who deleted this message
+   * const entry = await guild.findAuditLogEntry({
+   *   actionType: AuditLogEvent.MessageDelete,
+   *   targetId: message.author.id,
+   *   channelId: message.channelId,
+   * });
+   *
+   * console.log(entry?.executor ?? message.author);
+   */
+  async findAuditLogEntry(options: FindAuditLogEntryOptions = {}) {
+    const maxAge = options.maxAge ?? 300_000;
+
+    for await (const entry of this.iterateAuditLog({
+      userId: options.userId,
+      actionType: options.actionType,
+      limit: options.limit ?? 100,
+    })) {
+      if (Date.now() - entry.createdAt > maxAge) break;
+      if (options.targetId && entry.targetId !== options.targetId) continue;
+      if (options.channelId && entry.options?.channelId !== options.channelId)
+        continue;
+
+      return entry;
+    }
+
+    return null;
+  }
+
   getInvites() {
     return this._client.rest.getGuildInvites(this.id);
   }
@@ -701,16 +914,17 @@ export class Guild extends BaseGuild {
     );
   }
 
-  createAutoModerationRule(
-    options: Omit<
-      KeysToCamelCase<RESTPostAPIAutoModerationRuleJSONBody>,
-      "triggerMetadata"
-    > & {
-      triggerMetadata?: KeysToCamelCase<APIAutoModerationRuleTriggerMetadata>;
-    },
+  /**
+   * Create a auto moderation rule in this guild
+   * @param options The options to create the rule
+   * @param reason The reason for creating the rule
+   * @returns The created rule
+   */
+  async createAutoModerationRule(
+    options: CreateAutoModerationRuleOptions,
     reason?: string,
   ) {
-    return this._client.rest.createGuildAutoModerationRule(
+    const rule = await this._client.rest.createGuildAutoModerationRule(
       this.id,
       {
         actions: options.actions,
@@ -730,27 +944,41 @@ export class Guild extends BaseGuild {
       },
       reason,
     );
+
+    return this.autoModerationRules.add(rule);
   }
 
-  deleteAutoModerationRule(autoModerationRuleId: string, reason?: string) {
-    return this._client.rest.deleteGuildAutoModerationRule(
+  /**
+   * Delete a auto moderation rule of this guild
+   * @param autoModerationRuleId The rule id
+   * @param reason The reason for deleting the rule
+   */
+  async deleteAutoModerationRule(
+    autoModerationRuleId: string,
+    reason?: string,
+  ) {
+    await this._client.rest.deleteGuildAutoModerationRule(
       this.id,
       autoModerationRuleId,
       reason,
     );
+
+    this.autoModerationRules.cache.delete(autoModerationRuleId);
   }
 
-  editAutoModerationRule(
+  /**
+   * Edit a auto moderation rule of this guild
+   * @param autoModerationRuleId The rule id
+   * @param options The options to edit the rule
+   * @param reason The reason for editing the rule
+   * @returns The edited rule
+   */
+  async editAutoModerationRule(
     autoModerationRuleId: string,
-    options: Omit<
-      KeysToCamelCase<RESTPatchAPIAutoModerationRuleJSONBody>,
-      "triggerMetadata"
-    > & {
-      triggerMetadata?: KeysToCamelCase<APIAutoModerationRuleTriggerMetadata>;
-    },
+    options: EditAutoModerationRuleOptions,
     reason?: string,
   ) {
-    return this._client.rest.modifyGuildModerationRule(
+    const rule = await this._client.rest.modifyGuildModerationRule(
       this.id,
       autoModerationRuleId,
       {
@@ -770,6 +998,12 @@ export class Guild extends BaseGuild {
       },
       reason,
     );
+
+    const existing = this.autoModerationRules.cache.get(rule.id);
+
+    return existing
+      ? existing._update(rule)
+      : this.autoModerationRules.add(rule);
   }
 
   /**
@@ -779,6 +1013,8 @@ export class Guild extends BaseGuild {
    * @returns
    */
   async createChannel(options: CreateChannelOptions, reason?: string) {
+    this._checkPermissions(Permissions.Flags.ManageChannels);
+
     const opts = {
       position: options.position,
       name: options.name,
@@ -818,12 +1054,18 @@ export class Guild extends BaseGuild {
    * @param reason Reason to delete channel
    * @returns
    */
-  deleteChannel(id: string, reason?: string) {
+  async deleteChannel(id: string, reason?: string) {
+    const channel = this.channels.cache.get(id);
+
+    this._checkPermissions(Permissions.Flags.ManageChannels, {
+      channel: channel?.isGuildChannel() ? channel : undefined,
+    });
+
     return this._client.rest.deleteChannel(id, reason);
   }
 
   /**
-   * Get permissions of user
+   * Get permissions of user in guild, for permissions in a channel use GuildChannel.permissionsFor
    * @param userId user id to get permissions
    * @returns
    */
@@ -1092,6 +1334,43 @@ export class Guild extends BaseGuild {
       this._client.cache,
       this,
     );
+    this.autoModerationRules ??= new AutoModerationRuleDataManager(
+      this._client.cache._cacheLimit("autoModerationRules"),
+      this._client.cache,
+      this,
+    );
+    this.presences ??= new PresenceDataManager(
+      this._client.cache._cacheLimit("presences"),
+      this._client.cache,
+      this,
+    );
+
+    if (!this.members.cache.adapter) {
+      const namespace = `guilds:${this.id}`;
+
+      this._client.cache._bindAdapter(
+        this.channels.cache,
+        `${namespace}:channels`,
+      );
+      this._client.cache._bindAdapter(this.roles.cache, `${namespace}:roles`);
+      this._client.cache._bindAdapter(this.emojis.cache, `${namespace}:emojis`);
+      this._client.cache._bindAdapter(
+        this.stickers.cache,
+        `${namespace}:stickers`,
+      );
+      this._client.cache._bindAdapter(
+        this.members.cache,
+        `${namespace}:members`,
+      );
+      this._client.cache._bindAdapter(
+        this.autoModerationRules.cache,
+        `${namespace}:autoModerationRules`,
+      );
+      this._client.cache._bindAdapter(
+        this.presences.cache,
+        `${namespace}:presences`,
+      );
+    }
 
     if ("roles" in data && Array.isArray(data.roles)) {
       for (const role of data.roles) {
@@ -34,6 +34,8 @@ import {
 } from "discord-api-types/v10";
 
 import { InteractionResponse } from "@darkcord/interactions";
+import { ModalBuilder } from "@utils/ComponentBuilder";
+import { InteractionTimeouts } from "@utils/Constants";
 import { Resolvable } from "@utils/Resolvable";
 import { MakeError, transformMessagePostData } from "@utils/index";
 import { Base } from "./Base";
@@ -44,6 +46,76 @@ import { APIMessage, Message } from "./Message";
 import { Role } from "./Role";
 import { User } from "./User";
 
+export const InteractionAlreadyAcknowledgedError = (interactionId: string) =>
+  MakeError({
+    name: "InteractionAlreadyAcknowledged",
+    message: `Interaction ${interactionId} is already acknowledged, use editOriginalReply or createFollowUp to send more messages`,
+    args: [["interactionId", interactionId]],
+  });
+
+export const InteractionNoAcknowledgedError = (interactionId: string) =>
+  MakeError({
+    name: "InteractionNoAcknowledged",
+    message: "Acknowledge the interaction first",
+    args: [["interactionId", interactionId]],
+  });
+
+export const InteractionResponseTimeoutError = (interactionId: string) =>
+  MakeError({
+    name: "InteractionResponseTimeout",
+    message: `Interaction ${interactionId} was not acknowledged within 3 seconds, defer it or enable autoDefer`,
+    args: [["interactionId", interactionId]],
+  });
+
+export const InteractionExpiredError = (interactionId: string) =>
+  MakeError({
+    name: "InteractionExpired",
+    message: `The token of interaction ${interactionId} expired, tokens are valid for 15 minutes`,
+    args: [["interactionId", interactionId]],
+  });
+
+/**
+ * Send the initial response of an interaction
+ * @param interaction The interaction to respond
+ * @param data The response data
+ * @param type The response type
+ */
+async function sendInitialResponse(
+  interaction: ReplyableInteraction | AutocompleteInteraction,
+  data: Parameters<InteractionResponse["send"]>[0],
+  type: InteractionResponseType,
+) {
+  if (interaction.acknowledged) {
+    throw InteractionAlreadyAcknowledgedError(interaction.id);
+  }
+
+  if (
+    Date.now() - interaction.receivedAt >
+    InteractionTimeouts.InitialResponse
+  ) {
+    throw InteractionResponseTimeoutError(interaction.id);
+  }
+
+  // Acknowledged before sending, so concurrent responses throw
+  interaction.acknowledged = true;
+
+  try {
+    if (interaction.isHTTP) {
+      await interaction._http?.send(data, type);
+    } else {
+      await interaction._client.rest.respondInteraction(
+        interaction.id,
+        interaction.token,
+        data,
+        type,
+      );
+    }
+  } catch (err) {
+    interaction.acknowledged = false;
+    throw err;
+  }
+}
+
 export class Interaction<HttpPartial extends boolean = false> extends Base {
   /**
    * Id of the application this interaction is for
@@ -57,6 +129,10 @@ export class Interaction<HttpPartial extends boolean = false> extends Base {
    * Continuation token for responding to the interaction
    */
   token: string;
+  /**
+   * Unix timestamp of when this interaction was received
+   */
+  receivedAt: number;
   /**
    * Read-only property, always 1
    */
@@ -96,6 +172,7 @@ export class Interaction<HttpPartial extends boolean = false> extends Base {
     this.applicationId = data.application_id;
     this.type = data.type;
     this.token = data.token;
+    this.receivedAt = Date.now();
     this.version = data.version;
     this.guildId = data.guild_id;
     this.guild = data.client.guilds.cache.get(data.guild_id!);
@@ -160,6 +237,26 @@ export class Interaction<HttpPartial extends boolean = false> extends Base {
     return this instanceof ModalSubmitInteraction;
   }
 
+  /**
+   * Unix timestamp of when the token of this interaction expires
+   */
+  get expiresAt() {
+    return this.receivedAt + InteractionTimeouts.Token;
+  }
+
+  /**
+   * The token of this interaction expired, it can no longer be used
+   */
+  get expired() {
+    return Date.now() >= this.expiresAt;
+  }
+
+  _assertNotExpired() {
+    if (this.expired) {
+      throw InteractionExpiredError(this.id);
+    }
+  }
+
   toJSON() {
     return Base.toJSON(this as Interaction, [
       "applicationId",
@@ -184,6 +281,20 @@ export class ReplyableInteraction extends Interaction {
    * The interaction is acknowledged
    */
   acknowledged: boolean;
+  /**
+   * The interaction is deferred
+   */
+  deferred: boolean;
+  /**
+   * The interaction was deferred by autoDefer, the next reply edits the deferred response
+   * or is sent as followup of a deferred update
+   */
+  autoDeferred: boolean;
+  _autoDeferTimeout?: NodeJS.Timeout;
+  /**
+   * The automatic defer, resolves with the type of deferred response
+   */
+  _autoDefer?: Promise<InteractionResponseType>;
   declare channel:
     | Channel
     | (Partial<APIChannel> & Pick<APIChannel, "type" | "id">);
@@ -196,40 +307,55 @@ export class ReplyableInteraction extends Interaction {
     this._http = httpResponse;
     this.isHTTP = Boolean(httpResponse);
     this.acknowledged = false;
+    this.deferred = false;
+    this.autoDeferred = false;
   }
 
   /**
    * Respond to this interaction with defer
    */
   async defer(flags?: InteractionFlags) {
-    if (this.acknowledged) {
-      throw MakeError({
-        name: "InteractionAlreadyAcknowledged",
-        message: "You have already acknowledged this interaction.",
-      });
-    }
+    await sendInitialResponse(
+      this,
+      {
+        flags: (flags as MessageFlags) || 0,
+      },
+      InteractionResponseType.DeferredChannelMessageWithSource,
+    );
 
-    if (this.isHTTP) {
-      await this._http?.send(
-        {
-          flags: (flags as MessageFlags) || 0,
-        },
-        InteractionResponseType.DeferredChannelMessageWithSource,
-      );
+    this.deferred = true;
+  }
 
-      this.acknowledged = true;
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        {
-          flags: (flags as MessageFlags) || 0,
-        },
-        InteractionResponseType.DeferredChannelMessageWithSource,
-      );
+  /**
+   * Send the deferred response of autoDefer
+   * @param flags The flags of the deferred response
+   * @returns The type of deferred response
+   */
+  async _sendAutoDefer(flags?: InteractionFlags) {
+    await this.defer(flags);
+    return InteractionResponseType.DeferredChannelMessageWithSource;
+  }
 
-      this.acknowledged = true;
-    }
+  /**
+   * Defer this interaction if it is not acknowledged in time
+   * @param after Milliseconds after receiving the interaction to defer it
+   * @param flags The flags of the deferred response
+   */
+  _startAutoDefer(after: number, flags?: InteractionFlags) {
+    this._autoDeferTimeout = setTimeout(() => {
+      if (this.acknowledged) return;
+
+      this.autoDeferred = true;
+      this._autoDefer = this._sendAutoDefer(flags).catch((err) => {
+        this.autoDeferred = false;
+        throw err;
+      });
+
+      // The error is thrown by the next reply
+      this._autoDefer.catch(() => null);
+    }, Math.max(after - (Date.now() - this.receivedAt), 0));
+
+    this._autoDeferTimeout.unref?.();
   }
 
   /**
@@ -239,12 +365,11 @@ export class ReplyableInteraction extends Interaction {
    */
   deleteReply(messageId: string) {
     if (!this.acknowledged) {
-      throw MakeError({
-        name: "InteractionNoAcknowledged",
-        message: "Acknowledge the interaction first",
-      });
+      throw InteractionNoAcknowledgedError(this.id);
     }
 
+    this._assertNotExpired();
+
     return this._client.rest.deleteWebhookMessage(
       this.applicationId,
       this.token,
@@ -265,30 +390,27 @@ export class ReplyableInteraction extends Interaction {
    * @param content The content of response
    */
   async reply(content: MessagePostData | string) {
-    if (this.acknowledged) {
-      throw MakeError({
-        name: "InteractionAlreadyAcknowledged",
-        message: "You have already acknowledged this interaction.",
-      });
-    }
-
     content = transformMessagePostData(content);
 
-    if (this.isHTTP) {
-      await this._http?.send(
-        content,
-        InteractionResponseType.ChannelMessageWithSource,
-      );
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        content,
-        InteractionResponseType.ChannelMessageWithSource,
-      );
+    // Only the first reply after an automatic defer edits the deferred response
+    const autoDefer = this._autoDefer;
+    if (autoDefer) {
+      this._autoDefer = undefined;
+
+      // A deferred update has no reply to edit
+      if ((await autoDefer) === InteractionResponseType.DeferredMessageUpdate) {
+        await this.createFollowUp(content);
+      } else {
+        await this.editOriginalReply(content);
+      }
+      return;
     }
 
-    this.acknowledged = true;
+    await sendInitialResponse(
+      this,
+      content,
+      InteractionResponseType.ChannelMessageWithSource,
+    );
   }
 
   /**
@@ -297,6 +419,8 @@ export class ReplyableInteraction extends Interaction {
    * @param content
    */
   async editReply(messageId: string, content: MessagePostData | string) {
+    this._assertNotExpired();
+
     await this._client.rest.editWebhookMessage(
       this.applicationId,
       this.token,
@@ -321,12 +445,11 @@ export class ReplyableInteraction extends Interaction {
    */
   createFollowUp(content: MessagePostData) {
     if (!this.acknowledged) {
-      throw MakeError({
-        name: "InteractionNoAcknowledged",
-        message: "Acknowledge the interaction first",
-      });
+      throw InteractionNoAcknowledgedError(this.id);
     }
 
+    this._assertNotExpired();
+
     return this._client.rest.executeWebhook(
       this.applicationId,
       this.token,
@@ -340,6 +463,8 @@ export class ReplyableInteraction extends Interaction {
    * @returns
    */
   deleteFollowUp(messageId: string) {
+    this._assertNotExpired();
+
     return this._client.rest.deleteWebhookMessage(
       this.applicationId,
       this.token,
@@ -354,6 +479,8 @@ export class ReplyableInteraction extends Interaction {
    * @returns
    */
   async editFollowUp(messageId: string, content: MessagePostData) {
+    this._assertNotExpired();
+
     const data = (await this._client.rest.editWebhookMessage(
       this.applicationId,
       this.token,
@@ -383,6 +510,8 @@ export class ReplyableInteraction extends Interaction {
    * @returns
    */
   async getFollowUp(messageId: string) {
+    this._assertNotExpired();
+
     const data = (await this._client.rest.getWebhookMessage(
       this.applicationId,
       this.token,
@@ -403,12 +532,11 @@ export class ReplyableInteraction extends Interaction {
    */
   async getOriginalReply() {
     if (!this.acknowledged) {
-      throw MakeError({
-        name: "InteractionNoAcknowledged",
-        message: "Acknowledge the interaction first",
-      });
+      throw InteractionNoAcknowledgedError(this.id);
     }
 
+    this._assertNotExpired();
+
     const rawMessage = (await this._client.rest.getWebhookMessage(
       this.applicationId,
       this.token,
@@ -649,23 +777,19 @@ export class ComponentInteraction extends ReplyableInteraction {
   }
 
   async deferUpdate() {
-    if (this.acknowledged) {
-      throw MakeError({
-        name: "InteractionAlreadyAcknowledged",
-        message: "You have already acknowledged this interaction.",
-      });
-    }
+    await sendInitialResponse(
+      this,
+      {},
+      InteractionResponseType.DeferredMessageUpdate,
+    );
 
-    if (this.isHTTP) {
-      await this._http?.send({}, InteractionResponseType.DeferredMessageUpdate);
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        {},
-        InteractionResponseType.DeferredMessageUpdate,
-      );
-    }
+    this.deferred = true;
+  }
+
+  // Components are deferred without showing a loading reply
+  async _sendAutoDefer() {
+    await this.deferUpdate();
+    return InteractionResponseType.DeferredMessageUpdate;
   }
 
   async editParent(content: MessagePostData) {
@@ -675,16 +799,22 @@ export class ComponentInteraction extends ReplyableInteraction {
       return this.editOriginalReply(content);
     }
 
-    if (this.isHTTP) {
-      await this._http?.send(content, InteractionResponseType.UpdateMessage);
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        content,
-        InteractionResponseType.UpdateMessage,
-      );
-    }
+    await sendInitialResponse(
+      this,
+      content,
+      InteractionResponseType.UpdateMessage,
+    );
+  }
+
+  /**
+   * Create a modal
+   */
+  async createModal(
+    modal: APIModalInteractionResponseCallbackData | ModalBuilder,
+  ) {
+    const data = modal instanceof ModalBuilder ? modal.toJSON() : modal;
+
+    await sendInitialResponse(this, data, InteractionResponseType.Modal);
   }
 
   toJSON() {
@@ -746,24 +876,36 @@ export class ModalSubmitInteraction extends ReplyableInteraction {
     this.components = data.data.components;
   }
 
-  async deferUpdate() {
-    if (this.acknowledged) {
-      throw MakeError({
-        name: "InteractionAlreadyAcknowledged",
-        message: "You have already acknowledged this interaction.",
-      });
+  /**
+   * Get the value submitted in a text input
+   * @param customId The custom id of text input
+   */
+  getTextInputValue(customId: string) {
+    for (const row of this.components) {
+      for (const component of row.components) {
+        if (component.custom_id === customId) return component.value;
+      }
     }
 
-    if (this.isHTTP) {
-      await this._http?.send({}, InteractionResponseType.DeferredMessageUpdate);
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        {},
-        InteractionResponseType.DeferredMessageUpdate,
-      );
-    }
+    return null;
+  }
+
+  async deferUpdate() {
+    await sendInitialResponse(
+      this,
+      {},
+      InteractionResponseType.DeferredMessageUpdate,
+    );
+
+    this.deferred = true;
+  }
+
+  // Only modals opened from a message component can defer an update
+  async _sendAutoDefer(flags?: InteractionFlags) {
+    if (!this.message) return super._sendAutoDefer(flags);
+
+    await this.deferUpdate();
+    return InteractionResponseType.DeferredMessageUpdate;
   }
 
   async editParent(data: MessagePostData) {
@@ -771,16 +913,11 @@ export class ModalSubmitInteraction extends ReplyableInteraction {
       return this.editOriginalReply(data);
     }
 
-    if (this.isHTTP) {
-      await this._http?.send(data, InteractionResponseType.UpdateMessage);
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        data,
-        InteractionResponseType.UpdateMessage,
-      );
-    }
+    await sendInitialResponse(
+      this,
+      data,
+      InteractionResponseType.UpdateMessage,
+    );
   }
 
   toJSON() {
@@ -815,17 +952,18 @@ export class CommandInteractionOptions {
   ) {
     this.#resolved = resolved;
 
-    if (options[0]?.type === ApplicationCommandOptionType.Subcommand) {
-      this.subCommand = options[0].name;
-      options = options[0].options ?? [];
-    }
-
+    // The options of a group are its subcommands
     if (options[0]?.type === ApplicationCommandOptionType.SubcommandGroup) {
       this.subCommandGroup = options[0].name;
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
       options = options[0].options ?? [];
     }
 
+    if (options[0]?.type === ApplicationCommandOptionType.Subcommand) {
+      this.subCommand = options[0].name;
+      options = options[0].options ?? [];
+    }
+
     this.#options =
       options as APIApplicationCommandInteractionDataBasicOption[];
   }
@@ -998,7 +1136,11 @@ export class AutoCompleteInteractionDataOptions extends CommandInteractionOption
    * @returns
    */
   focusedOption() {
-    return super.toArray()[0];
+    const options = super.toArray();
+    return (
+      options.find((option) => "focused" in option && option.focused) ??
+      options[0]
+    );
   }
 }
 
@@ -1226,28 +1368,12 @@ export class CommandInteraction<
   /**
    * Create a modal
    */
-  async createModal(data: APIModalInteractionResponseCallbackData) {
-    if (this.acknowledged) {
-      throw MakeError({
-        name: "InteractionAlreadyAcknowledged",
-        message: "You have already acknowledged this interaction.",
-      });
-    }
-
-    if (this.isHTTP) {
-      await this._http?.send(data, InteractionResponseType.Modal);
-
-      this.acknowledged = true;
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        data,
-        InteractionResponseType.Modal,
-      );
+  async createModal(
+    modal: APIModalInteractionResponseCallbackData | ModalBuilder,
+  ) {
+    const data = modal instanceof ModalBuilder ? modal.toJSON() : modal;
 
-      this.acknowledged = true;
-    }
+    await sendInitialResponse(this, data, InteractionResponseType.Modal);
   }
 
   isMessageCommand(): this is CommandInteraction<MessageApplicationCommandInteractionData> {
@@ -1321,27 +1447,10 @@ export class AutocompleteInteraction extends Interaction {
   }
 
   async result(choices: APIApplicationCommandOptionChoice[]) {
-    if (this.acknowledged) {
-      throw MakeError({
-        name: "InteractionAlreadyAcknowledged",
-        message: "You have already acknowledged this interaction.",
-      });
-    }
-
-    if (this.isHTTP) {
-      await this._http?.send(
-        { choices },
-        InteractionResponseType.ApplicationCommandAutocompleteResult,
-      );
-    } else {
-      await this._client.rest.respondInteraction(
-        this.id,
-        this.token,
-        { choices },
-        InteractionResponseType.ApplicationCommandAutocompleteResult,
-      );
-    }
-
-    this.acknowledged = true;
+    await sendInitialResponse(
+      this,
+      { choices },
+      InteractionResponseType.ApplicationCommandAutocompleteResult,
+    );
   }
 }
@@ -117,7 +117,7 @@ export class Invite {
       }
     }
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
@@ -166,6 +166,13 @@ export class Member extends Base {
     return this.guild.voiceStates.get(this.id);
   }
 
+  /**
+   * The current presence of this member, if cached
+   */
+  get presence() {
+    return this.guild.presences.cache.get(this.id);
+  }
+
   get manageable() {
     if (this.id === this.guild.ownerId) {
       return false;
@@ -1,4 +1,17 @@
-import { DataWithClient, MessagePostData } from "@typings/index";
+import { APIPoll } from "@darkcord/utils";
+import {
+  AwaitCollectorOptions,
+  AwaitComponentOptions,
+  DataWithClient,
+  InteractionCollectorOptions,
+  MessagePostData,
+  ReactionCollectorOptions,
+} from "@typings/index";
+import {
+  CollectorEndedError,
+  InteractionCollector,
+  ReactionCollector,
+} from "@utils/Collector";
 import { Resolvable } from "@utils/Resolvable";
 import {
   APIAttachment,
@@ -17,6 +30,9 @@ import { APISuperReaction, APIReaction, Emoji, Reaction } from "./Emoji";
 import { Guild } from "./Guild";
 import { User } from "./User";
 import { Member } from "./Member";
+import { Permissions } from "./Permission";
+import { Poll } from "./Poll";
+import type { ComponentInteraction } from "./Interaction";
 
 export class MessageFlags extends BitField<MFlags, typeof MFlags> {
   constructor(flags: MFlags) {
@@ -28,6 +44,7 @@ export class MessageFlags extends BitField<MFlags, typeof MFlags> {
 
 export interface APIMessage extends RawAPIMessage {
   reactions?: (APIReaction | APISuperReaction)[];
+  poll?: APIPoll;
   referenced_message?: APIMessage | null;
 }
 
@@ -52,6 +69,10 @@ export class Message extends Base {
    * Whether this message mentions everyone
    */
   mentionEveryone: boolean;
+  /**
+   * Whether this message is pinned
+   */
+  pinned: boolean;
   /**
    * Any embedded content
    */
@@ -118,6 +139,10 @@ export class Message extends Base {
    * The member of this message (only received in guild)
    */
   member: Member | null;
+  /**
+   * The poll of this message
+   */
+  poll: Poll | null;
   declare rawData: APIMessage;
   constructor(data: DataWithClient<APIMessage>, guild?: Guild) {
     super(data, data.client);
@@ -147,6 +172,7 @@ export class Message extends Base {
     this.guild = guild ?? null;
     this.guildId = guild?.id;
     this.reactions = new DataCache();
+    this.poll = null;
 
     if (this.guild) {
       this.member = this.guild.members.cache.get(this.user?.id) ?? null;
@@ -199,24 +225,77 @@ export class Message extends Base {
       emoji = Emoji.getEncodedURI(emoji);
     }
 
-    let rawReaction = (await this._client.rest.createReaction(
-      this.channelId,
-      this.id,
-      emoji,
-    )) as unknown as APIReaction;
-
-    const reaction = new Reaction({
-      ...rawReaction,
-      client: this._client,
-      message_id: this.id,
-      channel_id: this.channel?.id!,
-    });
+    await this._client.rest.createReaction(this.channelId, this.id, emoji);
+
+    const parsed = Emoji.parse(emoji) ?? {
+      id: null,
+      name: decodeURIComponent(emoji),
+    };
+    const reaction =
+      this.reactions.get(parsed.id ?? parsed.name!) ??
+      new Reaction({
+        client: this._client,
+        emoji: parsed,
+        me: false,
+        count: 0,
+        count_details: { burst: 0, normal: 0 },
+        message_id: this.id,
+        channel_id: this.channelId,
+      });
+
+    // The gateway event of this reaction doesn't increase the count again
+    if (!reaction.me) {
+      reaction.me = true;
+      reaction.count++;
+      reaction.countDetails.normal++;
+    }
+
+    reaction.message = this;
+    reaction.users.add(this._client.user!);
+
+    return this.reactions._add(reaction, true, reaction.key);
+  }
+
+  /**
+   * Remove all reactions of this message
+   */
+  async clearReactions() {
+    if (this.channel?.isGuildChannel()) {
+      this.channel.guild._checkPermissions(Permissions.Flags.ManageMessages, {
+        channel: this.channel,
+      });
+    }
+
+    await this._client.rest.deleteAllReactions(this.channelId, this.id);
+    this.reactions.clear();
 
-    return this.reactions._add(
-      reaction,
-      true,
-      reaction.emoji?.id ?? reaction.emoji?.name!,
-    );
+    return this;
+  }
+
+  /**
+   * Pin this message in the channel
+   * @param reason Reason to pin message
+   */
+  async pin(reason?: string) {
+    await (this.channel
+      ? this.channel.pinMessage(this.id, reason)
+      : this._client.rest.pinMessage(this.channelId, this.id, reason));
+    this.pinned = true;
+
+    return this;
+  }
+
+  /**
+   * Unpin this message in the channel
+   * @param reason Reason to unpin message
+   */
+  async unpin(reason?: string) {
+    await (this.channel
+      ? this.channel.unpinMessage(this.id, reason)
+      : this._client.rest.unpinMessage(this.channelId, this.id, reason));
+    this.pinned = false;
+
+    return this;
   }
 
   /**
@@ -259,10 +338,68 @@ export class Message extends Base {
     return null;
   }
 
+  /**
+   * Create a collector of reactions added in this message
+   * @param options The collector options
+   * @returns
+   */
+  createReactionCollector(options?: ReactionCollectorOptions) {
+    return new ReactionCollector(this, options);
+  }
+
+  /**
+   * Wait reactions be added in this message
+   * @param options The collector options
+   * @returns The collected reactions
+   */
+  awaitReactions(
+    options: AwaitCollectorOptions<[reaction: Reaction, user: User]> = {},
+  ) {
+    return this.createReactionCollector(options).wait(options.errors);
+  }
+
+  /**
+   * Create a collector of interactions with the components of this message
+   * @param options The collector options
+   * @returns
+   */
+  createComponentCollector(
+    options: Omit<InteractionCollectorOptions, "messageId"> = {},
+  ) {
+    return new InteractionCollector<ComponentInteraction>(this._client, {
+      ...options,
+      messageId: this.id,
+    });
+  }
+
+  /**
+   * Wait a interaction with a component of this message
+   * @param options The collector options
+   * @returns The component interaction, rejects if the collector ends without it
+   */
+  async awaitComponent(options: AwaitComponentOptions = {}) {
+    const collector = this.createComponentCollector({
+      ...(options as InteractionCollectorOptions),
+      max: 1,
+    });
+
+    const collected = await collector.wait();
+    const interaction = collected.values().next().value as
+      | ComponentInteraction
+      | undefined;
+
+    if (!interaction) {
+      throw CollectorEndedError(collector.endReason!, collected);
+    }
+
+    return interaction;
+  }
+
   _update(data: APIMessage) {
     if ("content" in data) this.content = data.content;
     if ("mention_everyone" in data)
       this.mentionEveryone = data.mention_everyone;
+    if ("pinned" in data) this.pinned = data.pinned;
     if ("embeds" in data) this.embeds = data.embeds;
     if ("attachments" in data) this.attachments = data.attachments;
     if ("position" in data) this.position = data.position ?? 0;
@@ -271,6 +408,11 @@ export class Message extends Base {
     if ("edited_timestamp" in data && data.edited_timestamp)
       this.editedTimestamp = Date.parse(data.edited_timestamp);
     if ("sticker_items" in data) this.stickerItems = data.sticker_items;
+    if ("poll" in data && data.poll) {
+      this.poll = this.poll
+        ? this.poll._update(data.poll)
+        : new Poll({ ...data.poll, client: this._client }, this);
+    }
 
     this.channel ??= this._client.channels.cache.get(
       data.channel_id,
@@ -278,17 +420,19 @@ export class Message extends Base {
 
     if (Array.isArray(data.reactions)) {
       for (const reaction of data.reactions as APIReaction[]) {
-        const resolved = new Reaction({ ...reaction, client: this._client });
+        const resolved = new Reaction({
+          ...reaction,
+          client: this._client,
+          message_id: data.id,
+          channel_id: data.channel_id,
+        });
+        resolved.message = this;
 
-        this.reactions._add(
-          resolved,
-          true,
-          resolved.emoji.id ?? resolved.emoji.name!,
-        );
+        this.reactions._add(resolved, true, resolved.key);
       }
     }
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
@@ -309,6 +453,8 @@ export class Message extends Base {
       "isResolved",
       "mentionEveryone",
       "nonce",
+      "pinned",
+      "poll",
       "position",
       "rawData",
       "reactions",
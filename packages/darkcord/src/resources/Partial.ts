@@ -0,0 +1,194 @@
+import { DataWithClient } from "@typings/index";
+import { MakeError } from "@utils/index";
+import { Base } from "./Base";
+import { Forge } from "./forge/Forgified";
+import type { Channel } from "./Channel";
+import type { Guild } from "./Guild";
+import type { Member } from "./Member";
+import type { Message } from "./Message";
+
+export const NotTextChannelError = (channelId: string) =>
+  MakeError({
+    name: "NotTextChannel",
+    message: `Channel ${channelId} is not a text based channel`,
+    args: [["channelId", channelId]],
+  });
+
+export interface PartialChannelData {
+  id: string;
+  guild_id?: string;
+}
+
+export interface PartialMessageData {
+  id: string;
+  channel_id: string;
+  guild_id?: string;
+}
+
+export interface PartialMemberData {
+  /**
+   * The user id of this member
+   */
+  id: string;
+  guild_id: string;
+}
+
+/**
+ * A channel which is not cached, only ids sent by Discord are known
+ */
+export class PartialChannel extends Base {
+  readonly partial = true;
+  /**
+   * The id of the guild of this channel
+   */
+  guildId: string | null;
+  declare rawData: PartialChannelData;
+  constructor(data: DataWithClient<PartialChannelData>) {
+    super(data, data.client);
+
+    this.guildId = data.guild_id ?? null;
+  }
+
+  /**
+   * The guild of this channel, if cached
+   */
+  get guild() {
+    return this.guildId ? this._client.guilds.cache.get(this.guildId) : null;
+  }
+
+  /**
+   * Fetch the full channel
+   */
+  fetch(): Promise<Channel> {
+    return this._client.channels.fetch(this.id);
+  }
+
+  toJSON() {
+    return Base.toJSON(this as PartialChannel, [
+      "createdAt",
+      "guildId",
+      "id",
+      "partial",
+    ]);
+  }
+}
+
+/**
+ * A message which is not cached, only ids sent by Discord are known
+ */
+export class PartialMessage extends Base {
+  readonly partial = true;
+  /**
+   * The id of the channel of this message
+   */
+  channelId: string;
+  /**
+   * The id of the guild of this message
+   */
+  guildId: string | null;
+  declare rawData: PartialMessageData;
+  constructor(data: DataWithClient<PartialMessageData>) {
+    super(data, data.client);
+
+    this.channelId = data.channel_id;
+    this.guildId = data.guild_id ?? null;
+  }
+
+  /**
+   * The channel of this message, partial if not cached
+   */
+  get channel(): Channel | PartialChannel {
+    return (
+      this._client.channels.cache.get(this.channelId) ??
+      new Forge(this._client, PartialChannel).forge({
+        id: this.channelId,
+        guild_id: this.guildId ?? undefined,
+        client: this._client,
+      })
+    );
+  }
+
+  /**
+   * The guild of this message, if cached
+   */
+  get guild() {
+    return this.guildId ? this._client.guilds.cache.get(this.guildId) : null;
+  }
+
+  /**
+   * Fetch the full message, the channel is fetched too if not cached
+   */
+  async fetch(): Promise<Message> {
+    let channel = this.channel;
+
+    if (channel instanceof PartialChannel) {
+      channel = await channel.fetch();
+    }
+
+    if (!channel.isText()) {
+      throw NotTextChannelError(channel.id);
+    }
+
+    return channel.messages.fetch(this.id);
+  }
+
+  toJSON() {
+    return Base.toJSON(this as PartialMessage, [
+      "channelId",
+      "createdAt",
+      "guildId",
+      "id",
+      "partial",
+    ]);
+  }
+}
+
+/**
+ * A member which is not cached, only ids sent by Discord are known
+ */
+export class PartialMember extends Base {
+  readonly partial = true;
+  /**
+   * The id of the guild of this member
+   */
+  guildId: string;
+  declare rawData: PartialMemberData;
+  constructor(data: DataWithClient<PartialMemberData>) {
+    super(data, data.client);
+
+    this.guildId = data.guild_id;
+  }
+
+  /**
+   * The user of this member, if cached
+   */
+  get user() {
+    return this._client.users.cache.get(this.id) ?? null;
+  }
+
+  /**
+   * The guild of this member, if cached
+   */
+  get guild() {
+    return this._client.guilds.cache.get(this.guildId) ?? null;
+  }
+
+  /**
+   * Fetch the full member, the guild is fetched too if not cached
+   */
+  async fetch(): Promise<Member> {
+    const guild: Guild =
+      this.guild ?? (await this._client.guilds.fetch(this.guildId));
+
+    return guild.members.fetch(this.id);
+  }
+
+  toJSON() {
+    return Base.toJSON(this as PartialMember, [
+      "createdAt",
+      "guildId",
+      "id",
+      "partial",
+    ]);
+  }
+}
@@ -1,4 +1,5 @@
 import { DataWithClient } from "@typings/index";
+import { MakeError } from "@utils/index";
 import {
   APIOverwrite,
   OverwriteType,
@@ -23,6 +24,16 @@ export class Permissions extends BitField<bigint, typeof PermissionFlagsBits> {
   );
 }
 
+export const MissingPermissionsError = (
+  permissions: string[],
+  message = `Missing permissions ${permissions.join(", ")} in Client`,
+) =>
+  MakeError({
+    name: "MissingPermissions",
+    message,
+    args: [["permissions", permissions]],
+  });
+
 export class PermissionOverwrite extends Base {
   readonly permissions: Readonly<Permissions>;
   type: OverwriteType;
@@ -0,0 +1,231 @@
+import { APIPoll, APIPollAnswer, PollLayoutType } from "@darkcord/utils";
+import {
+  AnyClient,
+  DataWithClient,
+  FetchPollAnswerVotersOptions,
+} from "@typings/index";
+import { Emoji } from "./Emoji";
+import type { APIMessage, Message } from "./Message";
+import { User } from "./User";
+
+export class PollAnswer {
+  /**
+   * Id of the answer, unique in the poll
+   */
+  id: number;
+  /**
+   * The text of the answer
+   */
+  text: string | null;
+  /**
+   * The emoji of the answer
+   */
+  emoji: Emoji | null;
+  /**
+   * Amount of votes for this answer
+   */
+  voteCount: number;
+  /**
+   * Whether the current user voted for this answer
+   */
+  meVoted: boolean;
+  _client: AnyClient;
+  constructor(data: DataWithClient<APIPollAnswer>, public poll: Poll) {
+    Object.defineProperty(this, "_client", { value: data.client });
+
+    this.id = data.answer_id;
+    this.text = data.poll_media.text ?? null;
+    this.emoji = data.poll_media.emoji
+      ? new Emoji(data.poll_media.emoji)
+      : null;
+    this.voteCount = 0;
+    this.meVoted = false;
+  }
+
+  /**
+   * Fetch the users that voted for this answer
+   * @param options The options, a limit above 100 fetches multiple pages
+   * @returns The users
+   */
+  async fetchVoters(options: FetchPollAnswerVotersOptions = {}) {
+    const message = this.poll.message;
+    const users: User[] = [];
+
+    let after = options.after;
+    let remaining = options.limit ?? 100;
+
+    while (remaining > 0) {
+      const limit = Math.min(remaining, 100);
+      const page = await this._client.rest.getAnswerVoters(
+        message.channelId,
+        message.id,
+        this.id,
+        { after, limit },
+      );
+
+      for (const data of page.users) {
+        users.push(this._client.users.add(data)!);
+      }
+
+      if (page.users.length < limit) break;
+
+      after = page.users[page.users.length - 1].id;
+      remaining -= page.users.length;
+    }
+
+    return users;
+  }
+
+  toJSON() {
+    return {
+      id: this.id,
+      text: this.text,
+      emoji: this.emoji?.rawData ?? null,
+      voteCount: this.voteCount,
+      meVoted: this.meVoted,
+    };
+  }
+}
+
+export class Poll {
+  /**
+   * The question of the poll
+   */
+  question: { text: string | null; emoji: Emoji | null };
+  /**
+   * The answers of the poll, keyed by answer id
+   */
+  answers: Map<number, PollAnswer>;
+  /**
+   * When the poll ends
+   */
+  expiresAt: number | null;
+  /**
+   * Whether a user can select multiple answers
+   */
+  allowMultiselect: boolean;
+  layoutType: PollLayoutType;
+  /**
+   * Whether the votes have been precisely counted
+   */
+  isFinalized: boolean;
+  /**
+   * The message of the poll
+   */
+  message: Message;
+  rawData: APIPoll;
+  _client: AnyClient;
+  constructor(data: DataWithClient<APIPoll>, message: Message) {
+    Object.defineProperty(this, "_client", { value: data.client });
+    Object.defineProperty(this, "message", { value: message });
+
+    this.question = {
+      text: data.question.text ?? null,
+      emoji: data.question.emoji ? new Emoji(data.question.emoji) : null,
+    };
+    this.answers = new Map(
+      data.answers.map((answer) => [
+        answer.answer_id,
+        new PollAnswer({ ...answer, client: data.client }, this),
+      ]),
+    );
+    this.isFinalized = false;
+
+    this._update(data);
+  }
+
+  /**
+   * Whether the poll has ended
+   */
+  get ended() {
+    return (
+      this.isFinalized ||
+      (this.expiresAt !== null && this.expiresAt <= Date.now())
+    );
+  }
+
+  /**
+   * Total of votes of all answers
+   */
+  get totalVotes() {
+    let total = 0;
+
+    for (const answer of this.answers.values()) {
+      total += answer.voteCount;
+    }
+
+    return total;
+  }
+
+  _update(data: APIPoll) {
+    if ("expiry" in data)
+      this.expiresAt = data.expiry ? Date.parse(data.expiry) : null;
+    if ("allow_multiselect" in data)
+      this.allowMultiselect = data.allow_multiselect;
+    if ("layout_type" in data) this.layoutType = data.layout_type;
+
+    if (data.results) {
+      this.isFinalized = data.results.is_finalized;
+
+      for (const answer of this.answers.values()) {
+        const count = data.results.answer_counts.find(
+          (count) => count.id === answer.id,
+        );
+
+        answer.voteCount = count?.count ?? 0;
+        answer.meVoted = count?.me_voted ?? false;
+      }
+    }
+
+    this.rawData = Object.assign({}, this.rawData, data);
+
+    return this;
+  }
+
+  /**
+   * Update the votes of an answer from a gateway event
+   * @param answerId Id of the answer
+   * @param userId Id of the user that voted
+   * @param added Whether the vote was added or removed
+   */
+  _vote(answerId: number, userId: string, added: boolean) {
+    const answer = this.answers.get(answerId);
+    if (!answer) return null;
+
+    answer.voteCount = Math.max(answer.voteCount + (added ? 1 : -1), 0);
+
+    if (userId === this._client.user?.id) {
+      answer.meVoted = added;
+    }
+
+    return answer;
+  }
+
+  /**
+   * End this poll immediately, only polls created by the client can be ended
+   */
+  async end() {
+    const data = (await this._client.rest.endPoll(
+      this.message.channelId,
+      this.message.id,
+    )) as APIMessage;
+
+    this.message._update(data);
+
+    return this;
+  }
+
+  toJSON() {
+    return {
+      question: {
+        text: this.question.text,
+        emoji: this.question.emoji?.rawData ?? null,
+      },
+      answers: [...this.answers.values()].map((answer) => answer.toJSON()),
+      expiresAt: this.expiresAt,
+      allowMultiselect: this.allowMultiselect,
+      layoutType: this.layoutType,
+      isFinalized: this.isFinalized,
+    };
+  }
+}
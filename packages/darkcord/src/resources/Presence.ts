@@ -0,0 +1,186 @@
+import { DataWithClient } from "@typings/index";
+import {
+  ActivityFlags,
+  ActivityType,
+  GatewayActivity,
+  GatewayActivityAssets,
+  GatewayActivityButton,
+  GatewayActivityParty,
+  GatewayActivityTimestamps,
+  GatewayPresenceClientStatus,
+  GatewayPresenceUpdate,
+  PresenceUpdateReceiveStatus,
+} from "discord-api-types/v10";
+import { Base } from "./Base";
+import { Emoji } from "./Emoji";
+import type { Guild } from "./Guild";
+
+export class Activity {
+  /**
+   * The activity's name
+   */
+  name: string;
+  /**
+   * The activity type
+   */
+  type: ActivityType;
+  /**
+   * Stream url, is validated when type is Streaming
+   */
+  url: string | null;
+  /**
+   * Unix timestamp of when the activity was added to the user's session
+   */
+  createdAt: number;
+  /**
+   * Unix timestamps for start and/or end of the game
+   */
+  timestamps: GatewayActivityTimestamps | null;
+  /**
+   * Application id for the game
+   */
+  applicationId: string | null;
+  /**
+   * What the player is currently doing
+   */
+  details: string | null;
+  /**
+   * The user's current party status, or text used for a custom status
+   */
+  state: string | null;
+  /**
+   * The emoji used for a custom status
+   */
+  emoji: Emoji | null;
+  /**
+   * Information for the current party of the player
+   */
+  party: GatewayActivityParty | null;
+  /**
+   * Images for the presence and their hover texts
+   */
+  assets: GatewayActivityAssets | null;
+  /**
+   * The custom buttons shown in the Rich Presence
+   */
+  buttons: (string | GatewayActivityButton)[];
+  /**
+   * Activity flags
+   */
+  flags: ActivityFlags;
+  constructor(data: GatewayActivity) {
+    this.name = data.name;
+    this.type = data.type;
+    this.url = data.url ?? null;
+    this.createdAt = data.created_at;
+    this.timestamps = data.timestamps ?? null;
+    this.applicationId = data.application_id ?? null;
+    this.details = data.details ?? null;
+    this.state = data.state ?? null;
+    // Unicode emojis of activities have no id
+    this.emoji = data.emoji ? new Emoji({ id: null, ...data.emoji }) : null;
+    this.party = data.party ?? null;
+    this.assets = data.assets ?? null;
+    this.buttons = data.buttons ?? [];
+    this.flags = data.flags ?? 0;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      type: this.type,
+      url: this.url,
+      createdAt: this.createdAt,
+      timestamps: this.timestamps,
+      applicationId: this.applicationId,
+      details: this.details,
+      state: this.state,
+      emoji: this.emoji?.rawData ?? null,
+      party: this.party,
+      assets: this.assets,
+      buttons: this.buttons,
+      flags: this.flags,
+    };
+  }
+}
+
+export class Presence extends Base {
+  /**
+   * The id of the user this presence is for
+   */
+  userId: string;
+  /**
+   * Either "idle", "dnd", "online", or "offline"
+   */
+  status: PresenceUpdateReceiveStatus;
+  /**
+   * The user's platform-dependent status
+   */
+  clientStatus: GatewayPresenceClientStatus;
+  /**
+   * The user's current activities
+   */
+  activities: Activity[];
+  declare rawData: GatewayPresenceUpdate;
+  constructor(
+    data: DataWithClient<GatewayPresenceUpdate>,
+    public guild: Guild,
+  ) {
+    super(data, data.client, data.user.id);
+
+    this.userId = data.user.id;
+
+    this._update(data);
+  }
+
+  /**
+   * The user this presence is for, if cached
+   */
+  get user() {
+    return this._client.cache.users.get(this.userId);
+  }
+
+  /**
+   * The member this presence is for, if cached
+   */
+  get member() {
+    return this.guild.members.cache.get(this.userId);
+  }
+
+  /**
+   * The custom status of the user
+   */
+  get customStatus() {
+    return this.activities.find(
+      (activity) => activity.type === ActivityType.Custom,
+    );
+  }
+
+  _update(data: GatewayPresenceUpdate) {
+    if ("status" in data && data.status) this.status = data.status;
+    else this.status ??= "offline" as PresenceUpdateReceiveStatus;
+    if ("client_status" in data && data.client_status)
+      this.clientStatus = data.client_status;
+    else this.clientStatus ??= {};
+    if ("activities" in data && data.activities)
+      this.activities = data.activities.map(
+        (activity) => new Activity(activity),
+      );
+    else this.activities ??= [];
+
+    this.rawData = Object.assign({}, this.rawData, data);
+
+    return this;
+  }
+
+  toJSON() {
+    return Base.toJSON(this as Presence, [
+      "activities",
+      "clientStatus",
+      "id",
+      "rawData",
+      "status",
+      "userId",
+    ]);
+  }
+}
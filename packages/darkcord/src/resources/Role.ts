@@ -74,7 +74,7 @@ export class Role extends Base {
     else this.managed ??= false;
     if ("unicode_emoji" in data) this.unicodeEmoji = data.unicode_emoji;
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
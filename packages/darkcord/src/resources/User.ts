@@ -132,7 +132,7 @@ export class User extends Base {
       this.accentColor = data.accent_color;
     else this.accentColor ??= null;
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
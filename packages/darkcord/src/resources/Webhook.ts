@@ -122,7 +122,7 @@ export class Webhook extends Base {
         data.source_channel;
     }
 
-    this.rawData = Object.assign({}, data, this.rawData);
+    this.rawData = Object.assign({}, this.rawData, data);
 
     return this;
   }
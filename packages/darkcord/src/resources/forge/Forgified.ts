@@ -19,6 +19,11 @@ import {
   DMChannel,
 } from "@resources/Channel";
 import { Role } from "@resources/Role";
+import {
+  PartialChannel,
+  PartialMember,
+  PartialMessage,
+} from "@resources/Partial";
 import { AnyClient } from "@typings/index";
 
 export type ForgedConstructor =
@@ -44,7 +49,10 @@ export type ForgedConstructor =
   | typeof CategoryChannel
   | typeof ForumChannel
   | typeof StageChannel
-  | typeof Role;
+  | typeof Role
+  | typeof PartialChannel
+  | typeof PartialMessage
+  | typeof PartialMember;
 
 type Implement<K extends string> = {
   [x in K]: string;
@@ -92,6 +100,9 @@ const CAN_BE_FORGED_LIST = [
   "ForumChannel",
   "StageChannel",
   "Role",
+  "PartialChannel",
+  "PartialMessage",
+  "PartialMember",
 ];
 
 export class ForgifiedAPIError extends Error {
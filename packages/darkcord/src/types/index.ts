@@ -1,4 +1,11 @@
 import { Cache } from "@cache/Cache";
+import { APIWebhookEventBody, VerifyKeyOptions } from "@darkcord/interactions";
+import { RestInterceptor, RestProxyOptions } from "@darkcord/rest";
+import { AuditLogEntry } from "@resources/AuditLog";
+import {
+  AutoModerationActionExecution,
+  AutoModerationRule,
+} from "@resources/AutoModerationRule";
 import {
   Channel,
   StageChannel,
@@ -8,39 +15,72 @@ import {
 } from "@resources/Channel";
 import { Emoji, Reaction } from "@resources/Emoji";
 import { Guild, ScheduledEvent } from "@resources/Guild";
-import { Interaction } from "@resources/Interaction";
+import {
+  AutocompleteInteraction,
+  ChatInputApplicationCommandInteractionData,
+  CommandInteraction,
+  ComponentInteraction,
+  Interaction,
+  MessageApplicationCommandInteractionData,
+  ModalSubmitInteraction,
+  UserApplicationCommandInteractionData,
+} from "@resources/Interaction";
 import { Invite } from "@resources/Invite";
 import { Member, ThreadMember } from "@resources/Member";
 import { Message } from "@resources/Message";
+import { PartialMember, PartialMessage } from "@resources/Partial";
+import { PollAnswer } from "@resources/Poll";
+import { Presence } from "@resources/Presence";
 import { Role } from "@resources/Role";
 import { User } from "@resources/User";
 import { VoiceState } from "@resources/VoiceState";
 import {
+  APIApplicationCommand,
+  APIApplicationCommandChannelOption,
+  APIApplicationCommandOptionChoice,
+  APIAutoModerationRuleTriggerMetadata,
+  APIAttachment,
   APIAuditLogChange,
   APIAuditLogEntry,
   APIChannel,
+  APIEntitlement,
   APIGuild,
   APIGuildMember,
+  APIInteractionDataResolvedChannel,
   APIStageInstance,
+  ApplicationCommandOptionType,
+  AuditLogEvent,
+  ComponentType,
   GatewayGuildMembersChunkDispatchData,
   GatewayIntentBits,
   GatewayReceivePayload,
   GatewaySendPayload,
+  InteractionType,
+  LocalizationMap,
   MessageFlags,
+  OAuth2Scopes,
+  RESTPatchAPIAutoModerationRuleJSONBody,
   RESTPatchAPIChannelJSONBody,
+  RESTPostAPIAutoModerationRuleJSONBody,
   RESTPostAPIGuildChannelJSONBody,
   UserAvatarFormat,
   UserBannerFormat,
 } from "discord-api-types/v10";
 
 import { Client, InteractionClient } from "@client/Client";
+import type { Cluster } from "@client/ClusterManager";
 
 import { Integration } from "@resources/Integration";
 import { Sticker } from "@resources/Sticker";
+import type { AnyCommand } from "@utils/CommandBuilder";
 import type { PluginFn } from "@utils/PluginManager";
 import { DataCache } from "../manager/DataManager";
 
-export type { MessageAttachment, MessagePostData } from "@darkcord/utils";
+export type {
+  MessageAttachment,
+  MessagePostData,
+  WebhookMessagePostData,
+} from "@darkcord/utils";
 
 export interface ImageSize {
   size?: number;
@@ -56,15 +96,68 @@ export interface DisplayUserBannerOptions extends ImageSize {
 
 export type GuildDataModel<T> = T & { guild: Guild };
 
-export interface BaseClientOptions {}
+export interface ClientRestOptions {
+  /**
+   * Base url of Discord API requests
+   * @default "https://discord.com/api/v10"
+   */
+  apiURL?: string;
+  /**
+   * Interceptors of requests, added to the rest with `Rest.use`
+   */
+  interceptors?: RestInterceptor[];
+  /**
+   * Send all requests through a rest proxy like `@darkcord/rest-proxy`,
+   * rate limits are then handled by the proxy
+   */
+  proxy?: RestProxyOptions;
+}
+
+export interface WebhookClientOptions {
+  rest?: ClientRestOptions;
+}
+
+export interface WebhookSendOptions {
+  /**
+   * Id of the thread to send the message in, the thread is unarchived
+   */
+  threadId?: string;
+  /**
+   * Wait Discord to create the message and return it
+   * @default true
+   */
+  wait?: boolean;
+}
+
+export interface BaseClientOptions {
+  rest?: ClientRestOptions;
+  commands?: CommandRegistryOptions;
+}
+
+export interface AutoDeferOptions {
+  /**
+   * Milliseconds after receiving an interaction to defer it, must be less than 3 seconds
+   * @default 2000
+   */
+  after?: number;
+  /**
+   * The flags of the deferred response
+   */
+  flags?: InteractionFlags;
+}
 
 export interface InteractionClientOptions extends BaseClientOptions {
   webserver: WebServerOptions;
-  rest?: {
+  /**
+   * Defer interactions not acknowledged in time, the next reply edits the deferred response,
+   * components are deferred as message updates and the next reply is sent as followup
+   */
+  autoDefer?: boolean | AutoDeferOptions;
+  rest?: ClientRestOptions & {
     token?: string;
   };
   cache?: {
-    adapter?: CacheAdapter<any>;
+    adapter?: CacheAdapter<any> | AsyncCacheAdapter<any>;
     guilds?: CacheOption;
     channels?: CacheOption;
     roles?: CacheOption;
@@ -90,10 +183,24 @@ export interface ClientOptions extends BaseClientOptions {
       device: string;
     };
     totalShards?: number;
+    /**
+     * Base url of Discord gateway
+     * @default "wss://gateway.discord.gg"
+     */
+    url?: string;
+    /**
+     * Ids of the shards spawned by this client, all shards are spawned by default
+     */
+    shardIds?: number[];
+    /**
+     * Store used to resume the sessions of shards after a restart,
+     * a string is used as path of a FileSessionStore
+     */
+    sessionStore?: SessionStore | string;
     disabledEvents?: (keyof ClientEvents)[];
   };
   cache?: {
-    adapter?: CacheAdapter<any>;
+    adapter?: CacheAdapter<any> | AsyncCacheAdapter<any>;
     guilds?: CacheOption;
     users?: CacheOption;
     channels?: CacheOption;
@@ -102,15 +209,47 @@ export interface ClientOptions extends BaseClientOptions {
     threads?: CacheOption;
     members?: CacheOption;
     roles?: CacheOption;
+    autoModerationRules?: CacheOption;
+    presences?: CacheOption;
     messageCacheLimitPerChannel?: number;
   };
   plugins?: PluginFn[];
+  /**
+   * Check the client member permissions before sending requests,
+   * throws a MissingPermissionsError instead of waiting a 403 from Discord
+   * @default false
+   */
+  checkPermissions?: boolean;
+  /**
+   * Fetch the members of every guild received while connecting,
+   * only done when the GuildMembers intent is enabled
+   * @default true
+   */
+  fetchAllMembers?: boolean;
+  /**
+   * Emit uncached messages, members and channels as partial structures
+   * instead of ignoring their events or fetching them
+   * @default false
+   */
+  partials?: boolean;
 }
 
 export interface WebServerOptions {
   hostname?: string;
-  port: number;
+  /**
+   * Port to listen, when not set the webserver is not started on connect
+   * and can be mounted in another server with an adapter
+   */
+  port?: number;
   route?: string;
+  /**
+   * Route to receive webhook events, like app authorizations and entitlements
+   */
+  webhookEventsRoute?: string;
+  /**
+   * Options to verify requests, like the timestamp window and replay protection
+   */
+  verify?: VerifyKeyOptions;
 }
 
 export type InteractionFlags =
@@ -147,26 +286,162 @@ export interface GatewayShardEvents {
   dispatch: [event: string, data: any];
 }
 
+export interface ClusterManagerOptions {
+  /**
+   * The bot token, required to fetch the recommended shards count or max concurrency
+   */
+  token?: string;
+  /**
+   * Total of shards spread over the clusters
+   * @default Recommended shards count provided by Discord
+   */
+  totalShards?: number;
+  /**
+   * Total of clusters to spawn, ignored if shardsPerCluster is set
+   * @default Count of cpus of the machine
+   */
+  totalClusters?: number;
+  /**
+   * Amount of shards owned by each cluster
+   */
+  shardsPerCluster?: number;
+  /**
+   * Amount of shards that can identify at the same time
+   * @default Max concurrency provided by Discord
+   */
+  maxConcurrency?: number;
+  /**
+   * Spawn clusters as child processes or worker threads
+   * @default "process"
+   */
+  mode?: "process" | "worker";
+  /**
+   * Spawn again a cluster that exited without being killed by the manager
+   * @default true
+   */
+  respawn?: boolean;
+  /**
+   * Time to wait before respawning a cluster
+   * @default 5_000
+   */
+  respawnDelay?: number;
+  /**
+   * Arguments passed to the cluster script
+   */
+  args?: string[];
+  /**
+   * Arguments passed to node executable
+   */
+  execArgv?: string[];
+}
+
+export interface ClusterInfo {
+  clusterId: number;
+  shardIds: number[];
+  totalShards: number;
+  totalClusters: number;
+  maxConcurrency: number;
+}
+
+export interface ClusterEvents {
+  spawn: [];
+  ready: [];
+  death: [code: number | null];
+  error: [error: any];
+  message: [message: any];
+}
+
+export interface ClusterManagerEvents {
+  clusterCreate: [cluster: Cluster];
+  clusterReady: [cluster: Cluster];
+  clusterDeath: [cluster: Cluster, code: number | null];
+  clusterRespawn: [cluster: Cluster];
+  clusterError: [cluster: Cluster, error: any];
+  debug: [message: string];
+}
+
 export type GuildMembersChunkData = Omit<
   KeysToCamelCase<GatewayGuildMembersChunkDispatchData>,
   "presences" | "members"
 > & { members: (APIGuildMember | Member)[]; guild: Guild };
 
+export interface ApplicationAuthorization {
+  /**
+   * Installation context, 0 for guild and 1 for user
+   */
+  integrationType: number | null;
+  /**
+   * User who authorized the app
+   */
+  user: User;
+  /**
+   * List of scopes the user authorized
+   */
+  scopes: OAuth2Scopes[];
+  /**
+   * Server which app was authorized for, only in guild installations
+   */
+  guild: APIGuild | null;
+  /**
+   * Unix timestamp of when the app was authorized
+   */
+  authorizedAt: number;
+}
+
 export interface InteractionClientEvents {
   interactionCreate: [interaction: Interaction];
+  webhookEvent: [event: APIWebhookEventBody];
+  applicationAuthorized: [authorization: ApplicationAuthorization];
+  applicationDeauthorized: [user: User];
+  entitlementCreate: [entitlement: APIEntitlement];
   connect: [];
   warn: [message: string];
 }
 
-export interface AuditLogEntry
-  extends Omit<KeysToCamelCase<APIAuditLogEntry>, "changes" | "options"> {
-  options?: KeysToCamelCase<APIAuditLogEntry["options"]>;
-  changes?: KeysToCamelCase<APIAuditLogChange>[];
+export type AuditLogChangeKey = APIAuditLogChange["key"];
+
+export interface AuditLogChange<
+  K extends AuditLogChangeKey = AuditLogChangeKey,
+> {
+  /**
+   * Name of the changed property
+   */
+  key: K;
+  /**
+   * Old value of the property, not present when the property was created
+   */
+  old?: Extract<APIAuditLogChange, { key: K }>["old_value"];
+  /**
+   * New value of the property, not present when the property was reset or deleted
+   */
+  new?: Extract<APIAuditLogChange, { key: K }>["new_value"];
 }
 
+export type AuditLogEntryOptions = KeysToCamelCase<
+  NonNullable<APIAuditLogEntry["options"]>
+>;
+
+export type AuditLogTargetType =
+  | "Guild"
+  | "Channel"
+  | "User"
+  | "Role"
+  | "Invite"
+  | "Webhook"
+  | "Emoji"
+  | "Integration"
+  | "StageInstance"
+  | "Sticker"
+  | "GuildScheduledEvent"
+  | "Thread"
+  | "ApplicationCommand"
+  | "AutoModerationRule"
+  | "Unknown";
+
 export interface VoiceServer {
   host: string;
   guild: Guild;
+  guildId: string;
   token: string;
 }
 
@@ -190,19 +465,48 @@ export interface ClientEvents {
 
   // Message
   messageCreate: [message: Message];
-  messageUpdate: [old: Message, updated: Message];
-  messageDelete: [message: Message];
-  messageDeleteBulk: [messagesDeleted: Map<string, Message>];
-  messageReactionAdd: [reaction: Reaction, user: User, message: Message];
-  messageSuperReactionAdd: [reaction: Reaction, user: User, message: Message];
-  messageReactionRemove: [reaction: Reaction, user: User, message: Message];
+  messageUpdate: [old: Message | PartialMessage | undefined, updated: Message];
+  messageDelete: [message: Message | PartialMessage];
+  messageDeleteBulk: [messagesDeleted: Map<string, Message | PartialMessage>];
+  messageReactionAdd: [
+    reaction: Reaction,
+    user: User,
+    message: Message | PartialMessage,
+  ];
+  messageSuperReactionAdd: [
+    reaction: Reaction,
+    user: User,
+    message: Message | PartialMessage,
+  ];
+  messageReactionRemove: [
+    reaction: Reaction,
+    user: User,
+    message: Message | PartialMessage,
+  ];
   messageSuperReactionRemove: [
     reaction: Reaction,
     user: User,
-    message: Message,
+    message: Message | PartialMessage,
+  ];
+  messageReactionRemoveAll: [
+    message: Message | PartialMessage,
+    removed: Cache<Reaction>,
+  ];
+  messageReactionRemoveEmoji: [
+    message: Message | PartialMessage,
+    removed: Reaction | undefined,
+  ];
+  // Ids and partial messages are emitted for what can't be fetched
+  messagePollVoteAdd: [
+    answer: PollAnswer | number,
+    user: User | string,
+    message: Message | PartialMessage,
+  ];
+  messagePollVoteRemove: [
+    answer: PollAnswer | number,
+    user: User | string,
+    message: Message | PartialMessage,
   ];
-  messageReactionRemoveAll: [message: Message, removed: Cache<Reaction>];
-  messageReactionRemoveEmoji: [message: Message, removed: Reaction];
   typingStart: [typing: Typing];
 
   // Interaction
@@ -234,8 +538,13 @@ export interface ClientEvents {
   guildStickerDelete: [sticker: Sticker];
   guildStickerUpdate: [oldSticker: Sticker, updatedSticker: Sticker];
   guildMemberAdd: [newMember: Member, guild: Guild];
-  guildMemberRemove: [user: User, guild: Guild];
-  guildMemberUpdate: [old: Member, updated: Member];
+  guildMemberRemove: [
+    user: User,
+    guild: Guild,
+    member: Member | PartialMember | undefined,
+  ];
+  guildMemberUpdate: [old: Member | PartialMember | undefined, updated: Member];
+  presenceUpdate: [old: Presence | undefined, updated: Presence];
   guildIntegrationsUpdate: [guild: Guild];
   guildRoleCreate: [role: Role, guild: Guild];
   guildRoleUpdate: [old: Role, updated: Role, guild: Guild];
@@ -246,6 +555,15 @@ export interface ClientEvents {
   guildScheduledEventUserAdd: [event: ScheduledEvent, user: User];
   guildScheduledEventUserRemove: [event: ScheduledEvent, user: User];
 
+  // Auto Moderation
+  autoModerationRuleCreate: [rule: AutoModerationRule];
+  autoModerationRuleUpdate: [
+    old: AutoModerationRule | undefined,
+    updated: AutoModerationRule,
+  ];
+  autoModerationRuleDelete: [deleted: AutoModerationRule];
+  autoModerationActionExecution: [execution: AutoModerationActionExecution];
+
   // Thread
   threadCreate: [thread: ThreadChannel];
   threadMemberUpdate: [member: ThreadMember];
@@ -315,6 +633,432 @@ export interface BaseCacheOptions<T = unknown> {
 
 export type Awaitable<T> = T | Promise<T>;
 
+export interface GatewaySession {
+  sessionId: string;
+  /**
+   * Sequence of the last dispatch received
+   */
+  sequence: number;
+  resumeURL: string;
+  /**
+   * Total of shards when the session was saved,
+   * sessions are not resumed if it changed
+   */
+  shardCount: number;
+}
+
+/**
+ * Store of shard sessions, saved when the client disconnects
+ * and resumed in the next connect
+ */
+export interface SessionStore {
+  get(shardId: string): Awaitable<GatewaySession | undefined>;
+  set(shardId: string, session: GatewaySession): Awaitable<unknown>;
+  delete(shardId: string): Awaitable<unknown>;
+}
+
+export type CollectorEndReason =
+  | "time"
+  | "idle"
+  | "limit"
+  | "user"
+  | "messageDelete"
+  | "channelDelete"
+  | "guildDelete"
+  | "filterError"
+  | "collectError"
+  | (string & {});
+
+export interface CollectorOptions<T extends unknown[]> {
+  /**
+   * Items are collected only if the filter returns true,
+   * errors of the filter are emitted in error or stop the collector if it has no error listener
+   */
+  filter?: (...args: T) => Awaitable<boolean>;
+  /**
+   * Time in milliseconds to stop the collector
+   */
+  time?: number;
+  /**
+   * Time in milliseconds without collecting to stop the collector
+   */
+  idle?: number;
+  /**
+   * Maximum of items to collect before stopping
+   */
+  max?: number;
+  /**
+   * Remove items from collected when they are deleted or removed
+   */
+  dispose?: boolean;
+}
+
+export interface AwaitCollectorOptions<T extends unknown[]>
+  extends CollectorOptions<T> {
+  /**
+   * End reasons that reject the promise instead of resolving
+   */
+  errors?: CollectorEndReason[];
+}
+
+export interface CollectorEvents<V, T extends unknown[]> {
+  collect: T;
+  dispose: T;
+  end: [collected: Cache<V>, reason: CollectorEndReason];
+  error: [error: unknown];
+}
+
+export type MessageCollectorOptions = CollectorOptions<[message: Message]>;
+
+export type ReactionCollectorOptions = CollectorOptions<
+  [reaction: Reaction, user: User]
+>;
+
+export type FetchPollAnswerVotersOptions = FetchReactionUsersOptions;
+
+export interface IterateMessagesOptions {
+  /**
+   * Iterate messages before this message id, newest first
+   */
+  before?: string;
+  /**
+   * Iterate messages after this message id, oldest first
+   */
+  after?: string;
+  /**
+   * Max number of messages to iterate
+   * @default Infinity
+   */
+  limit?: number;
+}
+
+export interface IterateMembersOptions {
+  /**
+   * Iterate members with a user id after this one
+   */
+  after?: string;
+  /**
+   * Max number of members to iterate
+   * @default Infinity
+   */
+  limit?: number;
+}
+
+export interface IterateBansOptions {
+  /**
+   * Iterate bans of users with id before this one
+   */
+  before?: string;
+  /**
+   * Iterate bans of users with id after this one
+   */
+  after?: string;
+  /**
+   * Max number of bans to iterate
+   * @default Infinity
+   */
+  limit?: number;
+}
+
+export interface IterateArchivedThreadsOptions {
+  /**
+   * The threads to iterate, joined are the private threads which the client user has joined
+   * @default "public"
+   */
+  type?: "public" | "private" | "joined";
+  /**
+   * Iterate threads archived before this date, or before this thread id for joined threads
+   */
+  before?: string | Date;
+  /**
+   * Max number of threads to iterate
+   * @default Infinity
+   */
+  limit?: number;
+}
+
+export interface FetchAuditLogOptions {
+  /**
+   * Get entries before this entry id, newest first
+   */
+  before?: string;
+  /**
+   * Get entries after this entry id
+   */
+  after?: string;
+  /**
+   * Filter the entries of actions made by this user
+   */
+  userId?: string;
+  /**
+   * Filter the entries by the type of action
+   */
+  actionType?: AuditLogEvent;
+  /**
+   * Max number of entries to get (1-100)
+   * @default 50
+   */
+  limit?: number;
+}
+
+export interface IterateAuditLogOptions
+  extends Omit<FetchAuditLogOptions, "limit"> {
+  /**
+   * Max number of entries to iterate
+   * @default Infinity
+   */
+  limit?: number;
+}
+
+export interface FindAuditLogEntryOptions
+  extends Omit<FetchAuditLogOptions, "before" | "after" | "limit"> {
+  /**
+   * Id of the target of entry, e.g. the author of a deleted message
+   */
+  targetId?: string;
+  /**
+   * Id of the channel of entry, e.g. the channel of a deleted message
+   */
+  channelId?: string;
+  /**
+   * Ignore entries older than this amount of milliseconds
+   * @default 300000
+   */
+  maxAge?: number;
+  /**
+   * Max number of entries to search
+   * @default 100
+   */
+  limit?: number;
+}
+
+export interface FetchMembersOptions {
+  /**
+   * String that username starts with, an empty string returns all members
+   */
+  query?: string;
+  /**
+   * Max number of members to fetch, 0 fetches all members when query is empty
+   * @default 0
+   */
+  limit?: number;
+  /**
+   * Ids of the members to fetch, up to 100
+   */
+  userIds?: string[];
+  /**
+   * Whether the presences of the members should be fetched too
+   */
+  presences?: boolean;
+  /**
+   * Time in milliseconds to wait for all chunks
+   * @default 120000
+   */
+  time?: number;
+}
+
+export interface FetchReactionUsersOptions {
+  /**
+   * Fetch users after this user id
+   */
+  after?: string;
+  /**
+   * Max number of users to fetch
+   * @default 100
+   */
+  limit?: number;
+}
+
+export interface InteractionCollectorOptions
+  extends CollectorOptions<[interaction: Interaction]> {
+  /**
+   * Collect only interactions of this channel
+   */
+  channelId?: string;
+  /**
+   * Collect only interactions of components of this message
+   */
+  messageId?: string;
+  /**
+   * Collect only interactions of this guild
+   */
+  guildId?: string;
+  /**
+   * Collect only interactions of this type
+   */
+  interactionType?: InteractionType;
+  /**
+   * Collect only component interactions of this type
+   */
+  componentType?: ComponentType;
+}
+
+export type AwaitComponentOptions = Omit<
+  CollectorOptions<[interaction: ComponentInteraction]>,
+  "max" | "dispose"
+> &
+  Pick<InteractionCollectorOptions, "componentType">;
+
+export interface CommandOptionValues {
+  [ApplicationCommandOptionType.String]: string;
+  [ApplicationCommandOptionType.Integer]: number;
+  [ApplicationCommandOptionType.Number]: number;
+  [ApplicationCommandOptionType.Boolean]: boolean;
+  [ApplicationCommandOptionType.User]: User;
+  [ApplicationCommandOptionType.Channel]:
+    | Channel
+    | APIInteractionDataResolvedChannel;
+  [ApplicationCommandOptionType.Role]: Role;
+  [ApplicationCommandOptionType.Mentionable]: Member | User | Role;
+  [ApplicationCommandOptionType.Attachment]: APIAttachment;
+}
+
+/**
+ * Adds a option to the resolved options type of a command
+ */
+export type CommandOptionRecord<
+  N extends string,
+  V,
+  R extends boolean,
+> = R extends true ? { [K in N]: V } : { [K in N]?: V };
+
+export type CommandAutocompleteHandler<V extends string | number> = (
+  interaction: AutocompleteInteraction,
+  value: V,
+) => Awaitable<APIApplicationCommandOptionChoice<V>[] | void>;
+
+export interface CommandOptionConfig<R extends boolean = boolean> {
+  description: string;
+  required?: R;
+  nameLocalizations?: LocalizationMap | null;
+  descriptionLocalizations?: LocalizationMap | null;
+}
+
+export interface StringCommandOptionConfig<R extends boolean = boolean>
+  extends CommandOptionConfig<R> {
+  choices?: APIApplicationCommandOptionChoice<string>[];
+  minLength?: number;
+  maxLength?: number;
+  /**
+   * Handler of autocomplete interactions focused in this option
+   */
+  autocomplete?: CommandAutocompleteHandler<string>;
+}
+
+export interface NumberCommandOptionConfig<R extends boolean = boolean>
+  extends CommandOptionConfig<R> {
+  choices?: APIApplicationCommandOptionChoice<number>[];
+  minValue?: number;
+  maxValue?: number;
+  /**
+   * Handler of autocomplete interactions focused in this option
+   */
+  autocomplete?: CommandAutocompleteHandler<number>;
+}
+
+export interface ChannelCommandOptionConfig<R extends boolean = boolean>
+  extends CommandOptionConfig<R> {
+  channelTypes?: APIApplicationCommandChannelOption["channel_types"];
+}
+
+export interface CommandConfig {
+  /**
+   * Register the command only in these guilds instead of globally
+   */
+  guildIds?: string[];
+  defaultMemberPermissions?: bigint | string | null;
+  dmPermission?: boolean;
+  nsfw?: boolean;
+  nameLocalizations?: LocalizationMap | null;
+  descriptionLocalizations?: LocalizationMap | null;
+}
+
+export type ChatInputCommandInteraction =
+  CommandInteraction<ChatInputApplicationCommandInteractionData>;
+export type UserCommandInteraction =
+  CommandInteraction<UserApplicationCommandInteractionData>;
+export type MessageCommandInteraction =
+  CommandInteraction<MessageApplicationCommandInteractionData>;
+
+export type ChatInputCommandHandler<O> = (
+  interaction: ChatInputCommandInteraction,
+  options: O,
+) => Awaitable<unknown>;
+
+export type ContextMenuCommandHandler<
+  I extends UserCommandInteraction | MessageCommandInteraction,
+> = (interaction: I) => Awaitable<unknown>;
+
+export interface CommandRegistryOptions {
+  /**
+   * Register the commands without guildIds in these guilds instead of globally,
+   * useful to test commands in development
+   */
+  guildIds?: string[];
+  /**
+   * Sync the commands when the client is ready
+   * @default false
+   */
+  sync?: boolean;
+}
+
+export interface CommandSyncResult {
+  /**
+   * Id of the guild, null for global commands
+   */
+  guildId: string | null;
+  /**
+   * Whether the commands were overwritten
+   */
+  changed: boolean;
+  commands: APIApplicationCommand[];
+}
+
+export interface CommandRegistryEvents {
+  commandRun: [command: AnyCommand, interaction: Interaction];
+  commandError: [error: any, command: AnyCommand, interaction: Interaction];
+  sync: [result: CommandSyncResult];
+}
+
+/**
+ * Parameters of a custom id pattern, e.g. "ticket:close:{id}" has an id parameter
+ */
+export type CustomIdParams<P extends string> =
+  P extends `${string}{${infer K}}${infer Rest}`
+    ? { [_ in K]: string } & CustomIdParams<Rest>
+    : {};
+
+export type ComponentRouteHandler<P extends string> = (
+  interaction: ComponentInteraction,
+  params: CustomIdParams<P>,
+) => Awaitable<unknown>;
+
+export type ModalRouteHandler<P extends string> = (
+  interaction: ModalSubmitInteraction,
+  params: CustomIdParams<P>,
+) => Awaitable<unknown>;
+
+export interface ComponentRoute<
+  H = ComponentRouteHandler<any> | ModalRouteHandler<any>,
+> {
+  pattern: string;
+  regex: RegExp;
+  params: string[];
+  handler: H;
+}
+
+export interface ComponentRouterEvents {
+  routeRun: [
+    route: ComponentRoute,
+    interaction: ComponentInteraction | ModalSubmitInteraction,
+  ];
+  routeError: [
+    error: any,
+    route: ComponentRoute,
+    interaction: ComponentInteraction | ModalSubmitInteraction,
+  ];
+}
+
 export interface CacheAdapter<T> {
   set(key: string, value: T): CacheAdapter<T>;
   get(key: string): T | undefined;
@@ -327,6 +1071,19 @@ export interface CacheAdapter<T> {
   size: number;
 }
 
+/**
+ * Cache adapter backed by a out-of-process store,
+ * values of async adapters are read with DataCache.resolve
+ */
+export interface AsyncCacheAdapter<T> {
+  set(key: string, value: T): Awaitable<unknown>;
+  get(key: string): Awaitable<T | undefined>;
+  delete(key: string): Awaitable<boolean>;
+  clear(): Awaitable<void>;
+  keys(): Awaitable<Iterable<string>> | AsyncIterable<string>;
+  has(key: string): Awaitable<boolean>;
+}
+
 export type AnyClient = InteractionClient | Client;
 export type DataWithClient<T = Record<string, any>> = T & { client: AnyClient };
 
@@ -382,6 +1139,20 @@ export interface CreateEmojiOptions {
 
 export type MessageTimestampStyle = "t" | "T" | "d" | "D" | "f" | "F" | "R";
 
+export type CreateAutoModerationRuleOptions = Omit<
+  KeysToCamelCase<RESTPostAPIAutoModerationRuleJSONBody>,
+  "triggerMetadata"
+> & {
+  triggerMetadata?: KeysToCamelCase<APIAutoModerationRuleTriggerMetadata>;
+};
+
+export type EditAutoModerationRuleOptions = Omit<
+  KeysToCamelCase<RESTPatchAPIAutoModerationRuleJSONBody>,
+  "triggerMetadata"
+> & {
+  triggerMetadata?: KeysToCamelCase<APIAutoModerationRuleTriggerMetadata>;
+};
+
 export type CreateChannelOptions =
   KeysToCamelCase<RESTPostAPIGuildChannelJSONBody> &
     KeysToCamelCase<RESTPatchAPIChannelJSONBody>;
@@ -0,0 +1,409 @@
+import { Cache } from "@cache/Cache";
+import type { Channel, TextBasedChannel } from "@resources/Channel";
+import type { Reaction } from "@resources/Emoji";
+import type { Guild } from "@resources/Guild";
+import type { Interaction } from "@resources/Interaction";
+import type { Message } from "@resources/Message";
+import type { User } from "@resources/User";
+import type {
+  AnyClient,
+  ClientEvents,
+  CollectorEndReason,
+  CollectorEvents,
+  CollectorOptions,
+  InteractionCollectorOptions,
+  MessageCollectorOptions,
+  ReactionCollectorOptions,
+} from "@typings/index";
+import { Events } from "@utils/Constants";
+import { MakeError } from "@utils/index";
+import EventEmitter from "node:events";
+
+export const CollectorEndedError = (
+  reason: CollectorEndReason,
+  collected: Cache<unknown>,
+) =>
+  MakeError({
+    name: "CollectorEnded",
+    message: `Collector ended with reason: ${reason}`,
+    args: [
+      ["reason", reason],
+      ["collected", collected],
+    ],
+  });
+
+export declare interface Collector<V, T extends unknown[]> {
+  on<E extends keyof CollectorEvents<V, T>>(
+    event: E,
+    listener: (...args: CollectorEvents<V, T>[E]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<E extends keyof CollectorEvents<V, T>>(
+    event: E,
+    listener: (...args: CollectorEvents<V, T>[E]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<E extends keyof CollectorEvents<V, T>>(
+    event: E,
+    ...args: CollectorEvents<V, T>[E]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Base of collectors, collects values received in client events
+ * until the time, idle or max options are reached
+ */
+export abstract class Collector<V, T extends unknown[]> extends EventEmitter {
+  /**
+   * Values collected
+   */
+  collected: Cache<V>;
+  /**
+   * Amount of items collected, including the disposed ones
+   */
+  received: number;
+  /**
+   * Collector has ended
+   */
+  ended: boolean;
+  /**
+   * The reason of collector end
+   */
+  endReason: CollectorEndReason | null;
+  #timeout: NodeJS.Timeout | null;
+  #idleTimeout: NodeJS.Timeout | null;
+  #listeners: [event: string, listener: (...args: any[]) => any][];
+
+  constructor(
+    public client: AnyClient,
+    public options: CollectorOptions<T> = {},
+  ) {
+    super();
+
+    this.collected = new Cache();
+    this.received = 0;
+    this.ended = false;
+    this.endReason = null;
+    this.#timeout = null;
+    this.#idleTimeout = null;
+    this.#listeners = [];
+
+    if (options.time) {
+      this.#timeout = setTimeout(() => this.stop("time"), options.time);
+    }
+
+    if (options.idle) {
+      this.#idleTimeout = setTimeout(() => this.stop("idle"), options.idle);
+    }
+  }
+
+  /**
+   * Get the key of the value collected in the event, null if it should be ignored
+   */
+  abstract _collect(...args: T): [key: string, value: V] | null;
+
+  /**
+   * Get the key of the value removed in the event, null if it should be ignored
+   */
+  _dispose?(...args: T): string | null;
+
+  /**
+   * Listen a client event until the collector ends
+   */
+  _listen<E extends keyof ClientEvents>(
+    event: E,
+    listener: (...args: ClientEvents[E]) => any,
+  ) {
+    (this.client as EventEmitter).on(event, listener as any);
+    this.#listeners.push([event, listener]);
+  }
+
+  /**
+   * Collect the values of an event, errors thrown while collecting are
+   * emitted in the error event or end the collector
+   */
+  _handleCollect(...args: T) {
+    return this.#collect(...args).catch((err) =>
+      this.#handleError(err, "collectError"),
+    );
+  }
+
+  #handleError(err: unknown, reason: CollectorEndReason) {
+    if (this.listenerCount("error")) this.emit("error", err);
+    else this.stop(reason);
+  }
+
+  async #collect(...args: T) {
+    if (this.ended) return;
+
+    const entry = this._collect(...args);
+    if (!entry) return;
+
+    if (this.options.filter) {
+      let passed: boolean;
+      try {
+        passed = await this.options.filter(...args);
+      } catch (err) {
+        return this.#handleError(err, "filterError");
+      }
+
+      if (!passed) return;
+    }
+
+    // The collector may have ended while the filter was running
+    if (this.ended) return;
+
+    this.collected.set(entry[0], entry[1]);
+    this.received++;
+    this.emit("collect", ...args);
+
+    if (this.options.max && this.received >= this.options.max) {
+      return this.stop("limit");
+    }
+
+    this.resetTimer({ idle: this.options.idle });
+  }
+
+  _handleDispose(...args: T) {
+    if (this.ended || !this.options.dispose) return;
+
+    const key = this._dispose?.(...args) ?? null;
+    if (key === null || !this.collected.has(key)) return;
+
+    this.collected.delete(key);
+    this.emit("dispose", ...args);
+  }
+
+  /**
+   * Restart the time and idle timers
+   * @param options The new time and idle, the timers are only restarted if present
+   */
+  resetTimer(options: { time?: number; idle?: number } = {}) {
+    if (this.ended) return;
+
+    if (options.time) {
+      if (this.#timeout) clearTimeout(this.#timeout);
+      this.#timeout = setTimeout(() => this.stop("time"), options.time);
+    }
+
+    if (options.idle) {
+      if (this.#idleTimeout) clearTimeout(this.#idleTimeout);
+      this.#idleTimeout = setTimeout(() => this.stop("idle"), options.idle);
+    }
+  }
+
+  /**
+   * Stop the collector and remove its listeners
+   * @param reason The reason of stop
+   */
+  stop(reason: CollectorEndReason = "user") {
+    if (this.ended) return;
+
+    if (this.#timeout) clearTimeout(this.#timeout);
+    if (this.#idleTimeout) clearTimeout(this.#idleTimeout);
+
+    for (const [event, listener] of this.#listeners) {
+      (this.client as EventEmitter).off(event, listener);
+    }
+
+    this.#listeners = [];
+    this.ended = true;
+    this.endReason = reason;
+    this.emit("end", this.collected, reason);
+  }
+
+  /**
+   * Wait the collector end
+   * @param errors End reasons that reject the promise
+   * @returns The collected values
+   */
+  wait(errors: CollectorEndReason[] = []) {
+    return new Promise<Cache<V>>((resolve, reject) => {
+      const settle = (collected: Cache<V>, reason: CollectorEndReason) => {
+        if (errors.includes(reason)) {
+          reject(CollectorEndedError(reason, collected));
+        } else {
+          resolve(collected);
+        }
+      };
+
+      if (this.ended) return settle(this.collected, this.endReason!);
+
+      this.once("end", settle);
+    });
+  }
+
+  /**
+   * Stop the collector when a channel or guild is deleted
+   */
+  _endOnDelete(channelId: string | undefined, guildId: string | undefined) {
+    const onChannelDelete = (channel: Channel) => {
+      if (channel.id === channelId) this.stop("channelDelete");
+    };
+
+    this._listen(Events.ChannelDelete, onChannelDelete);
+    this._listen(Events.ThreadDelete, onChannelDelete);
+    this._listen(Events.GuildDelete, (guild: Guild) => {
+      if (guild.id === guildId) this.stop("guildDelete");
+    });
+  }
+
+  /**
+   * Stop the collector when a message is deleted
+   */
+  _endOnMessageDelete(messageId: string) {
+    this._listen(Events.MessageDelete, (message) => {
+      if (message?.id === messageId) this.stop("messageDelete");
+    });
+    this._listen(Events.MessageDeleteBulk, (messages) => {
+      if (messages.has(messageId)) this.stop("messageDelete");
+    });
+  }
+}
+
+/**
+ * Collects messages sent in a channel
+ */
+export class MessageCollector extends Collector<Message, [message: Message]> {
+  constructor(
+    public channel: TextBasedChannel,
+    options: MessageCollectorOptions = {},
+  ) {
+    super(channel._client, options);
+
+    this._listen(Events.MessageCreate, (message) =>
+      this._handleCollect(message),
+    );
+    // Deleted messages can be partial, the collected message is disposed
+    this._listen(Events.MessageDelete, (message) => {
+      const collected = message?.id && this.collected.get(message.id);
+      if (collected) this._handleDispose(collected);
+    });
+    this._listen(Events.MessageDeleteBulk, (messages) => {
+      for (const id of messages.keys()) {
+        const collected = this.collected.get(id);
+        if (collected) this._handleDispose(collected);
+      }
+    });
+
+    this._endOnDelete(
+      channel.id,
+      channel.isGuildChannel() ? channel.guildId : undefined,
+    );
+  }
+
+  _collect(message: Message): [string, Message] | null {
+    if (message.channelId !== this.channel.id) return null;
+    return [message.id, message];
+  }
+
+  _dispose(message: Message) {
+    return message?.channelId === this.channel.id ? message.id : null;
+  }
+}
+
+/**
+ * Collects reactions added in a message,
+ * values are keyed by emoji id or name
+ */
+export class ReactionCollector extends Collector<
+  Reaction,
+  [reaction: Reaction, user: User]
+> {
+  /**
+   * Users that reacted with the collected reactions
+   */
+  users: Cache<User>;
+
+  constructor(public message: Message, options: ReactionCollectorOptions = {}) {
+    super(message._client, options);
+
+    this.users = new Cache();
+
+    const onAdd = (reaction: Reaction, user: User, reacted: Message) => {
+      if (reacted.id === message.id) this._handleCollect(reaction, user);
+    };
+    const onRemove = (reaction: Reaction, user: User, reacted: Message) => {
+      if (reacted.id === message.id) this._handleDispose(reaction, user);
+    };
+
+    this._listen(Events.MessageReactionAdd, onAdd);
+    this._listen(Events.MessageSuperReactionAdd, onAdd);
+    this._listen(Events.MessageReactionRemove, onRemove);
+    this._listen(Events.MessageSuperReactionRemove, onRemove);
+    this._listen(Events.MessageReactionRemoveAll, (reacted) => {
+      if (reacted.id !== message.id || !this.options.dispose) return;
+
+      this.collected.clear();
+      this.users.clear();
+    });
+
+    this.on("collect", (_: Reaction, user: User) => {
+      if (user) this.users.set(user.id, user);
+    });
+
+    this._endOnMessageDelete(message.id);
+    this._endOnDelete(message.channelId, message.guildId);
+  }
+
+  static key(reaction: Reaction) {
+    return reaction.emoji.id ?? reaction.emoji.name!;
+  }
+
+  _collect(reaction: Reaction): [string, Reaction] {
+    return [ReactionCollector.key(reaction), reaction];
+  }
+
+  _dispose(reaction: Reaction) {
+    // The reaction is only removed of collected when nobody else reacted
+    return reaction.count <= 0 ? ReactionCollector.key(reaction) : null;
+  }
+}
+
+/**
+ * Collects interactions created, like button clicks in a message
+ */
+export class InteractionCollector<
+  I extends Interaction = Interaction,
+> extends Collector<I, [interaction: I]> {
+  declare options: InteractionCollectorOptions;
+
+  constructor(client: AnyClient, options: InteractionCollectorOptions = {}) {
+    super(client, options as CollectorOptions<[interaction: I]>);
+
+    this._listen(Events.InteractionCreate, (interaction) =>
+      this._handleCollect(interaction as I),
+    );
+
+    if (options.messageId) this._endOnMessageDelete(options.messageId);
+    if (options.channelId || options.guildId) {
+      this._endOnDelete(options.channelId, options.guildId);
+    }
+  }
+
+  _collect(interaction: I): [string, I] | null {
+    const { channelId, guildId, messageId, interactionType, componentType } =
+      this.options;
+
+    if (interactionType !== undefined && interaction.type !== interactionType) {
+      return null;
+    }
+
+    if (guildId && interaction.guildId !== guildId) return null;
+    if (channelId && interaction.channel?.id !== channelId) return null;
+
+    if (messageId || componentType !== undefined) {
+      if (!interaction.isComponent()) return null;
+      if (messageId && interaction.message.id !== messageId) return null;
+      if (
+        componentType !== undefined &&
+        interaction.componentType !== componentType
+      ) {
+        return null;
+      }
+    }
+
+    return [interaction.id, interaction];
+  }
+}
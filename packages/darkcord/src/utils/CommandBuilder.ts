@@ -0,0 +1,412 @@
+import type {
+  ChannelCommandOptionConfig,
+  ChatInputCommandHandler,
+  ChatInputCommandInteraction,
+  CommandAutocompleteHandler,
+  CommandConfig,
+  CommandOptionConfig,
+  CommandOptionRecord,
+  CommandOptionValues,
+  ContextMenuCommandHandler,
+  MessageCommandInteraction,
+  NumberCommandOptionConfig,
+  StringCommandOptionConfig,
+  UserCommandInteraction,
+} from "@typings/index";
+import {
+  APIApplicationCommandBasicOption,
+  APIApplicationCommandSubcommandGroupOption,
+  APIApplicationCommandSubcommandOption,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  RESTPostAPIContextMenuApplicationCommandsJSONBody,
+} from "discord-api-types/v10";
+
+export type AnyCommand = ChatInputCommand<any> | UserCommand | MessageCommand;
+
+/**
+ * Builders returned when a option is added, by kind of builder
+ */
+export interface CommandOptionsBuilders<O> {
+  command: ChatInputCommand<O>;
+  subcommand: Subcommand<O>;
+}
+
+type WithOption<
+  K extends keyof CommandOptionsBuilders<unknown>,
+  O,
+  N extends string,
+  T extends keyof CommandOptionValues,
+  R extends boolean,
+> = CommandOptionsBuilders<
+  O & CommandOptionRecord<N, CommandOptionValues[T], R>
+>[K];
+
+function commandJSON(
+  type: ApplicationCommandType,
+  name: string,
+  config: CommandConfig,
+) {
+  return {
+    type,
+    name,
+    name_localizations: config.nameLocalizations,
+    description_localizations: config.descriptionLocalizations,
+    default_member_permissions:
+      config.defaultMemberPermissions === undefined ||
+      config.defaultMemberPermissions === null
+        ? config.defaultMemberPermissions
+        : String(config.defaultMemberPermissions),
+    dm_permission: config.dmPermission,
+    nsfw: config.nsfw,
+  };
+}
+
+/**
+ * Base of builders with options, the options values are typed in the run handler
+ */
+export abstract class CommandOptionsBuilder<
+  K extends keyof CommandOptionsBuilders<unknown>,
+  O,
+> {
+  options: APIApplicationCommandBasicOption[];
+  /**
+   * Autocomplete handlers by option name
+   */
+  autocompletes: Map<string, CommandAutocompleteHandler<any>>;
+  handler: ChatInputCommandHandler<O> | null;
+
+  constructor(public name: string, public description: string) {
+    this.options = [];
+    this.autocompletes = new Map();
+    this.handler = null;
+  }
+
+  _addOption(
+    type: ApplicationCommandOptionType,
+    name: string,
+    config: CommandOptionConfig & Record<string, any>,
+  ): any {
+    if (config.autocomplete) {
+      this.autocompletes.set(name, config.autocomplete);
+    }
+
+    this.options.push({
+      type,
+      name,
+      description: config.description,
+      name_localizations: config.nameLocalizations,
+      description_localizations: config.descriptionLocalizations,
+      required: config.required,
+      choices: config.choices,
+      min_length: config.minLength,
+      max_length: config.maxLength,
+      min_value: config.minValue,
+      max_value: config.maxValue,
+      channel_types: config.channelTypes,
+      autocomplete: config.autocomplete ? true : undefined,
+    } as APIApplicationCommandBasicOption);
+
+    return this;
+  }
+
+  string<N extends string, R extends boolean = false>(
+    name: N,
+    config: StringCommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.String, R> {
+    return this._addOption(ApplicationCommandOptionType.String, name, config);
+  }
+
+  integer<N extends string, R extends boolean = false>(
+    name: N,
+    config: NumberCommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Integer, R> {
+    return this._addOption(ApplicationCommandOptionType.Integer, name, config);
+  }
+
+  number<N extends string, R extends boolean = false>(
+    name: N,
+    config: NumberCommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Number, R> {
+    return this._addOption(ApplicationCommandOptionType.Number, name, config);
+  }
+
+  boolean<N extends string, R extends boolean = false>(
+    name: N,
+    config: CommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Boolean, R> {
+    return this._addOption(ApplicationCommandOptionType.Boolean, name, config);
+  }
+
+  user<N extends string, R extends boolean = false>(
+    name: N,
+    config: CommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.User, R> {
+    return this._addOption(ApplicationCommandOptionType.User, name, config);
+  }
+
+  channel<N extends string, R extends boolean = false>(
+    name: N,
+    config: ChannelCommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Channel, R> {
+    return this._addOption(ApplicationCommandOptionType.Channel, name, config);
+  }
+
+  role<N extends string, R extends boolean = false>(
+    name: N,
+    config: CommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Role, R> {
+    return this._addOption(ApplicationCommandOptionType.Role, name, config);
+  }
+
+  mentionable<N extends string, R extends boolean = false>(
+    name: N,
+    config: CommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Mentionable, R> {
+    return this._addOption(
+      ApplicationCommandOptionType.Mentionable,
+      name,
+      config,
+    );
+  }
+
+  attachment<N extends string, R extends boolean = false>(
+    name: N,
+    config: CommandOptionConfig<R>,
+  ): WithOption<K, O, N, ApplicationCommandOptionType.Attachment, R> {
+    return this._addOption(
+      ApplicationCommandOptionType.Attachment,
+      name,
+      config,
+    );
+  }
+
+  /**
+   * Set the handler executed when the command is used
+   * @param handler The handler, receives the interaction and the values of options
+   */
+  run(handler: ChatInputCommandHandler<O>) {
+    this.handler = handler;
+    return this;
+  }
+
+  /**
+   * Get the values of options received in the interaction
+   * @param interaction The command interaction
+   */
+  _resolveOptions(interaction: ChatInputCommandInteraction) {
+    const resolved: Record<string, unknown> = {};
+
+    for (const { name } of this.options) {
+      const option = interaction.data.options?.get(name);
+      if (option) resolved[name] = option.value ?? undefined;
+    }
+
+    return resolved as O;
+  }
+}
+
+/**
+ * A subcommand of a chat input command
+ */
+export class Subcommand<O = {}> extends CommandOptionsBuilder<"subcommand", O> {
+  nameLocalizations?: CommandConfig["nameLocalizations"];
+  descriptionLocalizations?: CommandConfig["descriptionLocalizations"];
+
+  toJSON(): APIApplicationCommandSubcommandOption {
+    return {
+      type: ApplicationCommandOptionType.Subcommand,
+      name: this.name,
+      description: this.description,
+      name_localizations: this.nameLocalizations,
+      description_localizations: this.descriptionLocalizations,
+      options: this.options,
+    };
+  }
+}
+
+/**
+ * A group of subcommands of a chat input command
+ */
+export class SubcommandGroup {
+  subcommands: Map<string, Subcommand<any>>;
+  nameLocalizations?: CommandConfig["nameLocalizations"];
+  descriptionLocalizations?: CommandConfig["descriptionLocalizations"];
+
+  constructor(public name: string, public description: string) {
+    this.subcommands = new Map();
+  }
+
+  /**
+   * Add a subcommand in this group
+   * @param name The name of subcommand
+   * @param description The description of subcommand
+   * @param build Function to add the options and handler of subcommand
+   */
+  subcommand(
+    name: string,
+    description: string,
+    build: (subcommand: Subcommand) => Subcommand<any>,
+  ) {
+    this.subcommands.set(name, build(new Subcommand(name, description)));
+    return this;
+  }
+
+  toJSON(): APIApplicationCommandSubcommandGroupOption {
+    return {
+      type: ApplicationCommandOptionType.SubcommandGroup,
+      name: this.name,
+      description: this.description,
+      name_localizations: this.nameLocalizations,
+      description_localizations: this.descriptionLocalizations,
+      options: [...this.subcommands.values()].map((subcommand) =>
+        subcommand.toJSON(),
+      ),
+    };
+  }
+}
+
+/**
+ * A slash command
+ *
+ * @example
+ * new ChatInputCommand("echo", "Repeat a text")
+ *   .string("text", { description: "The text", required: true })
+ *   .run((interaction, { text }) => interaction.reply(text));
+ */
+export class ChatInputCommand<O = {}> extends CommandOptionsBuilder<
+  "command",
+  O
+> {
+  readonly type = ApplicationCommandType.ChatInput;
+  subcommands: Map<string, Subcommand<any>>;
+  groups: Map<string, SubcommandGroup>;
+
+  constructor(
+    name: string,
+    description: string,
+    public config: CommandConfig = {},
+  ) {
+    super(name, description);
+
+    this.subcommands = new Map();
+    this.groups = new Map();
+  }
+
+  /**
+   * Add a subcommand, commands with subcommands can't have options
+   * @param name The name of subcommand
+   * @param description The description of subcommand
+   * @param build Function to add the options and handler of subcommand
+   */
+  subcommand(
+    name: string,
+    description: string,
+    build: (subcommand: Subcommand) => Subcommand<any>,
+  ) {
+    this.subcommands.set(name, build(new Subcommand(name, description)));
+    return this;
+  }
+
+  /**
+   * Add a group of subcommands
+   * @param name The name of group
+   * @param description The description of group
+   * @param build Function to add the subcommands of group
+   */
+  group(
+    name: string,
+    description: string,
+    build: (group: SubcommandGroup) => SubcommandGroup,
+  ) {
+    this.groups.set(name, build(new SubcommandGroup(name, description)));
+    return this;
+  }
+
+  /**
+   * Get the command or subcommand that handles the interaction
+   * @param group Name of the subcommand group used
+   * @param subcommand Name of the subcommand used
+   */
+  _find(
+    group?: string,
+    subcommand?: string,
+  ): CommandOptionsBuilder<any, any> | undefined {
+    if (group) return this.groups.get(group)?.subcommands.get(subcommand!);
+    if (subcommand) return this.subcommands.get(subcommand);
+
+    return this;
+  }
+
+  toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody {
+    return {
+      ...commandJSON(this.type, this.name, this.config),
+      type: this.type,
+      description: this.description,
+      options: [
+        ...this.options,
+        ...[...this.subcommands.values()].map((subcommand) =>
+          subcommand.toJSON(),
+        ),
+        ...[...this.groups.values()].map((group) => group.toJSON()),
+      ],
+    };
+  }
+}
+
+/**
+ * A command in the apps menu of users
+ */
+export class UserCommand {
+  readonly type = ApplicationCommandType.User;
+  handler: ContextMenuCommandHandler<UserCommandInteraction> | null;
+
+  constructor(public name: string, public config: CommandConfig = {}) {
+    this.handler = null;
+  }
+
+  /**
+   * Set the handler executed when the command is used
+   */
+  run(handler: ContextMenuCommandHandler<UserCommandInteraction>) {
+    this.handler = handler;
+    return this;
+  }
+
+  toJSON(): RESTPostAPIContextMenuApplicationCommandsJSONBody {
+    return commandJSON(
+      this.type,
+      this.name,
+      this.config,
+    ) as RESTPostAPIContextMenuApplicationCommandsJSONBody;
+  }
+}
+
+/**
+ * A command in the apps menu of messages
+ */
+export class MessageCommand {
+  readonly type = ApplicationCommandType.Message;
+  handler: ContextMenuCommandHandler<MessageCommandInteraction> | null;
+
+  constructor(public name: string, public config: CommandConfig = {}) {
+    this.handler = null;
+  }
+
+  /**
+   * Set the handler executed when the command is used
+   */
+  run(handler: ContextMenuCommandHandler<MessageCommandInteraction>) {
+    this.handler = handler;
+    return this;
+  }
+
+  toJSON(): RESTPostAPIContextMenuApplicationCommandsJSONBody {
+    return commandJSON(
+      this.type,
+      this.name,
+      this.config,
+    ) as RESTPostAPIContextMenuApplicationCommandsJSONBody;
+  }
+}
@@ -0,0 +1,528 @@
+import { ComponentLimits } from "@utils/Constants";
+import { MakeError } from "@utils/index";
+import {
+  APIActionRowComponent,
+  APIButtonComponent,
+  APIChannelSelectComponent,
+  APIMentionableSelectComponent,
+  APIMessageActionRowComponent,
+  APIMessageComponentEmoji,
+  APIModalActionRowComponent,
+  APIModalInteractionResponseCallbackData,
+  APIRoleSelectComponent,
+  APISelectMenuComponent,
+  APISelectMenuOption,
+  APIStringSelectComponent,
+  APITextInputComponent,
+  APIUserSelectComponent,
+  ButtonStyle,
+  ComponentType,
+  TextInputStyle,
+} from "discord-api-types/v10";
+
+export const InvalidComponentError = (message: string) =>
+  MakeError(
+    {
+      name: "InvalidComponent",
+      message,
+    },
+    RangeError,
+  );
+
+function checkLength(
+  field: string,
+  value: string | undefined,
+  max: number,
+  min = 1,
+) {
+  if (value !== undefined && (value.length < min || value.length > max)) {
+    throw InvalidComponentError(
+      `${field} must have between ${min} and ${max} characters`,
+    );
+  }
+}
+
+function checkRange(
+  field: string,
+  value: number | undefined,
+  min: number,
+  max: number,
+) {
+  if (value !== undefined && (value < min || value > max)) {
+    throw InvalidComponentError(`${field} must be between ${min} and ${max}`);
+  }
+}
+
+function resolveEmoji(
+  emoji: APIMessageComponentEmoji | string,
+): APIMessageComponentEmoji {
+  if (typeof emoji !== "string") return emoji;
+
+  // Custom emojis formatted as <:name:id> or <a:name:id>
+  const custom = /^<(a)?:(\w+):(\d+)>$/.exec(emoji);
+
+  return custom
+    ? { animated: Boolean(custom[1]), name: custom[2], id: custom[3] }
+    : { name: emoji };
+}
+
+export class ButtonBuilder {
+  data: Partial<APIButtonComponent> & { custom_id?: string; url?: string };
+
+  constructor(data: Partial<APIButtonComponent> = {}) {
+    this.data = { ...data, type: ComponentType.Button };
+  }
+
+  setStyle(style: ButtonStyle) {
+    this.data.style = style;
+    return this;
+  }
+
+  setLabel(label: string) {
+    checkLength("Button label", label, ComponentLimits.ButtonLabel);
+    this.data.label = label;
+    return this;
+  }
+
+  /**
+   * Set the emoji of button
+   * @param emoji A unicode emoji, a custom emoji mention or the emoji object
+   */
+  setEmoji(emoji: APIMessageComponentEmoji | string) {
+    this.data.emoji = resolveEmoji(emoji);
+    return this;
+  }
+
+  setCustomId(customId: string) {
+    checkLength("Button custom id", customId, ComponentLimits.CustomId);
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  /**
+   * Set the url of a link button, the style is changed to link
+   */
+  setURL(url: string) {
+    this.data.style = ButtonStyle.Link;
+    this.data.url = url;
+    return this;
+  }
+
+  setDisabled(disabled = true) {
+    this.data.disabled = disabled;
+    return this;
+  }
+
+  toJSON(): APIButtonComponent {
+    const { style, url, custom_id, label, emoji } = this.data;
+
+    if (style === undefined) {
+      throw InvalidComponentError("Button style is required");
+    }
+
+    if (style === ButtonStyle.Link ? !url || custom_id : !custom_id || url) {
+      throw InvalidComponentError(
+        "Link buttons must have only an url and other buttons only a custom id",
+      );
+    }
+
+    if (!label && !emoji) {
+      throw InvalidComponentError("Button must have a label or an emoji");
+    }
+
+    return { ...this.data } as APIButtonComponent;
+  }
+}
+
+/**
+ * Base of select menus builders
+ */
+export class SelectMenuBuilder<T extends APISelectMenuComponent> {
+  data: Partial<T>;
+
+  constructor(type: T["type"], data: Partial<T> = {}) {
+    this.data = { ...data, type } as Partial<T>;
+  }
+
+  setCustomId(customId: string) {
+    checkLength("Select menu custom id", customId, ComponentLimits.CustomId);
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  setPlaceholder(placeholder: string) {
+    checkLength(
+      "Select menu placeholder",
+      placeholder,
+      ComponentLimits.SelectMenuPlaceholder,
+    );
+    this.data.placeholder = placeholder;
+    return this;
+  }
+
+  setMinValues(minValues: number) {
+    checkRange(
+      "Select menu min values",
+      minValues,
+      0,
+      ComponentLimits.SelectMenuOptions,
+    );
+    this.data.min_values = minValues;
+    return this;
+  }
+
+  setMaxValues(maxValues: number) {
+    checkRange(
+      "Select menu max values",
+      maxValues,
+      1,
+      ComponentLimits.SelectMenuOptions,
+    );
+    this.data.max_values = maxValues;
+    return this;
+  }
+
+  setDisabled(disabled = true) {
+    this.data.disabled = disabled;
+    return this;
+  }
+
+  toJSON(): T {
+    if (!this.data.custom_id) {
+      throw InvalidComponentError("Select menu custom id is required");
+    }
+
+    const { min_values, max_values } = this.data;
+
+    if (
+      min_values !== undefined &&
+      max_values !== undefined &&
+      min_values > max_values
+    ) {
+      throw InvalidComponentError(
+        "Select menu min values must not be greater than max values",
+      );
+    }
+
+    return { ...this.data } as T;
+  }
+}
+
+export class StringSelectMenuBuilder extends SelectMenuBuilder<APIStringSelectComponent> {
+  constructor(data: Partial<APIStringSelectComponent> = {}) {
+    super(ComponentType.StringSelect, { options: [], ...data });
+  }
+
+  addOptions(...options: APISelectMenuOption[]) {
+    const current = this.data.options!;
+
+    if (current.length + options.length > ComponentLimits.SelectMenuOptions) {
+      throw InvalidComponentError(
+        `Select menu must have at most ${ComponentLimits.SelectMenuOptions} options`,
+      );
+    }
+
+    for (const option of options) {
+      checkLength(
+        "Select menu option label",
+        option.label,
+        ComponentLimits.SelectMenuOptionLabel,
+      );
+      checkLength(
+        "Select menu option value",
+        option.value,
+        ComponentLimits.SelectMenuOptionValue,
+      );
+      checkLength(
+        "Select menu option description",
+        option.description,
+        ComponentLimits.SelectMenuOptionDescription,
+      );
+
+      current.push(option);
+    }
+
+    return this;
+  }
+
+  toJSON() {
+    const data = super.toJSON();
+
+    if (!data.options.length) {
+      throw InvalidComponentError("Select menu must have at least one option");
+    }
+
+    if ((data.max_values ?? 1) > data.options.length) {
+      throw InvalidComponentError(
+        "Select menu max values must not be greater than the count of options",
+      );
+    }
+
+    return data;
+  }
+}
+
+export class UserSelectMenuBuilder extends SelectMenuBuilder<APIUserSelectComponent> {
+  constructor(data: Partial<APIUserSelectComponent> = {}) {
+    super(ComponentType.UserSelect, data);
+  }
+}
+
+export class RoleSelectMenuBuilder extends SelectMenuBuilder<APIRoleSelectComponent> {
+  constructor(data: Partial<APIRoleSelectComponent> = {}) {
+    super(ComponentType.RoleSelect, data);
+  }
+}
+
+export class MentionableSelectMenuBuilder extends SelectMenuBuilder<APIMentionableSelectComponent> {
+  constructor(data: Partial<APIMentionableSelectComponent> = {}) {
+    super(ComponentType.MentionableSelect, data);
+  }
+}
+
+export class ChannelSelectMenuBuilder extends SelectMenuBuilder<APIChannelSelectComponent> {
+  constructor(data: Partial<APIChannelSelectComponent> = {}) {
+    super(ComponentType.ChannelSelect, data);
+  }
+
+  setChannelTypes(
+    ...channelTypes: APIChannelSelectComponent["channel_types"] & {}
+  ) {
+    this.data.channel_types = channelTypes;
+    return this;
+  }
+}
+
+export type AnySelectMenuBuilder =
+  | StringSelectMenuBuilder
+  | UserSelectMenuBuilder
+  | RoleSelectMenuBuilder
+  | MentionableSelectMenuBuilder
+  | ChannelSelectMenuBuilder;
+
+export class TextInputBuilder {
+  data: Partial<APITextInputComponent>;
+
+  constructor(data: Partial<APITextInputComponent> = {}) {
+    this.data = {
+      style: TextInputStyle.Short,
+      ...data,
+      type: ComponentType.TextInput,
+    };
+  }
+
+  setCustomId(customId: string) {
+    checkLength("Text input custom id", customId, ComponentLimits.CustomId);
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  setLabel(label: string) {
+    checkLength("Text input label", label, ComponentLimits.TextInputLabel);
+    this.data.label = label;
+    return this;
+  }
+
+  setStyle(style: TextInputStyle) {
+    this.data.style = style;
+    return this;
+  }
+
+  setMinLength(minLength: number) {
+    checkRange(
+      "Text input min length",
+      minLength,
+      0,
+      ComponentLimits.TextInputLength,
+    );
+    this.data.min_length = minLength;
+    return this;
+  }
+
+  setMaxLength(maxLength: number) {
+    checkRange(
+      "Text input max length",
+      maxLength,
+      1,
+      ComponentLimits.TextInputLength,
+    );
+    this.data.max_length = maxLength;
+    return this;
+  }
+
+  setPlaceholder(placeholder: string) {
+    checkLength(
+      "Text input placeholder",
+      placeholder,
+      ComponentLimits.TextInputPlaceholder,
+    );
+    this.data.placeholder = placeholder;
+    return this;
+  }
+
+  setValue(value: string) {
+    checkLength("Text input value", value, ComponentLimits.TextInputLength);
+    this.data.value = value;
+    return this;
+  }
+
+  setRequired(required = true) {
+    this.data.required = required;
+    return this;
+  }
+
+  toJSON(): APITextInputComponent {
+    if (!this.data.custom_id || !this.data.label) {
+      throw InvalidComponentError(
+        "Text input custom id and label are required",
+      );
+    }
+
+    return { ...this.data } as APITextInputComponent;
+  }
+}
+
+export type MessageActionRowComponentBuilder =
+  | ButtonBuilder
+  | AnySelectMenuBuilder;
+
+export class ActionRowBuilder<
+  C extends
+    | MessageActionRowComponentBuilder
+    | TextInputBuilder = MessageActionRowComponentBuilder,
+> {
+  components: C[];
+
+  constructor(...components: C[]) {
+    this.components = [];
+    this.addComponents(...components);
+  }
+
+  /**
+   * Add components in this row,
+   * a row has up to 5 buttons, a select menu or a text input
+   */
+  addComponents(...components: C[]) {
+    const all = [...this.components, ...components];
+    const buttons = all.filter((c) => c instanceof ButtonBuilder).length;
+
+    if (buttons && buttons !== all.length) {
+      throw InvalidComponentError(
+        "Action row can't mix buttons with other components",
+      );
+    }
+
+    if (buttons > ComponentLimits.ActionRowButtons) {
+      throw InvalidComponentError(
+        `Action row must have at most ${ComponentLimits.ActionRowButtons} buttons`,
+      );
+    }
+
+    if (!buttons && all.length > 1) {
+      throw InvalidComponentError(
+        "Action row must have only one select menu or text input",
+      );
+    }
+
+    this.components = all;
+    return this;
+  }
+
+  toJSON(): APIActionRowComponent<
+    C extends TextInputBuilder
+      ? APIModalActionRowComponent
+      : APIMessageActionRowComponent
+  > {
+    if (!this.components.length) {
+      throw InvalidComponentError(
+        "Action row must have at least one component",
+      );
+    }
+
+    return {
+      type: ComponentType.ActionRow,
+      components: this.components.map((component) =>
+        component.toJSON(),
+      ) as any[],
+    };
+  }
+
+  /**
+   * Get the json of rows of a message
+   * @param rows The action rows, up to 5
+   */
+  static build(...rows: ActionRowBuilder<MessageActionRowComponentBuilder>[]) {
+    if (rows.length > ComponentLimits.ActionRows) {
+      throw InvalidComponentError(
+        `Message must have at most ${ComponentLimits.ActionRows} action rows`,
+      );
+    }
+
+    return rows.map((row) => row.toJSON());
+  }
+}
+
+export class ModalBuilder {
+  data: Partial<Omit<APIModalInteractionResponseCallbackData, "components">>;
+  components: ActionRowBuilder<TextInputBuilder>[];
+
+  constructor(
+    data: Partial<
+      Omit<APIModalInteractionResponseCallbackData, "components">
+    > = {},
+  ) {
+    this.data = { ...data };
+    this.components = [];
+  }
+
+  setCustomId(customId: string) {
+    checkLength("Modal custom id", customId, ComponentLimits.CustomId);
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  setTitle(title: string) {
+    checkLength("Modal title", title, ComponentLimits.ModalTitle);
+    this.data.title = title;
+    return this;
+  }
+
+  /**
+   * Add action rows in this modal, up to 5
+   */
+  addComponents(...rows: ActionRowBuilder<TextInputBuilder>[]) {
+    if (this.components.length + rows.length > ComponentLimits.ActionRows) {
+      throw InvalidComponentError(
+        `Modal must have at most ${ComponentLimits.ActionRows} action rows`,
+      );
+    }
+
+    this.components.push(...rows);
+    return this;
+  }
+
+  /**
+   * Add text inputs in this modal, each one in a action row
+   */
+  addTextInputs(...inputs: TextInputBuilder[]) {
+    return this.addComponents(
+      ...inputs.map((input) => new ActionRowBuilder(input)),
+    );
+  }
+
+  toJSON(): APIModalInteractionResponseCallbackData {
+    if (!this.data.custom_id || !this.data.title) {
+      throw InvalidComponentError("Modal custom id and title are required");
+    }
+
+    if (!this.components.length) {
+      throw InvalidComponentError("Modal must have at least one action row");
+    }
+
+    return {
+      custom_id: this.data.custom_id,
+      title: this.data.title,
+      components: this.components.map((row) => row.toJSON()),
+    };
+  }
+}
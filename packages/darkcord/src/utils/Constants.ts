@@ -1,5 +1,6 @@
 import type { MessageTimestampStyle } from "@typings/index";
 
+export { PollLayoutType } from "@darkcord/utils";
 export { GatewayStatus, ShardEvents } from "@darkcord/ws";
 
 export enum Events {
@@ -31,6 +32,8 @@ export enum Events {
   MessageSuperReactionRemove = "messageSuperReactionRemove",
   MessageReactionRemoveAll = "messageReactionRemoveAll",
   MessageReactionRemoveEmoji = "messageReactionRemoveEmoji",
+  MessagePollVoteAdd = "messagePollVoteAdd",
+  MessagePollVoteRemove = "messagePollVoteRemove",
   TypingStart = "typingStart",
 
   // Interaction
@@ -56,6 +59,7 @@ export enum Events {
   GuildMemberAdd = "guildMemberAdd",
   GuildMemberRemove = "guildMemberRemove",
   GuildMemberUpdate = "guildMemberUpdate",
+  PresenceUpdate = "presenceUpdate",
   GuildIntegrationsUpdate = "guildIntegrationsUpdate",
   GuildRoleCreate = "guildRoleCreate",
   GuildRoleDelete = "guildRoleDelete",
@@ -66,6 +70,12 @@ export enum Events {
   GuildScheduledEventUserAdd = "guildScheduledEventUserAdd",
   GuildScheduledEventUserRemove = "guildScheduledEventUserRemove",
 
+  // Auto Moderation
+  AutoModerationRuleCreate = "autoModerationRuleCreate",
+  AutoModerationRuleUpdate = "autoModerationRuleUpdate",
+  AutoModerationRuleDelete = "autoModerationRuleDelete",
+  AutoModerationActionExecution = "autoModerationActionExecution",
+
   // Thread
   ThreadCreate = "threadCreate",
   ThreadDelete = "threadDelete",
@@ -111,6 +121,33 @@ export enum Events {
 export const InvitePattern =
   /discord(?:(?:app)?\.com\/invite|\.gg(?:\/invite)?)\/(?<code>[\w-]{2,255})/i;
 
+/**
+ * Time limits to use interactions, in milliseconds
+ */
+export const InteractionTimeouts = {
+  InitialResponse: 3_000,
+  Token: 15 * 60_000,
+};
+
+/**
+ * Limits of message components and modals
+ */
+export const ComponentLimits = {
+  ActionRows: 5,
+  ActionRowButtons: 5,
+  CustomId: 100,
+  ButtonLabel: 80,
+  SelectMenuOptions: 25,
+  SelectMenuPlaceholder: 150,
+  SelectMenuOptionLabel: 100,
+  SelectMenuOptionValue: 100,
+  SelectMenuOptionDescription: 100,
+  TextInputLabel: 45,
+  TextInputPlaceholder: 100,
+  TextInputLength: 4_000,
+  ModalTitle: 45,
+} as const;
+
 export function timestampFormat<S extends MessageTimestampStyle>(
   time: number | string,
   style?: S,
@@ -167,6 +204,7 @@ export {
   AutoModerationRuleTriggerType,
   GuildScheduledEventEntityType,
   TextInputStyle,
+  ButtonStyle,
   ApplicationCommandPermissionType,
   AutoModerationRuleKeywordPresetType,
   ApplicationRoleConnectionMetadataType,
@@ -0,0 +1,47 @@
+import type { AnyClient } from "@typings/index";
+import { Events } from "@utils/Constants";
+import type EventEmitter from "node:events";
+
+export interface RunHandlerOptions {
+  /**
+   * Event emitted with the error and args when the handler fails
+   */
+  errorEvent: string;
+  /**
+   * Arguments of the error event, after the error
+   */
+  args: unknown[];
+  /**
+   * Name of the handler in the warning emitted when the error event has no listeners
+   */
+  name: string;
+}
+
+/**
+ * Run the handler of an interaction, errors are emitted in the error event
+ * or as a client warning
+ *
+ * Errors are never thrown, the handle promise is not awaited by the listener
+ * @returns Always true, the interaction was handled
+ */
+export async function runHandler(
+  emitter: EventEmitter,
+  client: AnyClient,
+  options: RunHandlerOptions,
+  fn: () => unknown,
+) {
+  try {
+    await fn();
+  } catch (err) {
+    if (emitter.listenerCount(options.errorEvent)) {
+      emitter.emit(options.errorEvent, err, ...options.args);
+    } else {
+      (client as EventEmitter).emit(
+        Events.Warn,
+        `${options.name} failed: ${err}`,
+      );
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,82 @@
+import { Snowflake } from "@resources/Base";
+
+export interface Page<T> {
+  items: T[];
+  /**
+   * Whether there are more items after this page, guessed from the page size if not present
+   */
+  hasMore?: boolean;
+}
+
+export interface PaginateOptions<T> {
+  /**
+   * Request a page of items
+   * @param cursor The cursor of page, undefined in the first page if no cursor was given
+   * @param limit Max number of items in the page
+   */
+  fetch(cursor: string | undefined, limit: number): Promise<T[] | Page<T>>;
+  /**
+   * Get the cursor of next page from the items of current page
+   */
+  next(items: T[]): string;
+  /**
+   * The cursor of first page
+   */
+  cursor?: string;
+  /**
+   * Max number of items to iterate
+   * @default Infinity
+   */
+  limit?: number;
+  /**
+   * Max number of items requested per page
+   */
+  pageSize: number;
+}
+
+/**
+ * Iterate the items of a paginated endpoint, requesting the next page only when the previous one was consumed
+ *
+ * Pages are requested one at a time, so the requests go through the rate limit buckets in order
+ */
+export async function* paginate<T>(options: PaginateOptions<T>) {
+  let cursor = options.cursor;
+  let remaining = options.limit ?? Infinity;
+
+  while (remaining > 0) {
+    const limit = Math.min(remaining, options.pageSize);
+    const result = await options.fetch(cursor, limit);
+    const page = Array.isArray(result) ? { items: result } : result;
+
+    for (const item of page.items.slice(0, remaining)) {
+      yield item;
+    }
+
+    remaining -= page.items.length;
+
+    if (!page.items.length || !(page.hasMore ?? page.items.length >= limit)) {
+      break;
+    }
+
+    cursor = options.next(page.items);
+  }
+}
+
+/**
+ * Create a function that gets the cursor of next page by the snowflakes of items
+ * @param direction "before" to continue from the oldest item, "after" to continue from the newest
+ * @param getId Get the snowflake of an item
+ */
+export function snowflakeCursor<T>(
+  direction: "before" | "after",
+  getId: (item: T) => string,
+) {
+  const sign = direction === "before" ? -1 : 1;
+
+  return (items: T[]) =>
+    items
+      .map(getId)
+      .reduce((cursor, id) =>
+        Snowflake.compare(id, cursor) * sign > 0 ? id : cursor,
+      );
+}
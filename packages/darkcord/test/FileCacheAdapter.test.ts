@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { FileCacheAdapter, InteractionClient, User } from "../src";
+
+const publicKey = "00".repeat(32);
+
+describe("FileCacheAdapter", () => {
+  let directory: string;
+
+  const createClient = (file: string) =>
+    new InteractionClient(publicKey, {
+      webserver: {},
+      cache: { adapter: new FileCacheAdapter({ path: file, flushDelay: 0 }) },
+    });
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "darkcord-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("rehydrates the updated values of structures", async () => {
+    const file = path.join(directory, "users.json");
+    const client = createClient(file);
+    const user = {
+      id: "1",
+      username: "first",
+      discriminator: "0",
+      global_name: null,
+      avatar: null,
+    };
+
+    client.users.add(user);
+    client.users.add({ ...user, username: "second" }, false);
+
+    await client.users.cache.adapter!.pending;
+    await (client.users.cache.adapter!.store as FileCacheAdapter).flush();
+
+    const rehydrated = await createClient(file).users.cache.resolve("1");
+
+    assert.ok(rehydrated instanceof User);
+    assert.equal(rehydrated.username, "second");
+  });
+});
@@ -0,0 +1,13 @@
+import type { WebServer } from "../web/index";
+import { createNodeMiddleware } from "./node";
+
+/**
+ * Create an Express middleware, it must be used before body parsers
+ * unless they keep the raw body
+ * @param webserver The webserver handling the requests
+ * @example
+ * app.use(createExpressMiddleware(client.webserver));
+ */
+export function createExpressMiddleware(webserver: WebServer) {
+  return createNodeMiddleware(webserver);
+}
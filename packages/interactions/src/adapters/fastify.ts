@@ -0,0 +1,77 @@
+import type { IncomingHttpHeaders } from "node:http";
+import type { WebServer } from "../web/index";
+import { toFetchRequest } from "./node";
+
+export interface FastifyRequestLike {
+  method: string;
+  headers: IncomingHttpHeaders;
+  body?: unknown;
+}
+
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(key: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+export interface FastifyInstanceLike {
+  post(
+    path: string,
+    handler: (
+      request: FastifyRequestLike,
+      reply: FastifyReplyLike,
+    ) => Promise<unknown>,
+  ): unknown;
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: "buffer" },
+    parser: (
+      request: unknown,
+      body: Buffer,
+      done: (err: Error | null, body?: unknown) => void,
+    ) => void,
+  ): unknown;
+}
+
+/**
+ * Create a Fastify plugin registering the routes of the webserver
+ * @param webserver The webserver handling the requests
+ * @example
+ * fastify.register(createFastifyPlugin(client.webserver));
+ */
+export function createFastifyPlugin(webserver: WebServer) {
+  return (
+    fastify: FastifyInstanceLike,
+    _options: unknown,
+    done: () => void,
+  ) => {
+    // Signatures are verified with the raw body, the parser only applies to this plugin
+    fastify.addContentTypeParser(
+      "application/json",
+      { parseAs: "buffer" },
+      (_request, body, parsed) => parsed(null, body),
+    );
+
+    for (const route of [webserver.route, webserver.webhookEventsRoute]) {
+      if (!route) continue;
+
+      fastify.post(route, async (request, reply) => {
+        const response = await webserver.handleRequest(
+          toFetchRequest(
+            route,
+            request.method,
+            request.headers,
+            request.body as Buffer | undefined,
+          ),
+        );
+
+        reply.code(response.status);
+        response.headers.forEach((value, key) => reply.header(key, value));
+
+        return reply.send(Buffer.from(await response.arrayBuffer()));
+      });
+    }
+
+    done();
+  };
+}
@@ -0,0 +1,4 @@
+export * from "./express";
+export * from "./fastify";
+export * from "./koa";
+export * from "./node";
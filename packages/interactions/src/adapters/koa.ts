@@ -0,0 +1,49 @@
+import type { IncomingHttpHeaders } from "node:http";
+import type { WebServer } from "../web/index";
+import {
+  bodyTooLargeResponse,
+  NodeRequest,
+  readNodeBody,
+  toFetchRequest,
+} from "./node";
+
+export interface KoaContextLike {
+  req: NodeRequest;
+  request: { rawBody?: string };
+  path: string;
+  method: string;
+  headers: IncomingHttpHeaders;
+  status: number;
+  body: unknown;
+  set(field: string, value: string): void;
+}
+
+/**
+ * Create a Koa middleware, requests to other routes are passed to next
+ * @param webserver The webserver handling the requests
+ * @example
+ * app.use(createKoaMiddleware(client.webserver));
+ */
+export function createKoaMiddleware(webserver: WebServer) {
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    if (!webserver.routeOf(ctx.path)) return next();
+
+    const body =
+      ctx.request.rawBody ??
+      (await readNodeBody(ctx.req, webserver.verifier.maxBodySize));
+    const response =
+      body === null
+        ? bodyTooLargeResponse()
+        : await webserver.handleRequest(
+            toFetchRequest(ctx.path, ctx.method, ctx.headers, body),
+          );
+
+    ctx.status = response.status;
+    response.headers.forEach((value, key) => ctx.set(key, value));
+
+    const data = Buffer.from(await response.arrayBuffer());
+
+    // Koa changes the status when an empty body is set
+    if (data.length) ctx.body = data;
+  };
+}
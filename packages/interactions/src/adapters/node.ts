@@ -0,0 +1,178 @@
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "node:http";
+import type { RawWebServerResponse, WebServer } from "../web/index";
+
+export type NextFunction = (err?: unknown) => void;
+
+export type NodeRequest = IncomingMessage & {
+  /**
+   * Url before being rewritten by a router, set by Express
+   */
+  originalUrl?: string;
+  /**
+   * Body read by a body parser
+   */
+  body?: unknown;
+  rawBody?: unknown;
+};
+
+/**
+ * Read the body of a request, a raw body already read by a parser is reused
+ * @param req The request
+ * @param maxBodySize Size in bytes to stop reading the body
+ * @returns The body, or null if it is larger than the limit
+ */
+export function readNodeBody(req: NodeRequest, maxBodySize = Infinity) {
+  const read = req.rawBody ?? req.body;
+
+  if (typeof read === "string" || Buffer.isBuffer(read)) {
+    return Promise.resolve(Buffer.from(read));
+  }
+
+  if (Number(req.headers["content-length"]) > maxBodySize) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise<Buffer | null>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.off("error", onError);
+    };
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+
+      if (size > maxBodySize) {
+        // Stop receiving the body, the connection is closed by the 413 response
+        cleanup();
+        req.unpipe();
+        req.pause();
+        return resolve(null);
+      }
+
+      chunks.push(chunk);
+    };
+
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", onError);
+  });
+}
+
+/**
+ * Create the response sent when a body is larger than the limit,
+ * it closes the connection so the rest of the body is not received
+ */
+export function bodyTooLargeResponse() {
+  return new Response("Darkcord Error: Request body too large", {
+    status: 413,
+    headers: { Connection: "close" },
+  });
+}
+
+/**
+ * Create a request using Fetch API
+ * @param path The path of the request
+ * @param method The request method
+ * @param headers The request headers
+ * @param body The request body
+ */
+export function toFetchRequest(
+  path: string,
+  method: string,
+  headers: IncomingHttpHeaders,
+  body?: Buffer | string,
+) {
+  const requestHeaders = new Headers();
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+
+    for (const v of Array.isArray(value) ? value : [value]) {
+      requestHeaders.append(key, v);
+    }
+  }
+
+  return new Request(new URL(path, `http://${headers.host ?? "localhost"}`), {
+    method,
+    headers: requestHeaders,
+    body: method === "GET" || method === "HEAD" ? undefined : body,
+  });
+}
+
+/**
+ * Write a response of Fetch API in a node response
+ * @param res The node response
+ * @param response The response to write
+ */
+export async function sendNodeResponse(
+  res: ServerResponse,
+  response: Response,
+) {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  const body = Buffer.from(await response.arrayBuffer());
+
+  res.writeHead(response.status, headers);
+  res.end(body.length ? body : undefined);
+}
+
+/**
+ * Create a middleware for node http servers and connect based frameworks,
+ * requests to other routes are passed to next or answered with 404
+ * @param webserver The webserver handling the requests
+ * @example
+ * http.createServer(createNodeMiddleware(webserver)).listen(8080);
+ */
+export function createNodeMiddleware(webserver: WebServer) {
+  return async (req: NodeRequest, res: ServerResponse, next?: NextFunction) => {
+    const path = req.originalUrl ?? req.url ?? "/";
+
+    if (!webserver.routeOf(new URL(path, "http://localhost").pathname)) {
+      if (next) return next();
+
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    webserver.emit("data", req, res as RawWebServerResponse);
+
+    try {
+      const body = await readNodeBody(req, webserver.verifier.maxBodySize);
+      const response =
+        body === null
+          ? bodyTooLargeResponse()
+          : await webserver.handleRequest(
+              toFetchRequest(path, req.method ?? "GET", req.headers, body),
+            );
+
+      await sendNodeResponse(res, response);
+    } catch (err) {
+      if (next) return next(err);
+
+      res.writeHead(500);
+      res.end();
+    }
+  };
+}
@@ -1,2 +1,4 @@
+export * from "./adapters/index";
 export * from "./middleware/index";
+export * from "./types";
 export * from "./web/index";
@@ -8,6 +8,35 @@ import {
   IncomingMessage as Request,
   ServerResponse as Response,
 } from "node:http";
+import { readNodeBody } from "../adapters/node";
+import { APIWebhookEvent } from "../types";
+
+const algorithm = "Ed25519";
+const publicKeys = new Map<string, Promise<crypto.webcrypto.CryptoKey>>();
+
+/**
+ * Import a public key, imported keys are cached
+ * @param publicKey The public key in hex
+ */
+export function importPublicKey(publicKey: string) {
+  let key = publicKeys.get(publicKey);
+
+  if (!key) {
+    key = crypto.webcrypto.subtle.importKey(
+      "raw",
+      Buffer.from(publicKey, "hex"),
+      algorithm,
+      true,
+      ["verify"],
+    );
+
+    // Don't keep invalid keys
+    key.catch(() => publicKeys.delete(publicKey));
+    publicKeys.set(publicKey, key);
+  }
+
+  return key;
+}
 
 export async function verify(
   rawBody: string,
@@ -17,60 +46,243 @@ export async function verify(
 ) {
   const messageBuffer = Buffer.from(timestamp + rawBody);
   const signatureBuffer = Buffer.from(signature, "hex");
-  const publicKeyBuffer = Buffer.from(publicKey, "hex");
-
-  const algorithm = "Ed25519";
-  const key = await crypto.webcrypto.subtle.importKey(
-    "raw",
-    publicKeyBuffer,
-    algorithm,
-    true,
-    ["verify"],
-  );
 
   return crypto.webcrypto.subtle.verify(
     algorithm,
-    key,
+    await importPublicKey(publicKey),
     signatureBuffer,
     messageBuffer,
   );
 }
 
-export function verifyKeyMiddleware(publicKey: string) {
-  return (req: Request, res: Response) => {
-    const timestamp = req.headers["x-signature-timestamp"] as string;
-    const signature = req.headers["x-signature-ed25519"] as string;
-
-    const chunks: Buffer[] = [];
-
-    return new Promise<APIInteraction>((resolve) => {
-      req.on("data", (chunk) => {
-        chunks.push(chunk);
-      });
-
-      req.on("end", async () => {
-        const rawBody = Buffer.concat(chunks).toString("utf8");
-        const body = JSON.parse(rawBody) as APIInteraction;
-
-        if (!(await verify(rawBody, publicKey, signature, timestamp))) {
-          res.statusCode = 401;
-          res.end("Darkcord Error: Invalid signature");
-          return;
-        }
-
-        if (body.type === InteractionType.Ping) {
-          // Responding ping
-          res.setHeader("Content-Type", "application/json");
-          res.statusCode = 200;
-          res.end(
-            JSON.stringify({
-              type: InteractionResponseType.Pong,
-            }),
-          );
-        }
-
-        resolve(body);
-      });
-    });
+export interface VerifyKeyOptions {
+  /**
+   * Maximum difference in seconds between the signature timestamp and now,
+   * 0 to disable
+   * @default 300
+   */
+  timestampWindow?: number;
+  /**
+   * Maximum size of request bodies in bytes
+   * @default 1048576
+   */
+  maxBodySize?: number;
+  /**
+   * Reject requests already received, interaction ids or signatures of
+   * webhook events are cached for the timestamp window
+   * @default false
+   */
+  replayCache?: boolean | ReplayCache;
+}
+
+export interface VerifyFailure {
+  status: 400 | 401 | 413;
+  message: string;
+}
+
+export type VerifyResult<T> =
+  | { body: T; failure?: undefined }
+  | { body?: undefined; failure: VerifyFailure };
+
+/**
+ * Cache of received keys, to reject replayed requests
+ */
+export class ReplayCache {
+  #entries = new Map<string, number>();
+  /**
+   * @param ttl Milliseconds to keep keys
+   * @param maxSize Maximum amount of keys, the oldest are removed first
+   */
+  constructor(public ttl = 300_000, public maxSize = 10_000) {}
+
+  get size() {
+    return this.#entries.size;
+  }
+
+  /**
+   * Add a key to the cache
+   * @param key The key
+   * @returns false if the key was already cached
+   */
+  add(key: string) {
+    const now = Date.now();
+
+    // Keys are added in expiration order
+    for (const [cached, expiresAt] of this.#entries) {
+      if (expiresAt > now) break;
+      this.#entries.delete(cached);
+    }
+
+    if (this.#entries.has(key)) return false;
+
+    if (this.#entries.size >= this.maxSize) {
+      this.#entries.delete(this.#entries.keys().next().value!);
+    }
+
+    this.#entries.set(key, now + this.ttl);
+    return true;
+  }
+
+  clear() {
+    this.#entries.clear();
+  }
+}
+
+const fail = (status: VerifyFailure["status"], message: string) => ({
+  failure: { status, message: `Darkcord Error: ${message}` },
+});
+
+/**
+ * Verify requests sent by Discord
+ */
+export class RequestVerifier {
+  timestampWindow: number;
+  maxBodySize: number;
+  replayCache: ReplayCache | null;
+  constructor(public publicKey: string, options: VerifyKeyOptions = {}) {
+    this.timestampWindow = options.timestampWindow ?? 300;
+    this.maxBodySize = options.maxBodySize ?? 1_048_576;
+    this.replayCache =
+      options.replayCache === true
+        ? new ReplayCache((this.timestampWindow || 300) * 1000)
+        : options.replayCache || null;
+  }
+
+  /**
+   * Verify the signature, timestamp and size of a request and parse its body
+   * @param rawBody The request body
+   * @param signature The x-signature-ed25519 header
+   * @param timestamp The x-signature-timestamp header
+   */
+  async verify<T>(
+    rawBody: string,
+    signature: string | null | undefined,
+    timestamp: string | null | undefined,
+  ): Promise<VerifyResult<T>> {
+    if (Buffer.byteLength(rawBody) > this.maxBodySize) {
+      return fail(413, "Request body too large");
+    }
+
+    if (!signature || !/^[\da-f]{128}$/i.test(signature) || !timestamp) {
+      return fail(401, "Invalid signature");
+    }
+
+    const seconds = Number(timestamp);
+    if (
+      !/^\d+$/.test(timestamp) ||
+      (this.timestampWindow > 0 &&
+        Math.abs(Date.now() / 1000 - seconds) > this.timestampWindow)
+    ) {
+      return fail(401, "Invalid timestamp");
+    }
+
+    if (!(await verify(rawBody, this.publicKey, signature, timestamp))) {
+      return fail(401, "Invalid signature");
+    }
+
+    let body: T;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return fail(400, "Invalid body");
+    }
+
+    if (this.replayCache) {
+      const id = (body as { id?: unknown } | null)?.id;
+      const key = typeof id === "string" ? id : signature.toLowerCase();
+
+      if (!this.replayCache.add(key)) {
+        return fail(401, "Request already received");
+      }
+    }
+
+    return { body };
+  }
+}
+
+/**
+ * Read and verify the body of a request, replies with the failure status
+ * @returns The parsed body or null if the request was rejected
+ */
+async function readVerifiedBody<T>(
+  verifier: RequestVerifier,
+  req: Request,
+  res: Response,
+) {
+  const rawBody = await readNodeBody(req, verifier.maxBodySize);
+
+  const result =
+    rawBody === null
+      ? fail(413, "Request body too large")
+      : await verifier.verify<T>(
+          rawBody.toString("utf8"),
+          req.headers["x-signature-ed25519"] as string | undefined,
+          req.headers["x-signature-timestamp"] as string | undefined,
+        );
+
+  if (result.failure) {
+    // Don't receive the rest of a body too large
+    if (result.failure.status === 413) res.setHeader("Connection", "close");
+
+    res.statusCode = result.failure.status;
+    res.end(result.failure.message);
+    return null;
+  }
+
+  return result.body;
+}
+
+/**
+ * Create a middleware verifying interactions, pings are responded
+ * @param publicKey The public key of the application
+ * @param options The options to verify requests
+ * @returns A function resolving the interaction, or null if the request was rejected and responded
+ */
+export function verifyKeyMiddleware(
+  publicKey: string,
+  options?: VerifyKeyOptions,
+) {
+  const verifier = new RequestVerifier(publicKey, options);
+
+  return async (req: Request, res: Response) => {
+    const body = await readVerifiedBody<APIInteraction>(verifier, req, res);
+
+    if (body?.type === InteractionType.Ping) {
+      // Responding ping
+      res.setHeader("Content-Type", "application/json");
+      res.statusCode = 200;
+      res.end(
+        JSON.stringify({
+          type: InteractionResponseType.Pong,
+        }),
+      );
+    }
+
+    return body;
+  };
+}
+
+/**
+ * Create a middleware verifying webhook events, every accepted request is responded
+ * @param publicKey The public key of the application
+ * @param options The options to verify requests
+ * @returns A function resolving the webhook event, or null if the request was rejected
+ */
+export function verifyWebhookEventMiddleware(
+  publicKey: string,
+  options?: VerifyKeyOptions,
+) {
+  const verifier = new RequestVerifier(publicKey, options);
+
+  return async (req: Request, res: Response) => {
+    const body = await readVerifiedBody<APIWebhookEvent>(verifier, req, res);
+
+    if (body) {
+      // Discord expects 204 for pings and events
+      res.statusCode = 204;
+      res.end();
+    }
+
+    return body;
   };
 }
@@ -0,0 +1,90 @@
+import {
+  APIEntitlement,
+  APIGuild,
+  APIUser,
+  OAuth2Scopes,
+} from "discord-api-types/v10";
+
+export enum ApplicationWebhookType {
+  /**
+   * Sent by Discord to test the url
+   */
+  Ping,
+  /**
+   * Contains an event
+   */
+  Event,
+}
+
+export enum ApplicationWebhookEventType {
+  ApplicationAuthorized = "APPLICATION_AUTHORIZED",
+  ApplicationDeauthorized = "APPLICATION_DEAUTHORIZED",
+  EntitlementCreate = "ENTITLEMENT_CREATE",
+}
+
+export interface APIApplicationAuthorizedEventData {
+  /**
+   * Installation context for the authorization, 0 for guild and 1 for user
+   */
+  integration_type?: number;
+  /**
+   * User who authorized the app
+   */
+  user: APIUser;
+  /**
+   * List of scopes the user authorized
+   */
+  scopes: OAuth2Scopes[];
+  /**
+   * Server which app was authorized for, only in guild installations
+   */
+  guild?: APIGuild;
+}
+
+export interface APIApplicationDeauthorizedEventData {
+  /**
+   * User who deauthorized the app
+   */
+  user: APIUser;
+}
+
+export interface APIWebhookEventBodyBase<
+  T extends ApplicationWebhookEventType,
+  D,
+> {
+  type: T;
+  /**
+   * ISO8601 timestamp of when the event occurred
+   */
+  timestamp: string;
+  data: D;
+}
+
+export type APIWebhookEventBody =
+  | APIWebhookEventBodyBase<
+      ApplicationWebhookEventType.ApplicationAuthorized,
+      APIApplicationAuthorizedEventData
+    >
+  | APIWebhookEventBodyBase<
+      ApplicationWebhookEventType.ApplicationDeauthorized,
+      APIApplicationDeauthorizedEventData
+    >
+  | APIWebhookEventBodyBase<
+      ApplicationWebhookEventType.EntitlementCreate,
+      APIEntitlement
+    >;
+
+export interface APIWebhookEventPing {
+  version: 1;
+  application_id: string;
+  type: ApplicationWebhookType.Ping;
+}
+
+export interface APIWebhookEventEvent {
+  version: 1;
+  application_id: string;
+  type: ApplicationWebhookType.Event;
+  event: APIWebhookEventBody;
+}
+
+export type APIWebhookEvent = APIWebhookEventPing | APIWebhookEventEvent;
@@ -10,11 +10,28 @@ import {
   InteractionType,
 } from "discord-api-types/v10";
 import EventEmitter from "node:events";
-import { IncomingMessage, ServerResponse, createServer } from "node:http";
-import { verifyKeyMiddleware } from "../middleware/index";
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer,
+} from "node:http";
+import { createNodeMiddleware } from "../adapters/node";
+import { RequestVerifier, VerifyKeyOptions } from "../middleware/index";
+import {
+  APIWebhookEvent,
+  APIWebhookEventBody,
+  APIWebhookEventPing,
+  ApplicationWebhookType,
+} from "../types";
 
 export const LocalHost = "127.0.0.1";
 
+/**
+ * Milliseconds Discord waits for the initial response of a interaction
+ */
+export const InitialResponseTimeout = 3_000;
+
 export type RawWebServerResponse = ServerResponse<IncomingMessage> & {
   req: IncomingMessage;
 };
@@ -32,20 +49,75 @@ export interface WebServerEvents {
     response: InteractionResponse,
   ];
   interactionPingReceived: [];
+  interactionError: [error: unknown, interaction: APIInteraction];
+  webhookEventReceived: [event: APIWebhookEventBody, applicationId: string];
+  webhookEventPingReceived: [ping: APIWebhookEventPing];
 }
 
+export type WebServerRoute = "interactions" | "webhookEvents";
+
 export interface WebServerOptions {
   hostname?: string;
-  port: number;
+  /**
+   * Port used by {@link WebServer.listen}
+   */
+  port?: number;
   route?: string;
+  /**
+   * Route to receive webhook events, disabled if not set
+   */
+  webhookEventsRoute?: string;
+  /**
+   * Options to verify requests sent by Discord
+   */
+  verify?: VerifyKeyOptions;
   token?: string;
   publicKey: string;
 }
 
+/**
+ * Read the body of a request of Fetch API
+ * @returns The body, or null if it is larger than the limit
+ */
+async function readFetchBody(request: Request, maxBodySize: number) {
+  if (Number(request.headers.get("content-length")) > maxBodySize) return null;
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      return null;
+    }
+
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export class InteractionResponse {
+  /**
+   * The interaction is already responded
+   */
+  responded = false;
   constructor(
     public interaction: APIInteraction,
-    public res: RawWebServerResponse,
+    public respond: (response: Response) => void,
     public webserver: WebServer,
   ) {}
 
@@ -57,24 +129,49 @@ export class InteractionResponse {
       | APIModalInteractionResponseCallbackData,
     type: InteractionResponseType,
   ) {
+    if (this.responded) {
+      throw new Error("Interaction already responded");
+    }
+
+    this.responded = true;
+
     if ("files" in data && data.files?.length) {
-      await this.webserver.rest.respondInteraction(
-        this.interaction.id,
-        this.interaction.token,
-        data,
-        type,
-      );
+      try {
+        await this.webserver.rest.respondInteraction(
+          this.interaction.id,
+          this.interaction.token,
+          data,
+          type,
+        );
+      } catch (err) {
+        // The interaction can still be responded
+        this.responded = false;
+        throw err;
+      }
+
+      // Already responded with rest, only close the request
+      this.respond(new Response(null, { status: 204 }));
       return;
     }
 
-    this.res.setHeader("Content-Type", "application/json");
-    this.res.end(
-      JSON.stringify({
+    this.respond(
+      jsonResponse({
         data,
         type,
       }),
     );
   }
+
+  /**
+   * End the request without a interaction response,
+   * Discord shows the interaction as failed
+   */
+  fail() {
+    if (this.responded) return;
+
+    this.responded = true;
+    this.respond(new Response(null, { status: 500 }));
+  }
 }
 
 export declare interface WebServer {
@@ -93,10 +190,19 @@ export declare interface WebServer {
 }
 export class WebServer extends EventEmitter {
   rest: Rest;
-  port: number;
+  port: number | null;
   hostname: string;
   publicKey: string;
   route: string;
+  webhookEventsRoute: string | null;
+  /**
+   * Verifier of requests sent by Discord
+   */
+  verifier: RequestVerifier;
+  /**
+   * Server created by {@link WebServer.listen}
+   */
+  server?: Server;
   constructor(options: WebServerOptions) {
     super();
 
@@ -114,41 +220,141 @@ export class WebServer extends EventEmitter {
       this.rest.setToken(options.token);
     }
 
-    this.port = options.port;
+    this.port = options.port ?? null;
     this.hostname = options.hostname ?? LocalHost;
     this.publicKey = options.publicKey;
+    this.verifier = new RequestVerifier(options.publicKey, options.verify);
     this.route = options.route ?? "/";
+    this.webhookEventsRoute = options.webhookEventsRoute ?? null;
+
+    if (this.webhookEventsRoute === this.route) {
+      throw new TypeError("Webhook events route must differ from route");
+    }
+  }
+
+  /**
+   * Get which route of this webserver handles a path
+   * @param pathname The path of the request url
+   */
+  routeOf(pathname: string): WebServerRoute | null {
+    if (pathname === this.route) return "interactions";
+    if (this.webhookEventsRoute && pathname === this.webhookEventsRoute)
+      return "webhookEvents";
+    return null;
   }
 
+  /**
+   * Handle a request sent by Discord, resolves when it is responded
+   * @param request The request using Fetch API
+   * @returns The response to send
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    const route = this.routeOf(new URL(request.url).pathname);
+
+    if (!route) {
+      return new Response(null, { status: 404 });
+    }
+
+    if (request.method !== "POST") {
+      return new Response(null, { status: 405, headers: { Allow: "POST" } });
+    }
+
+    const rawBody = await readFetchBody(request, this.verifier.maxBodySize);
+    const result =
+      rawBody === null
+        ? {
+            failure: {
+              status: 413,
+              message: "Darkcord Error: Request body too large",
+            },
+          }
+        : await this.verifier.verify<APIInteraction | APIWebhookEvent>(
+            rawBody,
+            request.headers.get("x-signature-ed25519"),
+            request.headers.get("x-signature-timestamp"),
+          );
+
+    if (result.failure) {
+      return new Response(result.failure.message, {
+        status: result.failure.status,
+      });
+    }
+
+    return route === "interactions"
+      ? this._handleInteraction(result.body as APIInteraction)
+      : this._handleWebhookEvent(result.body as APIWebhookEvent);
+  }
+
+  /**
+   * Start a http server to receive requests
+   */
   listen() {
-    const server = createServer(async (req, res) => {
-      if (req.url !== this.route || req.method !== "POST") return;
+    const server = createServer(createNodeMiddleware(this));
+    this.server = server;
 
-      this.emit("data", req, res);
+    return new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port ?? 0, this.hostname, () => {
+        server.off("error", reject);
+        this.emit("listen", this);
+        resolve();
+      });
+    });
+  }
 
-      // Verify key and return parsed interaction
-      const interaction = await verifyKeyMiddleware(this.publicKey)(req, res);
+  /**
+   * Stop the http server started by {@link WebServer.listen}
+   */
+  close() {
+    return new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
 
-      if (interaction.type === InteractionType.Ping) {
-        this.emit("interactionPingReceived");
-      } else {
-        this.emit(
-          "interactionDataReceived",
-          interaction,
-          new InteractionResponse(interaction, res, this),
-        );
-      }
+      this.server.close(() => resolve());
+      this.server = undefined;
     });
+  }
+
+  _handleInteraction(interaction: APIInteraction) {
+    if (interaction.type === InteractionType.Ping) {
+      this.emit("interactionPingReceived");
+      return jsonResponse({ type: InteractionResponseType.Pong });
+    }
+
+    return new Promise<Response>((resolve) => {
+      // Discord stops waiting after the initial response window
+      const timeout = setTimeout(() => {
+        response.responded = true;
+        resolve(new Response(null, { status: 500 }));
+      }, InitialResponseTimeout);
+
+      const response = new InteractionResponse(
+        interaction,
+        (res) => {
+          clearTimeout(timeout);
+          resolve(res);
+        },
+        this,
+      );
 
-    return new Promise<void>((resolve, reject) => {
       try {
-        server.listen(this.port, this.hostname, () => {
-          this.emit("listen", this);
-          resolve();
-        });
+        if (!this.emit("interactionDataReceived", interaction, response)) {
+          response.fail();
+        }
       } catch (err) {
-        reject(err);
+        response.fail();
+        this.emit("interactionError", err, interaction);
       }
     });
   }
+
+  _handleWebhookEvent(body: APIWebhookEvent) {
+    if (body.type === ApplicationWebhookType.Ping) {
+      this.emit("webhookEventPingReceived", body);
+    } else {
+      this.emit("webhookEventReceived", body.event, body.application_id);
+    }
+
+    // Discord expects 204 for pings and events
+    return new Response(null, { status: 204 });
+  }
 }
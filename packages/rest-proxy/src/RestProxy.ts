@@ -0,0 +1,183 @@
+import { ProxyAuthorizationHeader, Rest } from "@darkcord/rest";
+import { MakeError } from "@darkcord/utils";
+import EventEmitter from "node:events";
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import { Response } from "undici";
+import { RestProxyEvents, RestProxyServerOptions } from "./types";
+import { APIPrefix, OmittedResponseHeaders } from "./utils/Constants";
+
+export declare interface RestProxy {
+  on<T extends keyof RestProxyEvents>(
+    event: T,
+    listener: (...args: RestProxyEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof RestProxyEvents>(
+    event: T,
+    listener: (...args: RestProxyEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof RestProxyEvents>(
+    event: T,
+    ...args: RestProxyEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Http server forwarding requests to Discord API,
+ * every caller shares the rate limit state of one {@link Rest}
+ */
+export class RestProxy extends EventEmitter {
+  server?: Server;
+  /**
+   * Rest used to forward requests, interceptors can be added to it
+   */
+  rest: Rest;
+  options: RestProxyServerOptions;
+
+  constructor(options: RestProxyServerOptions = {}) {
+    super();
+
+    this.options = options;
+    this.rest = new Rest(options.token, options.requestTimeout);
+
+    if (options.apiURL) {
+      this.rest.setAPIURL(options.apiURL);
+    }
+  }
+
+  /**
+   * The url used in rest.proxy.url client option
+   */
+  get url() {
+    if (!this.server) {
+      throw MakeError({
+        name: "RestProxyNotListening",
+        message: "The rest proxy is not listening",
+      });
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.hostname ?? "127.0.0.1"}:${port}/api/v10`;
+  }
+
+  /**
+   * Start the server
+   * @returns The url of the server
+   */
+  listen() {
+    return new Promise<string>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this._handleRequest(req, res).catch((err) => {
+          if (!res.headersSent) {
+            this._reply(res, 502, {
+              message: String(err?.message ?? err),
+              code: 0,
+            });
+          }
+
+          if (this.listenerCount("error")) this.emit("error", err);
+        });
+      });
+
+      server.once("error", reject);
+      server.listen(
+        this.options.port ?? 0,
+        this.options.hostname ?? "127.0.0.1",
+        () => {
+          server.off("error", reject);
+          this.emit("listening", this.url);
+          resolve(this.url);
+        },
+      );
+
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop the server
+   */
+  close() {
+    return new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
+
+      this.server.closeAllConnections?.();
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  async _handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const startedAt = Date.now();
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = (url.pathname.replace(APIPrefix, "") || "/") + url.search;
+    const method = req.method ?? "GET";
+
+    const authorization = this.options.authorization;
+    if (
+      authorization &&
+      req.headers[ProxyAuthorizationHeader.toLowerCase()] !== authorization
+    ) {
+      this._reply(res, 401, { message: "401: Unauthorized", code: 0 });
+      this.emit("request", {
+        method,
+        route,
+        status: 401,
+        duration: Date.now() - startedAt,
+      });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+
+    const body = Buffer.concat(chunks);
+    const headers: Record<string, string> = {};
+
+    if (req.headers.authorization) {
+      headers.Authorization = req.headers.authorization;
+    }
+
+    const reason = req.headers["x-audit-log-reason"];
+    if (typeof reason === "string") {
+      headers["X-Audit-Log-Reason"] = reason;
+    }
+
+    const response = (await this.rest.requestHandler.request(route, method, {
+      body: body.length ? body : undefined,
+      contentType: req.headers["content-type"],
+      headers,
+      raw: true,
+    })) as Response;
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!OmittedResponseHeaders.includes(key)) responseHeaders[key] = value;
+    });
+
+    const data = Buffer.from(await response.arrayBuffer());
+
+    res.writeHead(response.status, responseHeaders);
+    res.end(data.length ? data : undefined);
+
+    this.emit("request", {
+      method,
+      route,
+      status: response.status,
+      duration: Date.now() - startedAt,
+    });
+  }
+
+  _reply(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
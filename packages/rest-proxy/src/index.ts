@@ -0,0 +1,3 @@
+export * from "./RestProxy";
+export * from "./types";
+export * from "./utils/Constants";
@@ -0,0 +1,52 @@
+export interface RestProxyServerOptions {
+  /**
+   * Port of the server, a random port is used by default
+   */
+  port?: number;
+  /**
+   * Hostname of the server
+   * @default "127.0.0.1"
+   */
+  hostname?: string;
+  /**
+   * Token used when the caller does not send a authorization header
+   */
+  token?: string;
+  /**
+   * Value of the X-Proxy-Authorization header callers must send,
+   * any caller is accepted if not set
+   */
+  authorization?: string;
+  /**
+   * Base url which requests are forwarded to
+   * @default "https://discord.com/api/v10"
+   */
+  apiURL?: string;
+  /**
+   * Time in milliseconds to wait for Discord to respond
+   * @default 15_000
+   */
+  requestTimeout?: number;
+}
+
+export interface RestProxyRequest {
+  method: string;
+  /**
+   * The route without the api prefix, including the query string
+   */
+  route: string;
+  /**
+   * Status sent to the caller
+   */
+  status: number;
+  /**
+   * Time in milliseconds spent handling the request, including rate limit waits
+   */
+  duration: number;
+}
+
+export interface RestProxyEvents {
+  listening: [url: string];
+  request: [request: RestProxyRequest];
+  error: [error: unknown];
+}
@@ -0,0 +1,12 @@
+export const APIPrefix = /^\/api(\/v\d+)?/;
+
+/**
+ * Headers of the upstream response which are not sent to callers
+ */
+export const OmittedResponseHeaders = [
+  "connection",
+  "content-encoding",
+  "content-length",
+  "keep-alive",
+  "transfer-encoding",
+];
@@ -0,0 +1,163 @@
+import { Rest } from "@darkcord/rest";
+import { MockRest } from "@darkcord/testing";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { Response } from "undici";
+import { RestProxy } from "../src";
+
+const authorization = "proxy-secret";
+
+describe("RestProxy", () => {
+  const upstream = new MockRest();
+  const proxy = new RestProxy({ authorization });
+  let callers: [Rest, Rest];
+
+  const rawGet = (rest: Rest, route: string) =>
+    rest.requestHandler.request(route, "GET", {
+      raw: true,
+    }) as Promise<Response>;
+
+  before(async () => {
+    proxy.rest.setAPIURL(await upstream.listen());
+    const url = await proxy.listen();
+
+    callers = [new Rest("first-token"), new Rest("second-token")];
+    for (const rest of callers) rest.setProxy({ url, authorization });
+  });
+
+  after(async () => {
+    await proxy.close();
+    await upstream.close();
+  });
+
+  it("forwards the authorization of each caller", async () => {
+    upstream.route("GET", "/channels/:channelId", (req) => ({
+      body: { id: req.params.channelId },
+    }));
+
+    assert.deepEqual(await callers[0].get("/channels/1"), { id: "1" });
+    assert.deepEqual(await callers[1].get("/channels/2"), { id: "2" });
+
+    const [first, second] = upstream.requests.slice(-2);
+    assert.equal(first.headers.authorization, "Bot first-token");
+    assert.equal(second.headers.authorization, "Bot second-token");
+    assert.equal(first.headers["x-proxy-authorization"], undefined);
+  });
+
+  it("rejects callers without the proxy authorization", async () => {
+    const rest = new Rest("first-token").setProxy({ url: proxy.url });
+    const sent = upstream.requests.length;
+
+    const res = await rawGet(rest, "/channels/3");
+
+    assert.equal(res.status, 401);
+    assert.equal(upstream.requests.length, sent);
+  });
+
+  it("passes rate limited responses through", async () => {
+    upstream.route("GET", "/guilds/:guildId", () => ({
+      status: 429,
+      headers: {
+        "retry-after": "2",
+        "x-ratelimit-limit": "5",
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(Date.now() / 1000 + 2),
+        "x-ratelimit-scope": "user",
+      },
+      body: { message: "You are being rate limited.", retry_after: 2 },
+    }));
+
+    const res = await rawGet(callers[0], "/guilds/1");
+
+    assert.equal(res.status, 429);
+    assert.equal(res.headers.get("retry-after"), "2");
+    assert.equal(res.headers.get("x-ratelimit-scope"), "user");
+    assert.equal(
+      ((await res.json()) as { retry_after: number }).retry_after,
+      2,
+    );
+  });
+
+  it("passes sublimit responses through without retrying", async () => {
+    upstream.route("PATCH", "/channels/:channelId", () => ({
+      status: 429,
+      headers: {
+        "retry-after": "60",
+        "x-ratelimit-limit": "5",
+        "x-ratelimit-remaining": "4",
+        "x-ratelimit-scope": "shared",
+      },
+      body: { message: "You are being rate limited.", retry_after: 60 },
+    }));
+    const sent = upstream.requests.length;
+
+    const res = (await callers[0].requestHandler.request(
+      "/channels/4",
+      "PATCH",
+      { body: JSON.stringify({ name: "renamed" }), raw: true },
+    )) as Response;
+
+    assert.equal(res.status, 429);
+    assert.equal(res.headers.get("retry-after"), "60");
+    assert.equal(res.headers.get("x-ratelimit-scope"), "shared");
+    assert.equal(upstream.requests.length, sent + 1);
+  });
+
+  it("shares the rate limit state between callers", async () => {
+    const resetAfter = 0.5;
+    const receivedAt: number[] = [];
+
+    upstream.route("GET", "/channels/:channelId/messages", () => {
+      receivedAt.push(Date.now());
+
+      return {
+        headers: {
+          "x-ratelimit-limit": "1",
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": String(Date.now() / 1000 + resetAfter),
+          "x-ratelimit-reset-after": String(resetAfter),
+        },
+        body: [],
+      };
+    });
+
+    await callers[0].get("/channels/5/messages");
+    await callers[1].get("/channels/5/messages");
+
+    assert.equal(receivedAt.length, 2);
+    // The Date header only has second precision, allow some early reset
+    assert.ok(receivedAt[1] - receivedAt[0] >= resetAfter * 1000 - 100);
+  });
+
+  it("replies 502 when the upstream can't be reached", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const unreachable = new RestProxy({
+      authorization,
+      apiURL: `http://127.0.0.1:${port}/api/v10`,
+    });
+    const rest = new Rest("first-token").setProxy({
+      url: await unreachable.listen(),
+      authorization,
+    });
+
+    try {
+      const res = await rawGet(rest, "/channels/6");
+
+      assert.equal(res.status, 502);
+      assert.equal(
+        typeof ((await res.json()) as { message: string }).message,
+        "string",
+      );
+    } finally {
+      await unreachable.close();
+    }
+  });
+});
@@ -1,4 +1,13 @@
-import { RequestHandlerOptions, RequestHeaders } from "./index";
+import {
+  InterceptorContext,
+  InterceptorErrorContext,
+  InterceptorResponseContext,
+  InterceptorRetryContext,
+  RequestHandlerOptions,
+  RequestHeaders,
+  RestInterceptor,
+  RestProxyOptions,
+} from "./index";
 import {
   delay,
   DiscordAPIError,
@@ -6,7 +15,7 @@ import {
   RequestError,
 } from "@darkcord/utils";
 import { RouteBases } from "discord-api-types/v10";
-import { BodyInit, fetch, FormData, HeadersInit } from "undici";
+import { BodyInit, fetch, FormData, HeadersInit, Response } from "undici";
 
 import { AsyncBucket as Bucket } from "../utils/AsyncBucket";
 import { SequentialBucket } from "../utils/SequentialBucket";
@@ -28,19 +37,30 @@ export interface RequestOptions {
     [x: string]: string;
   };
   body?: BodyInit;
+  /**
+   * Resolve with the response instead of parsing it, error responses are resolved too
+   */
+  raw?: boolean;
 }
 
+/**
+ * Header sent with the authorization of a rest proxy
+ */
+export const ProxyAuthorizationHeader = "X-Proxy-Authorization";
+
 export class RequestHandler {
   auth: string | undefined;
   #apiRoute: string;
   #maxRetry: number;
   #buckets: SequentialBucket;
+  #proxy: RestProxyOptions | null;
 
   constructor(public rest: Rest, options: RequestHandlerOptions = {}) {
     this.auth = options.token;
-    this.#apiRoute = RouteBases.api;
+    this.#apiRoute = options.apiURL ?? RouteBases.api;
     this.#maxRetry = options.maxRetry || 5;
     this.#buckets = new SequentialBucket(rest);
+    this.#proxy = null;
   }
 
   setToken(token: string) {
@@ -48,6 +68,23 @@ export class RequestHandler {
     return this;
   }
 
+  setAPIURL(url: string) {
+    this.#apiRoute = url.replace(/\/+$/, "");
+    return this;
+  }
+
+  setProxy(options: RestProxyOptions | null) {
+    this.#proxy = options && {
+      ...options,
+      url: options.url.replace(/\/+$/, ""),
+    };
+    return this;
+  }
+
+  request(router: string, method = "GET", options: RequestOptions = {}) {
+    return this.#request(router, method, options);
+  }
+
   get(router: string) {
     return this.#request(router);
   }
@@ -82,7 +119,7 @@ export class RequestHandler {
     method = "GET",
     options: RequestOptions = {},
   ): Promise<unknown | null> {
-    const { body, contentType, headers: customHeaders, reason } = options;
+    const { body, contentType, headers: customHeaders, reason, raw } = options;
 
     let retries = 1;
     const { auth, rest } = this;
@@ -90,13 +127,19 @@ export class RequestHandler {
     const buckets = this.#buckets;
     const bucket = buckets.get(router) ?? buckets.add(router, new Bucket());
     const globalDelayFor = this.#globalDelayFor.bind(this);
-    router = this.#apiRoute + router;
+    const proxy = this.#proxy;
+    const apiRoute = proxy?.url ?? this.#apiRoute;
+    const route = router;
+    router = apiRoute + router;
 
     const headers = {
-      Authorization:
-        auth?.startsWith("Bot") || auth?.startsWith("Bearer")
-          ? auth
-          : "Bot " + auth,
+      // Requests authenticated by a token in the route, like webhooks, do not need authorization
+      ...(auth && {
+        Authorization:
+          auth.startsWith("Bot") || auth.startsWith("Bearer")
+            ? auth
+            : "Bot " + auth,
+      }),
       "User-Agent": `DiscordBot (https://github.com/denkylabs/darkcord, v${
         require("../../package.json").version
       })`,
@@ -117,6 +160,10 @@ export class RequestHandler {
       headers["X-Audit-Log-Reason"] = encodeURIComponent(reason);
     }
 
+    if (proxy?.authorization) {
+      headers[ProxyAuthorizationHeader] = proxy.authorization;
+    }
+
     function emitRateLimit(global: boolean, timeout: number, limit: number) {
       rest.emit("rateLimit", {
         global,
@@ -127,13 +174,50 @@ export class RequestHandler {
       });
     }
 
-    async function request(): Promise<unknown> {
-      const controller = new AbortController();
-      const timer = setTimeout(() => {
-        controller.abort();
-      }, rest.requestTimeout).unref();
+    async function runHooks(hook: (interceptor: RestInterceptor) => unknown) {
+      for (const interceptor of rest.interceptors) {
+        await hook(interceptor);
+      }
+    }
+
+    async function retryOrThrow(
+      context: InterceptorErrorContext,
+      retry: boolean,
+      retryDelay: number,
+      response?: Response,
+    ): Promise<unknown> {
+      const retryContext: InterceptorRetryContext = {
+        ...context,
+        retry,
+        delay: retryDelay,
+      };
+
+      for (const interceptor of rest.interceptors) {
+        const decision = await interceptor.shouldRetry?.(retryContext);
+
+        if (typeof decision === "boolean") {
+          retryContext.retry = decision;
+        } else if (typeof decision === "number") {
+          retryContext.retry = true;
+          retryContext.delay = decision;
+        }
+      }
+
+      if (retryContext.retry && retries < maxRetry) {
+        retries++;
+        if (retryContext.delay > 0) await delay(retryContext.delay);
+        return request();
+      }
+
+      await runHooks((interceptor) => interceptor.onError?.(context));
 
-      while (buckets.limited || bucket.limited) {
+      if (response) return response;
+      throw context.error;
+    }
+
+    async function request(): Promise<unknown> {
+      // The proxy keeps the rate limit state of all its callers
+      while (!proxy && (buckets.limited || bucket.limited)) {
         const isGlobal = buckets.limited;
         let limit: number;
         let timeout: number;
@@ -159,15 +243,64 @@ export class RequestHandler {
         await delayPromise;
       }
 
-      const res = await fetch(router, {
-        body:
-          typeof body === "object" && !(body instanceof FormData)
-            ? JSON.stringify(body)
-            : body,
+      const context: InterceptorContext = {
+        route,
+        bucket: route,
         method,
-        headers: headers as unknown as HeadersInit,
-        signal: controller.signal,
-      }).finally(() => clearTimeout(timer));
+        headers: { ...headers } as Record<string, string>,
+        body: body as InterceptorContext["body"],
+        attempt: retries,
+        startedAt: Date.now(),
+      };
+
+      await runHooks((interceptor) => interceptor.beforeRequest?.(context));
+
+      const url = apiRoute + context.route;
+      const controller = new AbortController();
+      const timer = setTimeout(() => {
+        controller.abort();
+      }, rest.requestTimeout).unref();
+
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          body:
+            typeof context.body === "object" &&
+            !(context.body instanceof FormData) &&
+            !ArrayBuffer.isView(context.body)
+              ? JSON.stringify(context.body)
+              : (context.body as BodyInit),
+          method: context.method,
+          headers: context.headers as HeadersInit,
+          signal: controller.signal,
+        }).finally(() => clearTimeout(timer));
+      } catch (error) {
+        return retryOrThrow(
+          {
+            ...context,
+            url,
+            status: null,
+            duration: Date.now() - context.startedAt,
+            error,
+          },
+          false,
+          0,
+        );
+      }
+
+      const duration = Date.now() - context.startedAt;
+
+      const responseContext: InterceptorResponseContext = {
+        ...context,
+        url,
+        status: res.status,
+        duration,
+        response: res.clone(),
+      };
+
+      await runHooks((interceptor) =>
+        interceptor.afterResponse?.(responseContext),
+      );
 
       const _serverDate = res.headers.get("date")!;
       const _limit = res.headers.get("x-ratelimit-limit");
@@ -203,12 +336,19 @@ export class RequestHandler {
       if (res.ok === true) {
         if (method === "DELETE") {
           // Remove bucket from cache
-          buckets.remove(router);
+          buckets.remove(route);
         }
 
-        return parseResponse(res as any);
+        return raw ? res : parseResponse(res as any);
       }
 
+      const errorContext = {
+        ...context,
+        url,
+        status: res.status,
+        duration,
+      };
+
       if (res.status >= 400 && res.status < 500) {
         if (res.status === 429) {
           rest.emit(
@@ -217,12 +357,27 @@ export class RequestHandler {
               sublimitTimeout !== undefined ? " for sublimit" : ""
             }`,
           );
+        }
 
-          if (sublimitTimeout !== undefined) {
-            await delay(sublimitTimeout);
-            return request();
-          }
+        if (raw) {
+          // Sublimits are left to the caller, who receives the 429 response
+          return retryOrThrow(
+            {
+              ...errorContext,
+              error: new RequestError(
+                router,
+                method,
+                res.statusText,
+                "APIRequest",
+                res.status,
+              ),
+            },
+            false,
+            0,
+            res,
+          );
         }
+
         let data: any;
         try {
           data = await parseResponse(res as any);
@@ -237,25 +392,41 @@ export class RequestHandler {
           );
         }
 
-        throw new DiscordAPIError(router, method, data?.code, res.status, data);
+        return retryOrThrow(
+          {
+            ...errorContext,
+            error: new DiscordAPIError(
+              router,
+              method,
+              data?.code,
+              res.status,
+              data,
+            ),
+          },
+          sublimitTimeout !== undefined,
+          sublimitTimeout ?? 0,
+        );
       }
 
       if (res.status >= 500 && res.status < 600) {
-        if (retries === maxRetry) {
-          throw new RequestError(
-            router,
-            method,
-            res.statusText,
-            "APIRequest",
-            res.status,
-          );
-        }
-
-        retries++;
-        return request();
+        return retryOrThrow(
+          {
+            ...errorContext,
+            error: new RequestError(
+              router,
+              method,
+              res.statusText,
+              "APIRequest",
+              res.status,
+            ),
+          },
+          retries < maxRetry,
+          0,
+          raw ? res : undefined,
+        );
       }
 
-      return null;
+      return raw ? res : null;
     }
 
     return buckets.execute(bucket, request);
@@ -1,4 +1,10 @@
-import { MessagePostData, extractMessageData } from "@darkcord/utils";
+import {
+  MessagePostData,
+  RESTGetAPIPollAnswerVotersQuery,
+  RESTGetAPIPollAnswerVotersResult,
+  WebhookMessagePostData,
+  extractMessageData,
+} from "@darkcord/utils";
 import {
   APIApplication,
   APIApplicationCommand,
@@ -31,8 +37,13 @@ import {
   APIWebhook,
   GuildTextChannelType,
   InteractionResponseType,
+  RESTGetAPIAuditLogQuery,
+  RESTGetAPIChannelMessageReactionUsersQuery,
   RESTGetAPIChannelMessagesQuery,
+  RESTGetAPIChannelThreadsArchivedQuery,
+  RESTGetAPIChannelUsersThreadsArchivedResult,
   RESTGetAPIGuildBansQuery,
+  RESTGetAPIGuildMembersQuery,
   RESTPatchAPIApplicationCommandJSONBody,
   RESTPatchAPIAutoModerationRuleJSONBody,
   RESTPatchAPIChannelJSONBody,
@@ -57,12 +68,13 @@ import {
   RESTPostAPIGuildScheduledEventJSONBody,
   RESTPostAPIStageInstanceJSONBody,
   RESTPutAPIApplicationCommandsJSONBody,
+  RESTPostAPIWebhookWithTokenQuery,
   RESTPutAPIGuildBanJSONBody,
   Routes,
 } from "discord-api-types/v10";
 import EventEmitter from "node:events";
 import { URLSearchParams } from "node:url";
-import { FormData } from "undici";
+import { FormData, Response } from "undici";
 import { RequestHandler, RequestOptions } from "./RequestHandler";
 
 export interface RequestHeaders {
@@ -74,6 +86,11 @@ export interface RequestHeaders {
 
 export interface RequestHandlerOptions {
   token?: string;
+  /**
+   * Base url of requests
+   * @default "https://discord.com/api/v10"
+   */
+  apiURL?: string;
   apiVersion?: string;
   maxRetry?: number;
 }
@@ -86,6 +103,100 @@ export interface RateLimitEvent {
   method: string;
 }
 
+export interface RestProxyOptions {
+  /**
+   * Base url of the proxy, requests are sent to it instead of Discord API
+   */
+  url: string;
+  /**
+   * Value of the authorization header required by the proxy
+   */
+  authorization?: string;
+}
+
+export interface InterceptorContext {
+  /**
+   * The route of request without the api url, e.g. `/channels/123/messages`,
+   * changing it in a before-request hook sends the request to another route
+   */
+  route: string;
+  /**
+   * The rate limit bucket of request
+   */
+  bucket: string;
+  method: string;
+  headers: Record<string, string>;
+  body: BodyInit | undefined;
+  /**
+   * The attempt number of request, starting at 1
+   */
+  attempt: number;
+  /**
+   * Unix timestamp of when the attempt was sent
+   */
+  startedAt: number;
+}
+
+export interface InterceptorResponseContext extends InterceptorContext {
+  /**
+   * The url which request was sent to
+   */
+  url: string;
+  status: number;
+  /**
+   * Time in milliseconds between sending the request and receiving the response
+   */
+  duration: number;
+  /**
+   * A clone of the response, its body can be read by the interceptor
+   */
+  response: Response;
+}
+
+export interface InterceptorErrorContext extends InterceptorContext {
+  url: string;
+  /**
+   * The response status, null if no response was received
+   */
+  status: number | null;
+  duration: number;
+  error: unknown;
+}
+
+export interface InterceptorRetryContext extends InterceptorErrorContext {
+  /**
+   * Whether the request would be retried by default
+   */
+  retry: boolean;
+  /**
+   * Time in milliseconds to wait before retrying
+   */
+  delay: number;
+}
+
+export interface RestInterceptor {
+  /**
+   * Called before each attempt of a request, headers, body and route can be changed
+   */
+  beforeRequest?(context: InterceptorContext): unknown;
+  /**
+   * Called when any response is received, including error responses
+   */
+  afterResponse?(context: InterceptorResponseContext): unknown;
+  /**
+   * Called when a request fails and will not be retried
+   */
+  onError?(context: InterceptorErrorContext): unknown;
+  /**
+   * Decide whether a failed request should be retried,
+   * return a boolean to retry or not, a number to retry after that many milliseconds,
+   * or nothing to keep the current decision, requests are not retried after maxRetry attempts
+   */
+  shouldRetry?(
+    context: InterceptorRetryContext,
+  ): boolean | number | void | Promise<boolean | number | void>;
+}
+
 export interface RestEvents {
   request: [data: unknown];
   rateLimit: [event: RateLimitEvent];
@@ -113,6 +224,10 @@ export type TokenType = "Bot" | "Bearer";
 
 export class Rest extends EventEmitter {
   requestHandler: RequestHandler;
+  /**
+   * Interceptors of requests, called in the order they were added
+   */
+  interceptors: RestInterceptor[];
 
   get: (router: string) => Promise<unknown>;
   post: (
@@ -138,6 +253,7 @@ export class Rest extends EventEmitter {
   constructor(public token?: string, public requestTimeout = 15_000) {
     super();
 
+    this.interceptors = [];
     this.requestHandler = new RequestHandler(this, {
       token,
     });
@@ -156,6 +272,48 @@ export class Rest extends EventEmitter {
     return this;
   }
 
+  /**
+   * Set the base url of requests, useful to send requests to a local server
+   * @param url The base url of requests
+   */
+  setAPIURL(url: string) {
+    this.requestHandler.setAPIURL(url);
+    return this;
+  }
+
+  /**
+   * Send all requests through a rest proxy, which keeps one rate limit state for every process using it
+   * @param options The proxy options, null to send requests to the api url again
+   */
+  setProxy(options: RestProxyOptions | null) {
+    this.requestHandler.setProxy(options);
+    return this;
+  }
+
+  /**
+   * Add a interceptor to requests
+   * @param interceptor The interceptor
+   * @example
+   * rest.use({
+   *   afterResponse: (ctx) => console.log(ctx.method, ctx.bucket, ctx.status, ctx.duration),
+   * });
+   */
+  use(interceptor: RestInterceptor) {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  /**
+   * Remove a interceptor of requests
+   * @param interceptor The interceptor
+   */
+  removeInterceptor(interceptor: RestInterceptor) {
+    const index = this.interceptors.indexOf(interceptor);
+
+    if (index !== -1) this.interceptors.splice(index, 1);
+    return this;
+  }
+
   /**
    * Post a message to a guild text or DM channel.
    * @returns A message object.
@@ -186,7 +344,7 @@ export class Rest extends EventEmitter {
     ) as Promise<APIMessage>;
   }
 
-  getMessages(channelId: string, options: RESTGetAPIChannelMessagesQuery) {
+  getMessages(channelId: string, options: RESTGetAPIChannelMessagesQuery = {}) {
     const query = new URLSearchParams();
 
     if (options.after) query.append("after", options.after);
@@ -194,8 +352,10 @@ export class Rest extends EventEmitter {
     if (options.before) query.append("before", options.before);
     if (options.limit) query.append("limit", options.limit.toString());
 
+    const search = query.toString();
+
     return this.get(
-      Routes.channelMessages(channelId) + options ? "?" + query.toString() : "",
+      Routes.channelMessages(channelId) + (search ? "?" + search : ""),
     ) as Promise<APIMessage[]>;
   }
 
@@ -216,8 +376,17 @@ export class Rest extends EventEmitter {
    * @param guildId
    * @returns
    */
-  getGuildMembers(guildId: string) {
-    return this.get(Routes.guildMembers(guildId)) as Promise<APIGuildMember[]>;
+  getGuildMembers(guildId: string, options: RESTGetAPIGuildMembersQuery = {}) {
+    const query = new URLSearchParams();
+
+    if (options.after) query.append("after", options.after);
+    if (options.limit) query.append("limit", options.limit.toString());
+
+    const search = query.toString();
+
+    return this.get(
+      Routes.guildMembers(guildId) + (search ? "?" + search : ""),
+    ) as Promise<APIGuildMember[]>;
   }
 
   respondInteraction(
@@ -257,9 +426,11 @@ export class Rest extends EventEmitter {
     webhookId: string,
     webhookToken: string,
     messageId: string,
+    threadId?: string,
   ) {
     return this.get(
-      Routes.webhookMessage(webhookId, webhookToken, messageId),
+      Routes.webhookMessage(webhookId, webhookToken, messageId) +
+        (threadId ? `?thread_id=${threadId}` : ""),
     ) as Promise<APIMessage>;
   }
 
@@ -295,16 +466,32 @@ export class Rest extends EventEmitter {
     }) as Promise<APIWebhook>;
   }
 
+  /**
+   * Execute a webhook
+   * @param query Set wait to receive the created message, thread_id to send the message in a thread
+   * @returns The created message if wait is true, otherwise null
+   */
   executeWebhook(
     webhookId: string,
     webhookToken: string,
-    data: MessagePostData,
+    data: WebhookMessagePostData,
+    query: RESTPostAPIWebhookWithTokenQuery = {},
   ) {
     const { d, contentType } = extractMessageData(data);
+    const search = new URLSearchParams();
 
-    return this.post(Routes.webhook(webhookId, webhookToken), d, {
-      contentType,
-    }) as Promise<void>;
+    if (query.wait) search.append("wait", "true");
+    if (query.thread_id) search.append("thread_id", query.thread_id);
+
+    const params = search.toString();
+
+    return this.post(
+      Routes.webhook(webhookId, webhookToken) + (params ? "?" + params : ""),
+      d,
+      {
+        contentType,
+      },
+    ) as Promise<APIMessage | null>;
   }
 
   getChannelWebhooks(channelId: string) {
@@ -315,16 +502,24 @@ export class Rest extends EventEmitter {
     return this.get(Routes.webhook(webhookId)) as Promise<APIWebhook>;
   }
 
+  getWebhookWithToken(webhookId: string, webhookToken: string) {
+    return this.get(
+      Routes.webhook(webhookId, webhookToken),
+    ) as Promise<APIWebhook>;
+  }
+
   editWebhookMessage(
     webhookId: string,
     webhookToken: string,
     messageId: string,
     data: MessagePostData,
+    threadId?: string,
   ) {
     const { d, contentType } = extractMessageData(data);
 
     return this.patch(
-      Routes.webhookMessage(webhookId, webhookToken, messageId),
+      Routes.webhookMessage(webhookId, webhookToken, messageId) +
+        (threadId ? `?thread_id=${threadId}` : ""),
       d,
       { contentType },
     ) as Promise<APIMessage>;
@@ -348,6 +543,110 @@ export class Rest extends EventEmitter {
     ) as Promise<APIReaction>;
   }
 
+  /**
+   * Get the users that reacted with a emoji
+   * @param reaction The encoded emoji
+   */
+  getReactions(
+    channelId: string,
+    messageId: string,
+    reaction: string,
+    options: RESTGetAPIChannelMessageReactionUsersQuery = {},
+  ) {
+    const query = new URLSearchParams();
+
+    if (options.after) query.append("after", options.after);
+    if (options.limit) query.append("limit", options.limit.toString());
+
+    const search = query.toString();
+
+    return this.get(
+      Routes.channelMessageReaction(channelId, messageId, reaction) +
+        (search ? "?" + search : ""),
+    ) as Promise<APIUser[]>;
+  }
+
+  deleteOwnReaction(channelId: string, messageId: string, reaction: string) {
+    return this.delete(
+      Routes.channelMessageOwnReaction(channelId, messageId, reaction),
+    ) as Promise<void>;
+  }
+
+  deleteUserReaction(
+    channelId: string,
+    messageId: string,
+    reaction: string,
+    userId: string,
+  ) {
+    return this.delete(
+      Routes.channelMessageUserReaction(channelId, messageId, reaction, userId),
+    ) as Promise<void>;
+  }
+
+  deleteAllReactions(channelId: string, messageId: string) {
+    return this.delete(
+      Routes.channelMessageAllReactions(channelId, messageId),
+    ) as Promise<void>;
+  }
+
+  deleteAllReactionsForEmoji(
+    channelId: string,
+    messageId: string,
+    reaction: string,
+  ) {
+    return this.delete(
+      Routes.channelMessageReaction(channelId, messageId, reaction),
+    ) as Promise<void>;
+  }
+
+  /**
+   * Immediately end a poll created by the current user
+   * @returns The message of poll
+   */
+  endPoll(channelId: string, messageId: string) {
+    return this.post(
+      `${Routes.channel(channelId)}/polls/${messageId}/expire`,
+    ) as Promise<APIMessage>;
+  }
+
+  /**
+   * Get the users that voted for a poll answer
+   */
+  getAnswerVoters(
+    channelId: string,
+    messageId: string,
+    answerId: number,
+    options: RESTGetAPIPollAnswerVotersQuery = {},
+  ) {
+    const query = new URLSearchParams();
+
+    if (options.after) query.append("after", options.after);
+    if (options.limit) query.append("limit", options.limit.toString());
+
+    const search = query.toString();
+
+    return this.get(
+      `${Routes.channel(channelId)}/polls/${messageId}/answers/${answerId}` +
+        (search ? "?" + search : ""),
+    ) as Promise<RESTGetAPIPollAnswerVotersResult>;
+  }
+
+  getPinnedMessages(channelId: string) {
+    return this.get(Routes.channelPins(channelId)) as Promise<APIMessage[]>;
+  }
+
+  pinMessage(channelId: string, messageId: string, reason?: string) {
+    return this.put(Routes.channelPin(channelId, messageId), undefined, {
+      reason,
+    }) as Promise<void>;
+  }
+
+  unpinMessage(channelId: string, messageId: string, reason?: string) {
+    return this.delete(Routes.channelPin(channelId, messageId), {
+      reason,
+    }) as Promise<void>;
+  }
+
   editChannelPermissions(
     channelId: string,
     overwriteId: string,
@@ -424,8 +723,10 @@ export class Rest extends EventEmitter {
     if (options?.before) query.append("before", options.before);
     if (options?.limit) query.append("limit", options.limit.toString());
 
+    const search = query.toString();
+
     return this.get(
-      Routes.guildBans(guildId) + options ? "?" + query.toString() : "",
+      Routes.guildBans(guildId) + (search ? "?" + search : ""),
     ) as Promise<APIBan[]>;
   }
 
@@ -589,6 +890,47 @@ export class Rest extends EventEmitter {
     ) as Promise<APIThreadMember>;
   }
 
+  /**
+   * Get the archived threads of a channel
+   * @param status Whether to get public or private threads
+   */
+  getArchivedThreads(
+    channelId: string,
+    status: "public" | "private",
+    options: RESTGetAPIChannelThreadsArchivedQuery = {},
+  ) {
+    const query = new URLSearchParams();
+
+    if (options.before) query.append("before", options.before);
+    if (options.limit) query.append("limit", options.limit.toString());
+
+    const search = query.toString();
+
+    return this.get(
+      Routes.channelThreads(channelId, status) + (search ? "?" + search : ""),
+    ) as Promise<RESTGetAPIChannelUsersThreadsArchivedResult>;
+  }
+
+  /**
+   * Get the private archived threads of a channel that the current user has joined
+   */
+  getJoinedArchivedThreads(
+    channelId: string,
+    options: RESTGetAPIChannelThreadsArchivedQuery = {},
+  ) {
+    const query = new URLSearchParams();
+
+    if (options.before) query.append("before", options.before);
+    if (options.limit) query.append("limit", options.limit.toString());
+
+    const search = query.toString();
+
+    return this.get(
+      Routes.channelJoinedArchivedThreads(channelId) +
+        (search ? "?" + search : ""),
+    ) as Promise<RESTGetAPIChannelUsersThreadsArchivedResult>;
+  }
+
   startThread(
     channelId: string,
     data: RESTPostAPIChannelThreadsJSONBody,
@@ -677,12 +1019,23 @@ export class Rest extends EventEmitter {
     threadId?: string,
   ) {
     return this.delete(
-      Routes.webhookMessage(webhookId, webhookToken, messageId) + threadId
-        ? `?thread_id=${threadId}`
-        : "",
+      Routes.webhookMessage(webhookId, webhookToken, messageId) +
+        (threadId ? `?thread_id=${threadId}` : ""),
     ) as Promise<void>;
   }
 
+  getAutoModerationRules(guildId: string) {
+    return this.get(Routes.guildAutoModerationRules(guildId)) as Promise<
+      APIAutoModerationRule[]
+    >;
+  }
+
+  getAutoModerationRule(guildId: string, autoModerationRuleId: string) {
+    return this.get(
+      Routes.guildAutoModerationRule(guildId, autoModerationRuleId),
+    ) as Promise<APIAutoModerationRule>;
+  }
+
   createGuildAutoModerationRule(
     guildId: string,
     options: RESTPostAPIAutoModerationRuleJSONBody,
@@ -717,6 +1070,13 @@ export class Rest extends EventEmitter {
     ) as Promise<APIAutoModerationRule>;
   }
 
+  getApplicationCommands(applicationId: string, withLocalizations = false) {
+    return this.get(
+      Routes.applicationCommands(applicationId) +
+        `?with_localizations=${withLocalizations}`,
+    ) as Promise<APIApplicationCommand[]>;
+  }
+
   createApplicationCommand(
     applicationId: string,
     options: RESTPostAPIApplicationCommandsJSONBody,
@@ -751,7 +1111,18 @@ export class Rest extends EventEmitter {
     return this.put(
       Routes.applicationCommands(applicationId),
       options,
-    ) as Promise<APIApplication[]>;
+    ) as Promise<APIApplicationCommand[]>;
+  }
+
+  getGuildApplicationCommands(
+    applicationId: string,
+    guildId: string,
+    withLocalizations = false,
+  ) {
+    return this.get(
+      Routes.applicationGuildCommands(applicationId, guildId) +
+        `?with_localizations=${withLocalizations}`,
+    ) as Promise<APIApplicationCommand[]>;
   }
 
   createGuildApplicationCommand(
@@ -795,7 +1166,7 @@ export class Rest extends EventEmitter {
     return this.put(
       Routes.applicationGuildCommands(applicationId, guildId),
       options,
-    ) as Promise<APIApplication[]>;
+    ) as Promise<APIApplicationCommand[]>;
   }
 
   createGuildChannel(
@@ -826,7 +1197,20 @@ export class Rest extends EventEmitter {
     }) as Promise<APIMessage>;
   }
 
-  getGuildAuditLog(guildId: string) {
-    return this.get(Routes.guildAuditLog(guildId)) as Promise<APIAuditLog>;
+  getGuildAuditLog(guildId: string, options: RESTGetAPIAuditLogQuery = {}) {
+    const query = new URLSearchParams();
+
+    if (options.user_id) query.append("user_id", options.user_id);
+    if (options.action_type)
+      query.append("action_type", options.action_type.toString());
+    if (options.before) query.append("before", options.before);
+    if (options.after) query.append("after", options.after);
+    if (options.limit) query.append("limit", options.limit.toString());
+
+    const search = query.toString();
+
+    return this.get(
+      Routes.guildAuditLog(guildId) + (search ? "?" + search : ""),
+    ) as Promise<APIAuditLog>;
   }
 }
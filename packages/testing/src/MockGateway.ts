@@ -0,0 +1,427 @@
+import { MakeError } from "@darkcord/utils";
+import {
+  APIUser,
+  GatewayCloseCodes,
+  GatewayDispatchEvents,
+  GatewayDispatchPayload,
+  GatewayIdentifyData,
+  GatewayOpcodes,
+  GatewayReceivePayload,
+  GatewaySendPayload,
+} from "discord-api-types/v10";
+import crypto from "node:crypto";
+import EventEmitter from "node:events";
+import { AddressInfo } from "node:net";
+import { clearTimeout, setTimeout } from "node:timers";
+import { setTimeout as sleep } from "node:timers/promises";
+import WebSocket, { WebSocketServer } from "ws";
+import {
+  MockApplication,
+  MockGatewayEvents,
+  MockGatewayOptions,
+  MockGatewaySessionEvents,
+  ScriptedDispatch,
+} from "./types";
+import {
+  DefaultApplication,
+  DefaultHeartbeatInterval,
+  DefaultUser,
+} from "./utils/Constants";
+
+export declare interface MockGatewaySession {
+  on<T extends keyof MockGatewaySessionEvents>(
+    event: T,
+    listener: (...args: MockGatewaySessionEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof MockGatewaySessionEvents>(
+    event: T,
+    listener: (...args: MockGatewaySessionEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof MockGatewaySessionEvents>(
+    event: T,
+    ...args: MockGatewaySessionEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * A session of a client connected to the mock gateway
+ */
+export class MockGatewaySession extends EventEmitter {
+  /**
+   * The id of this session, available after identify
+   */
+  sessionId?: string;
+  /**
+   * The identify payload sent by the client
+   */
+  identifyData?: GatewayIdentifyData;
+  /**
+   * The last sequence sent in a dispatch
+   */
+  sequence: number;
+  /**
+   * Dispatches sent in this session, replayed when the client resumes
+   */
+  history: GatewayDispatchPayload[];
+
+  constructor(public ws: WebSocket) {
+    super();
+
+    this.sequence = 0;
+    this.history = [];
+  }
+
+  /**
+   * The shard [id, total] sent in identify
+   */
+  get shard() {
+    return this.identifyData?.shard ?? [0, 1];
+  }
+
+  get identified() {
+    return this.sessionId !== undefined;
+  }
+
+  /**
+   * Send a raw payload to the client
+   * @param payload The payload to send
+   */
+  send(payload: GatewayReceivePayload) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify(payload));
+    this.emit("packet", payload);
+  }
+
+  /**
+   * Send a non dispatch payload to the client
+   * @param op The opcode of payload
+   * @param d The data of payload
+   */
+  sendOp(op: GatewayOpcodes, d: unknown = null) {
+    this.send({ op, d, s: null, t: null } as GatewayReceivePayload);
+  }
+
+  /**
+   * Send a dispatch event to the client
+   * @param t Name of the event, like MESSAGE_CREATE
+   * @param d Data of the event
+   */
+  dispatch(t: ScriptedDispatch["t"], d: unknown) {
+    const payload = {
+      op: GatewayOpcodes.Dispatch,
+      t,
+      d,
+      s: ++this.sequence,
+    } as GatewayDispatchPayload;
+
+    this.history.push(payload);
+    this.send(payload);
+  }
+
+  /**
+   * Ask the client to reconnect and resume
+   */
+  reconnect() {
+    this.sendOp(GatewayOpcodes.Reconnect);
+  }
+
+  /**
+   * Invalidate the session of the client
+   * @param resumable Whether the client can resume the session
+   */
+  invalidate(resumable = false) {
+    if (!resumable) {
+      this.sessionId = undefined;
+      this.history = [];
+      this.sequence = 0;
+    }
+
+    this.sendOp(GatewayOpcodes.InvalidSession, resumable);
+  }
+
+  /**
+   * Close the connection
+   * @param code The close code
+   * @param reason The close reason
+   */
+  close(code = 1_000, reason?: string) {
+    this.ws.close(code, reason);
+  }
+}
+
+export declare interface MockGateway {
+  on<T extends keyof MockGatewayEvents>(
+    event: T,
+    listener: (...args: MockGatewayEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof MockGatewayEvents>(
+    event: T,
+    listener: (...args: MockGatewayEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof MockGatewayEvents>(
+    event: T,
+    ...args: MockGatewayEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Local websocket server that behaves like Discord gateway,
+ * only json encoding without compression is supported
+ */
+export class MockGateway extends EventEmitter {
+  server?: WebSocketServer;
+  /**
+   * Sessions of connected clients
+   */
+  sessions: Set<MockGatewaySession>;
+  heartbeatInterval: number;
+  user: APIUser;
+  application: MockApplication;
+  options: MockGatewayOptions;
+
+  constructor(options: MockGatewayOptions = {}) {
+    super();
+
+    this.options = options;
+    this.sessions = new Set();
+    this.heartbeatInterval =
+      options.heartbeatInterval ?? DefaultHeartbeatInterval;
+    this.user = options.user ?? DefaultUser;
+    this.application = options.application ?? DefaultApplication;
+  }
+
+  /**
+   * The url used in gateway.url client option
+   */
+  get url() {
+    if (!this.server) {
+      throw MakeError({
+        name: "MockGatewayNotListening",
+        message: "The mock gateway is not listening",
+      });
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `ws://${this.options.hostname ?? "127.0.0.1"}:${port}`;
+  }
+
+  /**
+   * Start the server
+   * @returns The url of the server
+   */
+  listen() {
+    return new Promise<string>((resolve, reject) => {
+      const server = new WebSocketServer({
+        host: this.options.hostname ?? "127.0.0.1",
+        port: this.options.port ?? 0,
+      });
+
+      server.once("error", reject);
+      server.once("listening", () => {
+        server.off("error", reject);
+        this.emit("listening", this.url);
+        resolve(this.url);
+      });
+
+      server.on("connection", (ws, request) => {
+        const query = new URL(request.url ?? "/", "ws://localhost")
+          .searchParams;
+
+        if (query.get("encoding") === "etf" || query.has("compress")) {
+          ws.close(
+            GatewayCloseCodes.DecodeError,
+            "Mock gateway supports only json encoding without compression",
+          );
+          return;
+        }
+
+        this._handleConnection(ws);
+      });
+
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop the server and close all connections
+   */
+  close() {
+    return new Promise<void>((resolve) => {
+      for (const session of this.sessions) {
+        session.ws.terminate();
+      }
+
+      this.sessions.clear();
+
+      if (!this.server) return resolve();
+
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * Send a dispatch to the identified sessions
+   * @param t Name of the event, like MESSAGE_CREATE
+   * @param d Data of the event
+   * @param shardId Send only to the session of this shard
+   */
+  dispatch(t: ScriptedDispatch["t"], d: unknown, shardId?: number) {
+    for (const session of this.sessions) {
+      if (!session.identified) continue;
+      if (shardId !== undefined && session.shard[0] !== shardId) continue;
+
+      session.dispatch(t, d);
+    }
+  }
+
+  /**
+   * Send a sequence of dispatches, waiting the delay of each one
+   * @param script The dispatches to send
+   */
+  async replay(script: ScriptedDispatch[]) {
+    for (const { t, d, delay, shardId } of script) {
+      if (delay) await sleep(delay);
+
+      this.dispatch(t, d, shardId);
+    }
+  }
+
+  /**
+   * Wait a client to identify
+   * @param timeout Time to wait before rejecting
+   */
+  waitForIdentify(timeout = 10_000) {
+    return new Promise<MockGatewaySession>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off("identify", listener);
+        reject(
+          MakeError({
+            name: "MockGatewayTimeout",
+            message: "No client identified in time",
+          }),
+        );
+      }, timeout);
+
+      const listener = (session: MockGatewaySession) => {
+        clearTimeout(timer);
+        resolve(session);
+      };
+
+      this.once("identify", listener);
+    });
+  }
+
+  _handleConnection(ws: WebSocket) {
+    const session = new MockGatewaySession(ws);
+    this.sessions.add(session);
+    this._bindSocket(session, ws);
+
+    this.emit("connection", session);
+
+    session.sendOp(GatewayOpcodes.Hello, {
+      heartbeat_interval: this.heartbeatInterval,
+    });
+  }
+
+  _bindSocket(session: MockGatewaySession, ws: WebSocket) {
+    ws.removeAllListeners("message");
+    ws.removeAllListeners("close");
+
+    ws.on("message", (raw) => {
+      let packet: GatewaySendPayload;
+
+      try {
+        packet = JSON.parse(raw.toString());
+      } catch {
+        ws.close(GatewayCloseCodes.DecodeError, "Invalid payload");
+        return;
+      }
+
+      this.emit("packet", session, packet);
+      this._handlePacket(session, packet);
+    });
+
+    ws.on("close", (code) => {
+      // Identified sessions are kept to be resumed later
+      if (!session.identified) this.sessions.delete(session);
+      this.emit("close", session, code);
+    });
+  }
+
+  _handlePacket(session: MockGatewaySession, packet: GatewaySendPayload) {
+    switch (packet.op) {
+      case GatewayOpcodes.Heartbeat: {
+        this.emit("heartbeat", session, packet.d);
+        session.sendOp(GatewayOpcodes.HeartbeatAck);
+        break;
+      }
+      case GatewayOpcodes.Identify: {
+        if (session.identified) {
+          session.close(
+            GatewayCloseCodes.AlreadyAuthenticated,
+            "Already authenticated",
+          );
+          return;
+        }
+
+        session.identifyData = packet.d;
+        session.sessionId = crypto.randomUUID();
+
+        this.emit("identify", session, packet.d);
+
+        const guilds = this.options.guilds ?? [];
+
+        session.dispatch(GatewayDispatchEvents.Ready, {
+          v: 10,
+          user: this.user,
+          guilds: guilds.map((guild) => ({ id: guild.id, unavailable: true })),
+          session_id: session.sessionId,
+          resume_gateway_url: this.url,
+          shard: packet.d.shard,
+          application: {
+            id: this.application.id,
+            flags: this.application.flags,
+          },
+        });
+
+        for (const guild of guilds) {
+          session.dispatch(GatewayDispatchEvents.GuildCreate, guild);
+        }
+        break;
+      }
+      case GatewayOpcodes.Resume: {
+        const resumed = [...this.sessions].find(
+          (s) => s !== session && s.sessionId === packet.d.session_id,
+        );
+
+        if (!resumed) {
+          session.sendOp(GatewayOpcodes.InvalidSession, false);
+          return;
+        }
+
+        // Moving the resumed session to the new connection
+        this.sessions.delete(session);
+        resumed.ws.removeAllListeners();
+        resumed.ws = session.ws;
+        this._bindSocket(resumed, session.ws);
+
+        this.emit("resume", resumed, packet.d);
+
+        for (const dispatch of resumed.history) {
+          if (dispatch.s > packet.d.seq) resumed.send(dispatch);
+        }
+
+        resumed.dispatch(GatewayDispatchEvents.Resumed, null);
+        break;
+      }
+    }
+  }
+}
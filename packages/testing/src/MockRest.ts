@@ -0,0 +1,236 @@
+import { MakeError } from "@darkcord/utils";
+import { APIGatewayBotInfo, APIUser } from "discord-api-types/v10";
+import EventEmitter from "node:events";
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  MockApplication,
+  MockRestEvents,
+  MockRestHandler,
+  MockRestOptions,
+  MockRestReply,
+  MockRestRequest,
+} from "./types";
+import { APIPrefix, DefaultApplication, DefaultUser } from "./utils/Constants";
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockRestHandler;
+}
+
+export declare interface MockRest {
+  on<T extends keyof MockRestEvents>(
+    event: T,
+    listener: (...args: MockRestEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof MockRestEvents>(
+    event: T,
+    listener: (...args: MockRestEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof MockRestEvents>(
+    event: T,
+    ...args: MockRestEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Local http server that behaves like Discord API,
+ * routes not registered respond with 404
+ */
+export class MockRest extends EventEmitter {
+  server?: Server;
+  /**
+   * Requests received by the server, useful to assert what the client sent
+   */
+  requests: MockRestRequest[];
+  user: APIUser;
+  application: MockApplication;
+  options: MockRestOptions;
+  #routes: MockRoute[];
+
+  constructor(options: MockRestOptions = {}) {
+    super();
+
+    this.options = options;
+    this.requests = [];
+    this.user = options.user ?? DefaultUser;
+    this.application = options.application ?? DefaultApplication;
+    this.#routes = [];
+
+    this.route("GET", "/gateway/bot", () => ({
+      body: {
+        url: this.options.gatewayURL ?? "wss://gateway.discord.gg",
+        shards: this.options.shards ?? 1,
+        session_start_limit: {
+          total: 1_000,
+          remaining: 1_000,
+          reset_after: 0,
+          max_concurrency: 1,
+        },
+      } as APIGatewayBotInfo,
+    }));
+    this.route("GET", "/users/@me", () => ({ body: this.user }));
+    this.route("GET", "/oauth2/applications/@me", () => ({
+      body: this.application,
+    }));
+    this.route("GET", "/applications/@me", () => ({
+      body: this.application,
+    }));
+  }
+
+  /**
+   * The url used in rest.apiURL client option
+   */
+  get url() {
+    if (!this.server) {
+      throw MakeError({
+        name: "MockRestNotListening",
+        message: "The mock rest is not listening",
+      });
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.hostname ?? "127.0.0.1"}:${port}/api/v10`;
+  }
+
+  /**
+   * Register a route, routes registered later take precedence
+   * @param method The http method
+   * @param path The path with parameters, like /channels/:channelId/messages
+   * @param handler Function returning the reply, or a value sent as json body with status 200
+   */
+  route(method: string, path: string, handler: MockRestHandler | unknown) {
+    const keys: string[] = [];
+    const pattern = new RegExp(
+      "^" +
+        path
+          .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+          .replace(/:(\w+)/g, (_, key: string) => {
+            keys.push(key);
+            return "([^/]+)";
+          }) +
+        "/?$",
+    );
+
+    this.#routes.unshift({
+      method: method.toUpperCase(),
+      pattern,
+      keys,
+      handler:
+        typeof handler === "function"
+          ? (handler as MockRestHandler)
+          : () => ({ body: handler }),
+    });
+
+    return this;
+  }
+
+  /**
+   * Start the server
+   * @returns The url of the server
+   */
+  listen() {
+    return new Promise<string>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this._handleRequest(req, res).catch((err) => {
+          this._reply(res, {
+            status: 500,
+            body: { message: String(err?.message ?? err), code: 0 },
+          });
+        });
+      });
+
+      server.once("error", reject);
+      server.listen(
+        this.options.port ?? 0,
+        this.options.hostname ?? "127.0.0.1",
+        () => {
+          server.off("error", reject);
+          this.emit("listening", this.url);
+          resolve(this.url);
+        },
+      );
+
+      this.server = server;
+    });
+  }
+
+  /**
+   * Stop the server
+   */
+  close() {
+    return new Promise<void>((resolve) => {
+      if (!this.server) return resolve();
+
+      this.server.closeAllConnections?.();
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  async _handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+
+    const raw = Buffer.concat(chunks);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname.replace(APIPrefix, "") || "/";
+    const method = req.method ?? "GET";
+
+    let body: unknown = raw.length ? raw : undefined;
+    if (raw.length && req.headers["content-type"]?.includes("json")) {
+      body = JSON.parse(raw.toString());
+    }
+
+    const request: MockRestRequest = {
+      method,
+      path,
+      params: {},
+      query: url.searchParams,
+      headers: req.headers,
+      body,
+    };
+
+    this.requests.push(request);
+    this.emit("request", request);
+
+    for (const route of this.#routes) {
+      if (route.method !== method) continue;
+
+      const match = route.pattern.exec(path);
+      if (!match) continue;
+
+      route.keys.forEach((key, i) => (request.params[key] = match[i + 1]));
+
+      return this._reply(res, await route.handler(request));
+    }
+
+    this._reply(res, {
+      status: 404,
+      body: { message: "404: Not Found", code: 0 },
+    });
+  }
+
+  _reply(res: ServerResponse, reply: MockRestReply) {
+    const status = reply.status ?? (reply.body === undefined ? 204 : 200);
+
+    res.writeHead(status, {
+      ...(reply.body === undefined
+        ? {}
+        : { "content-type": "application/json" }),
+      ...reply.headers,
+    });
+
+    res.end(reply.body === undefined ? undefined : JSON.stringify(reply.body));
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./MockGateway";
+export * from "./MockRest";
+export * from "./types";
+export * from "./utils/Constants";
@@ -0,0 +1,141 @@
+import type { IncomingHttpHeaders } from "node:http";
+import type {
+  APIGuild,
+  APIUser,
+  GatewayDispatchEvents,
+  GatewayIdentifyData,
+  GatewayReceivePayload,
+  GatewayResumeData,
+  GatewaySendPayload,
+} from "discord-api-types/v10";
+import type { MockGatewaySession } from "./MockGateway";
+
+export interface MockApplication {
+  id: string;
+  flags: number;
+  [key: string]: unknown;
+}
+
+export interface MockGatewayOptions {
+  /**
+   * Port of the server, a random port is used by default
+   */
+  port?: number;
+  /**
+   * Hostname of the server
+   * @default "127.0.0.1"
+   */
+  hostname?: string;
+  /**
+   * Heartbeat interval sent in hello
+   * @default 41_250
+   */
+  heartbeatInterval?: number;
+  /**
+   * User sent in ready
+   */
+  user?: APIUser;
+  /**
+   * Application sent in ready
+   */
+  application?: MockApplication;
+  /**
+   * Guilds sent as unavailable in ready and created after it with GUILD_CREATE
+   */
+  guilds?: APIGuild[];
+}
+
+export interface MockRestOptions {
+  /**
+   * Port of the server, a random port is used by default
+   */
+  port?: number;
+  /**
+   * Hostname of the server
+   * @default "127.0.0.1"
+   */
+  hostname?: string;
+  /**
+   * Gateway url returned in GET /gateway/bot
+   */
+  gatewayURL?: string;
+  /**
+   * Recommended shards count returned in GET /gateway/bot
+   * @default 1
+   */
+  shards?: number;
+  /**
+   * User returned in GET /users/@me
+   */
+  user?: APIUser;
+  /**
+   * Application returned in GET /oauth2/applications/@me
+   */
+  application?: MockApplication;
+}
+
+export interface ScriptedDispatch {
+  /**
+   * Name of the dispatch event, like MESSAGE_CREATE
+   */
+  t: GatewayDispatchEvents | `${GatewayDispatchEvents}`;
+  /**
+   * Data of the dispatch
+   */
+  d: unknown;
+  /**
+   * Time to wait before sending this dispatch
+   */
+  delay?: number;
+  /**
+   * Send only to the session of this shard
+   */
+  shardId?: number;
+}
+
+export interface MockGatewayEvents {
+  listening: [url: string];
+  connection: [session: MockGatewaySession];
+  identify: [session: MockGatewaySession, data: GatewayIdentifyData];
+  resume: [session: MockGatewaySession, data: GatewayResumeData];
+  heartbeat: [session: MockGatewaySession, sequence: number | null];
+  packet: [session: MockGatewaySession, packet: GatewaySendPayload];
+  close: [session: MockGatewaySession, code: number];
+}
+
+export interface MockGatewaySessionEvents {
+  packet: [packet: GatewayReceivePayload];
+}
+
+export interface MockRestRequest {
+  method: string;
+  /**
+   * Path of the route without the api prefix, like /channels/123/messages
+   */
+  path: string;
+  /**
+   * Values of the route parameters, like { channelId: "123" } for /channels/:channelId
+   */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  /**
+   * The parsed json body or the raw body for other content types
+   */
+  body: unknown;
+}
+
+export interface MockRestReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type MockRestHandler = (
+  request: MockRestRequest,
+) => MockRestReply | Promise<MockRestReply>;
+
+export interface MockRestEvents {
+  listening: [url: string];
+  request: [request: MockRestRequest];
+}
@@ -0,0 +1,31 @@
+import type { APIUser } from "discord-api-types/v10";
+import type { MockApplication } from "../types";
+
+export const DefaultUser: APIUser = {
+  id: "1000000000000000000",
+  username: "Darkcord Test",
+  discriminator: "0",
+  global_name: null,
+  avatar: null,
+  bot: true,
+};
+
+export const DefaultApplication: MockApplication = {
+  id: "1000000000000000000",
+  name: "Darkcord Test",
+  icon: null,
+  description: "",
+  bot_public: true,
+  bot_require_code_grant: false,
+  verify_key: "",
+  summary: "",
+  team: null,
+  flags: 0,
+};
+
+export const DefaultHeartbeatInterval = 41_250;
+
+/**
+ * Matches the api prefix of routes, like /api/v10
+ */
+export const APIPrefix = /^\/api(\/v\d+)?/;
@@ -0,0 +1,3 @@
+import { makeTSUpConfig } from "../../tsup.config";
+
+export default makeTSUpConfig();
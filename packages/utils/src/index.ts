@@ -297,12 +297,13 @@ export function transformMessagePostData(
     !data.files &&
     !data.embeds &&
     !data.content &&
-    !data.components?.length
+    !data.components?.length &&
+    !data.poll
   ) {
     throw MakeError({
       name: "InvalidMessagePostData",
       message:
-        "Message post data must contain one of the following values: content, embeds, or files",
+        "Message post data must contain one of the following values: content, embeds, files or poll",
     });
   }
 
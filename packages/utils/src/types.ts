@@ -1,4 +1,8 @@
-import { RESTPostAPIChannelMessageJSONBody } from "discord-api-types/v10";
+import {
+  APIPartialEmoji,
+  APIUser,
+  RESTPostAPIChannelMessageJSONBody,
+} from "discord-api-types/v10";
 import { Buffer, Blob } from "node:buffer";
 
 export interface MessageAttachment {
@@ -9,6 +13,114 @@ export interface MessageAttachment {
 
 export interface MessagePostData extends RESTPostAPIChannelMessageJSONBody {
   files?: MessageAttachment[];
+  /**
+   * A poll created with the message
+   */
+  poll?: APIPollCreateRequest;
+}
+
+export interface WebhookMessagePostData extends MessagePostData {
+  /**
+   * Override the default username of the webhook
+   */
+  username?: string;
+  /**
+   * Override the default avatar of the webhook
+   */
+  avatar_url?: string;
+  /**
+   * Name of the thread to create, only for webhooks in forum channels
+   */
+  thread_name?: string;
+  /**
+   * Ids of the tags applied to the created thread
+   */
+  applied_tags?: string[];
+}
+
+export enum PollLayoutType {
+  Default = 1,
+}
+
+export interface APIPollMedia {
+  /**
+   * The text of the field, up to 300 characters for questions and 55 for answers
+   */
+  text?: string;
+  emoji?: APIPartialEmoji;
+}
+
+export interface APIPollAnswer {
+  answer_id: number;
+  poll_media: APIPollMedia;
+}
+
+export interface APIPollAnswerCount {
+  /**
+   * The answer id
+   */
+  id: number;
+  count: number;
+  /**
+   * Whether the current user voted for this answer
+   */
+  me_voted: boolean;
+}
+
+export interface APIPollResults {
+  /**
+   * Whether the votes have been precisely counted
+   */
+  is_finalized: boolean;
+  answer_counts: APIPollAnswerCount[];
+}
+
+export interface APIPoll {
+  question: APIPollMedia;
+  answers: APIPollAnswer[];
+  /**
+   * When the poll ends
+   */
+  expiry: string | null;
+  allow_multiselect: boolean;
+  layout_type: PollLayoutType;
+  results?: APIPollResults;
+}
+
+export interface APIPollCreateRequest {
+  question: APIPollMedia;
+  answers: Omit<APIPollAnswer, "answer_id">[];
+  /**
+   * Number of hours the poll should be open for, up to 32 days
+   * @default 24
+   */
+  duration?: number;
+  allow_multiselect?: boolean;
+  layout_type?: PollLayoutType;
+}
+
+export interface RESTGetAPIPollAnswerVotersQuery {
+  /**
+   * Get users after this user id
+   */
+  after?: string;
+  /**
+   * Max number of users to return (1-100)
+   * @default 25
+   */
+  limit?: number;
+}
+
+export interface RESTGetAPIPollAnswerVotersResult {
+  users: APIUser[];
+}
+
+export interface GatewayMessagePollVoteDispatchData {
+  user_id: string;
+  channel_id: string;
+  message_id: string;
+  guild_id?: string;
+  answer_id: number;
 }
 
 export interface MakeErrorOptions {
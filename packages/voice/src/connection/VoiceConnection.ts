@@ -0,0 +1,582 @@
+import { delay, MakeError } from "@darkcord/utils";
+import {
+  VoiceCloseCodes,
+  VoiceGatewayVersion,
+  VoiceOpcodes,
+} from "discord-api-types/voice/v4";
+import EventEmitter from "node:events";
+import { VoiceUDPSocket } from "../networking/VoiceUDPSocket";
+import { VoiceWebSocket } from "../networking/VoiceWebSocket";
+import type {
+  VoiceConnectionEventsMap,
+  VoiceConnectionOptions,
+  VoiceReceivePayload,
+} from "../types";
+import {
+  EncryptionMode,
+  FrameDuration,
+  FrameSize,
+  ReconnectDelay,
+  SilenceFrame,
+  VoiceConnectionEvents,
+  VoiceConnectionStatus,
+} from "../utils/Constants";
+import { Encryption } from "../utils/Encryption";
+
+export const VoiceConnectionError = (
+  message: string,
+  code: VoiceCloseCodes | number,
+  guildId: string,
+) =>
+  MakeError({
+    name: "VoiceConnectionError",
+    message,
+    args: [
+      ["code", code],
+      ["guildId", guildId],
+    ],
+  });
+
+export declare interface VoiceConnection {
+  on<T extends keyof VoiceConnectionEventsMap>(
+    event: T,
+    listener: (...args: VoiceConnectionEventsMap[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof VoiceConnectionEventsMap>(
+    event: T,
+    listener: (...args: VoiceConnectionEventsMap[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof VoiceConnectionEventsMap>(
+    event: T,
+    ...args: VoiceConnectionEventsMap[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Amount of silence frames sent after stop speaking
+ */
+const SilenceFramesCount = 5;
+
+export class VoiceConnection extends EventEmitter {
+  /**
+   * The status of this connection
+   */
+  status: VoiceConnectionStatus;
+  readonly guildId: string;
+  readonly userId: string;
+  /**
+   * The id of the voice channel connected
+   */
+  channelId: string | null;
+  /**
+   * Session id received in voiceStateUpdate
+   */
+  sessionId?: string;
+  /**
+   * Token received in voiceServerUpdate
+   */
+  token?: string;
+  /**
+   * Voice server endpoint received in voiceServerUpdate
+   */
+  endpoint?: string;
+  ws?: VoiceWebSocket;
+  udp?: VoiceUDPSocket;
+  /**
+   * The synchronization source of this connection
+   */
+  ssrc?: number;
+  /**
+   * The selected encryption mode
+   */
+  mode?: EncryptionMode;
+  secretKey?: Uint8Array;
+  sequence: number;
+  timestamp: number;
+  nonce: number;
+  /**
+   * Whether is speaking
+   */
+  speaking: boolean;
+  /**
+   * Whether a opus stream is being played
+   */
+  playing: boolean;
+  /**
+   * Map of ssrc to user id
+   */
+  ssrcMap: Map<number, string>;
+  /**
+   * Reconnect attempts since the connection was last ready
+   */
+  reconnectAttempts: number;
+  options: VoiceConnectionOptions;
+  #reconnectTimeout?: NodeJS.Timeout;
+
+  constructor(options: VoiceConnectionOptions) {
+    super();
+
+    this.options = options;
+    this.guildId = options.guildId;
+    this.userId = options.userId;
+    this.channelId = null;
+    this.status = VoiceConnectionStatus.Signalling;
+    this.sequence = 0;
+    this.timestamp = 0;
+    this.nonce = 0;
+    this.speaking = false;
+    this.playing = false;
+    this.ssrcMap = new Map();
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * The voice websocket ping
+   */
+  get ping() {
+    return this.ws?.ping ?? -1;
+  }
+
+  get ready() {
+    return this.status === VoiceConnectionStatus.Ready;
+  }
+
+  debug(message: string) {
+    return this.emit(
+      VoiceConnectionEvents.Debug,
+      `[${this.guildId}] ${message}`,
+    );
+  }
+
+  _makeErr(message: string, code: number) {
+    return VoiceConnectionError(message, code, this.guildId);
+  }
+
+  /**
+   * Set data received in voiceStateUpdate
+   * @param sessionId The voice session id
+   * @param channelId The voice channel id
+   */
+  setStateData(sessionId: string, channelId: string | null) {
+    const changed = this.sessionId !== sessionId;
+    const moved = this.channelId !== null && this.channelId !== channelId;
+
+    this.sessionId = sessionId;
+    this.channelId = channelId;
+
+    if (channelId === null) {
+      this.destroy();
+      return;
+    }
+
+    if (moved) this.emit(VoiceConnectionEvents.Move, channelId);
+    if (changed) this.#tryConnect();
+  }
+
+  /**
+   * Set data received in voiceServerUpdate
+   * @param endpoint The voice server endpoint
+   * @param token The voice token
+   */
+  setServerData(endpoint: string | null, token: string) {
+    // Voice server is allocating, a new voiceServerUpdate will be received
+    if (!endpoint) {
+      this.debug("Voice server is unavailable, waiting a new one");
+      this.#closeNetworking();
+      this.status = VoiceConnectionStatus.Signalling;
+      return;
+    }
+
+    this.endpoint = endpoint;
+    this.token = token;
+
+    // Voice server changed, a new connection should be made
+    this.#closeNetworking();
+    this.#tryConnect();
+  }
+
+  #tryConnect() {
+    if (this.status === VoiceConnectionStatus.Destroyed) return;
+
+    if (
+      this.sessionId &&
+      this.token &&
+      (this.endpoint || this.options.endpoint)
+    ) {
+      this.connect();
+    }
+  }
+
+  /**
+   * Connect to voice websocket
+   * @param resume Whether to resume the previous session
+   */
+  connect(resume = false) {
+    clearTimeout(this.#reconnectTimeout);
+
+    if (resume) {
+      // Keep udp socket and secret key, only the websocket is replaced
+      const ws = this.ws;
+      this.ws = undefined;
+      ws?.destroy();
+    } else {
+      this.#closeNetworking();
+    }
+
+    const url =
+      this.options.endpoint ??
+      `wss://${this.endpoint!.replace(/:\d+$/, "")}?v=${VoiceGatewayVersion}`;
+
+    this.debug(`Connecting to voice websocket ${url}`);
+
+    this.status = VoiceConnectionStatus.Connecting;
+
+    const ws = new VoiceWebSocket(url);
+
+    ws.on("debug", (message) => this.debug(message));
+    ws.on("error", (err) => this.emit(VoiceConnectionEvents.Error, err));
+    ws.on("ping", (ping) => this.emit(VoiceConnectionEvents.Ping, ping));
+    ws.on("packet", (packet) => {
+      this.#onPacket(packet).catch((err) =>
+        this.emit(VoiceConnectionEvents.Error, err),
+      );
+    });
+    ws.on("close", (code, reason) => {
+      if (this.ws !== ws) return;
+      this.#onClose(code, reason);
+    });
+    ws.on("open", () => {
+      if (resume) {
+        this.status = VoiceConnectionStatus.Resuming;
+        ws.send({
+          op: VoiceOpcodes.Resume,
+          d: {
+            server_id: this.guildId,
+            session_id: this.sessionId!,
+            token: this.token!,
+          },
+        });
+      } else {
+        this.status = VoiceConnectionStatus.Identifying;
+        ws.send({
+          op: VoiceOpcodes.Identify,
+          d: {
+            server_id: this.guildId,
+            user_id: this.userId,
+            session_id: this.sessionId!,
+            token: this.token!,
+          },
+        });
+      }
+    });
+
+    this.ws = ws;
+  }
+
+  async #onPacket(packet: VoiceReceivePayload) {
+    switch (packet.op) {
+      case VoiceOpcodes.Ready: {
+        const { ssrc, ip, port, modes } = packet.d;
+
+        this.ssrc = ssrc;
+        this.mode = Encryption.selectMode(modes, this.options.encryptionModes);
+
+        if (!this.mode) {
+          throw this._makeErr(
+            `No supported encryption mode available. Offered: ${modes.join(
+              ", ",
+            )}`,
+            VoiceCloseCodes.UnknownEncryptionMode,
+          );
+        }
+
+        this.status = VoiceConnectionStatus.Discovering;
+
+        const udp = new VoiceUDPSocket(
+          this.options.udpEndpoint ?? { ip, port },
+        );
+
+        udp.on("error", (err) => this.emit(VoiceConnectionEvents.Error, err));
+        udp.on("message", (message) => this.#onUDPMessage(message));
+
+        this.udp = udp;
+
+        const local = await udp.performIPDiscovery(ssrc);
+
+        this.debug(`Discovered external address ${local.ip}:${local.port}`);
+
+        this.status = VoiceConnectionStatus.SelectingProtocol;
+
+        this.ws?.send({
+          op: VoiceOpcodes.SelectProtocol,
+          d: {
+            protocol: "udp",
+            data: {
+              address: local.ip,
+              port: local.port,
+              mode: this.mode,
+            },
+          },
+        });
+        break;
+      }
+      case VoiceOpcodes.SessionDescription: {
+        this.mode = packet.d.mode as EncryptionMode;
+        this.secretKey = new Uint8Array(packet.d.secret_key);
+        this.status = VoiceConnectionStatus.Ready;
+        this.reconnectAttempts = 0;
+
+        this.debug(`Session ready using ${this.mode}`);
+        this.emit(VoiceConnectionEvents.Ready);
+        break;
+      }
+      case VoiceOpcodes.Resumed: {
+        this.status = VoiceConnectionStatus.Ready;
+        this.reconnectAttempts = 0;
+        this.debug("Resumed voice session");
+        this.emit(VoiceConnectionEvents.Resume);
+        break;
+      }
+      case VoiceOpcodes.Speaking: {
+        const { user_id, ssrc, speaking } = packet.d;
+
+        this.ssrcMap.set(ssrc, user_id);
+        this.emit(VoiceConnectionEvents.Speaking, user_id, ssrc, speaking);
+        break;
+      }
+      case VoiceOpcodes.ClientDisconnect: {
+        const { user_id } = packet.d;
+
+        for (const [ssrc, userId] of this.ssrcMap) {
+          if (userId === user_id) this.ssrcMap.delete(ssrc);
+        }
+
+        this.emit(VoiceConnectionEvents.ClientDisconnect, user_id);
+        break;
+      }
+    }
+  }
+
+  #onClose(code: number, reason: string) {
+    this.emit(VoiceConnectionEvents.Close, code, reason);
+    this.debug(`Voice connection closed with code: ${code} ${reason}`);
+
+    if (this.status === VoiceConnectionStatus.Destroyed) return;
+
+    switch (code) {
+      case VoiceCloseCodes.Disconnected: {
+        this.#closeNetworking();
+        this.status = VoiceConnectionStatus.Disconnected;
+        this.emit(VoiceConnectionEvents.Disconnect);
+        return;
+      }
+      case VoiceCloseCodes.SessionNoLongerValid:
+      case VoiceCloseCodes.SessionTimeout: {
+        this.debug("Session is no longer valid. Reconnecting...");
+        return this.#reconnect(false, code);
+      }
+      case VoiceCloseCodes.UnknownOpcode:
+      case VoiceCloseCodes.FailedToDecode:
+      case VoiceCloseCodes.NotAuthenticated:
+      case VoiceCloseCodes.AuthenticationFailed:
+      case VoiceCloseCodes.AlreadyAuthenticated:
+      case VoiceCloseCodes.ServerNotFound:
+      case VoiceCloseCodes.UnknownProtocol:
+      case VoiceCloseCodes.UnknownEncryptionMode: {
+        this.#closeNetworking();
+        this.status = VoiceConnectionStatus.Disconnected;
+        this.emit(
+          VoiceConnectionEvents.Error,
+          this._makeErr(reason || "Voice connection closed", code),
+        );
+        return;
+      }
+      default: {
+        if (this.secretKey) {
+          this.debug("Trying to resume voice session...");
+          return this.#reconnect(true, code);
+        }
+
+        return this.#reconnect(false, code);
+      }
+    }
+  }
+
+  #reconnect(resume: boolean, code: number) {
+    const maxAttempts = this.options.maxReconnectAttempts ?? 5;
+
+    if (this.reconnectAttempts >= maxAttempts) {
+      this.#closeNetworking();
+      this.status = VoiceConnectionStatus.Disconnected;
+      this.emit(
+        VoiceConnectionEvents.Error,
+        this._makeErr(
+          `Failed to reconnect after ${maxAttempts} attempts`,
+          code,
+        ),
+      );
+      return;
+    }
+
+    const wait = Math.min(
+      ReconnectDelay.Initial * 2 ** this.reconnectAttempts,
+      ReconnectDelay.Max,
+    );
+
+    this.reconnectAttempts++;
+    this.debug(
+      `Reconnecting in ${wait}ms (attempt ${this.reconnectAttempts}/${maxAttempts})`,
+    );
+
+    this.#reconnectTimeout = setTimeout(() => this.connect(resume), wait);
+  }
+
+  #onUDPMessage(message: Buffer) {
+    if (!this.ready || !this.secretKey || message.length <= 12) return;
+
+    // Ignore rtcp packets
+    const payloadType = message[1] & 0x7f;
+    if (payloadType >= 72 && payloadType <= 76) return;
+
+    const opus = Encryption.decrypt(this.mode!, message, this.secretKey);
+
+    if (!opus) {
+      this.debug("Failed to decrypt received voice packet");
+      return;
+    }
+
+    const ssrc = message.readUInt32BE(8);
+
+    this.emit(VoiceConnectionEvents.Packet, {
+      ssrc,
+      userId: this.ssrcMap.get(ssrc),
+      sequence: message.readUInt16BE(2),
+      timestamp: message.readUInt32BE(4),
+      opus,
+    });
+  }
+
+  #closeNetworking() {
+    const ws = this.ws;
+    this.ws = undefined;
+    ws?.destroy();
+
+    this.udp?.destroy();
+    this.udp = undefined;
+    this.secretKey = undefined;
+    this.ssrc = undefined;
+    this.speaking = false;
+  }
+
+  /**
+   * Send's speaking state to voice gateway
+   * @param speaking Whether is speaking
+   */
+  setSpeaking(speaking: boolean) {
+    if (this.speaking === speaking || !this.ready) return;
+
+    this.speaking = speaking;
+
+    this.ws?.send({
+      op: VoiceOpcodes.Speaking,
+      d: {
+        speaking: speaking ? 1 : 0,
+        delay: 0,
+        ssrc: this.ssrc!,
+      },
+    });
+  }
+
+  createPacketHeader() {
+    const header = Buffer.alloc(12);
+
+    header[0] = 0x80;
+    header[1] = 0x78;
+    header.writeUInt16BE(this.sequence, 2);
+    header.writeUInt32BE(this.timestamp, 4);
+    header.writeUInt32BE(this.ssrc!, 8);
+
+    return header;
+  }
+
+  /**
+   * Encrypt and send a opus frame
+   * @param frame The opus encoded frame (20ms)
+   */
+  sendAudioFrame(frame: Buffer) {
+    if (!this.ready || !this.udp) {
+      throw this._makeErr("Voice connection is not ready", -1);
+    }
+
+    const packet = Encryption.encrypt(
+      this.mode!,
+      this.createPacketHeader(),
+      frame,
+      this.secretKey!,
+      this.nonce,
+    );
+
+    this.sequence = (this.sequence + 1) & 0xffff;
+    this.timestamp = (this.timestamp + FrameSize) >>> 0;
+    this.nonce = (this.nonce + 1) >>> 0;
+
+    this.udp.send(packet);
+  }
+
+  /**
+   * Play a stream of opus frames
+   * @param stream Iterable of 20ms opus frames
+   */
+  async playOpusStream(stream: AsyncIterable<Buffer> | Iterable<Buffer>) {
+    if (this.playing) {
+      throw this._makeErr("Already playing a stream", -1);
+    }
+
+    this.playing = true;
+    this.setSpeaking(true);
+
+    let next = Date.now();
+
+    try {
+      for await (const frame of stream) {
+        if (!this.playing || !this.ready) break;
+
+        this.sendAudioFrame(frame);
+
+        next += FrameDuration;
+        await delay(Math.max(0, next - Date.now()));
+      }
+
+      // Avoid unintended opus interpolation
+      for (let i = 0; i < SilenceFramesCount && this.ready; i++) {
+        this.sendAudioFrame(SilenceFrame);
+        await delay(FrameDuration);
+      }
+    } finally {
+      this.playing = false;
+      this.setSpeaking(false);
+    }
+  }
+
+  /**
+   * Stop the current playing stream
+   */
+  stop() {
+    this.playing = false;
+  }
+
+  /**
+   * Destroy this connection
+   */
+  destroy() {
+    if (this.status === VoiceConnectionStatus.Destroyed) return;
+
+    clearTimeout(this.#reconnectTimeout);
+    this.playing = false;
+    this.#closeNetworking();
+    this.status = VoiceConnectionStatus.Destroyed;
+  }
+}
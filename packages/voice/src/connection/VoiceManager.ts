@@ -0,0 +1,201 @@
+import { MakeError } from "@darkcord/utils";
+import type { Client, StageChannel, VoiceChannel } from "darkcord";
+import {
+  GatewayDispatchEvents,
+  GatewayDispatchPayload,
+  GatewayOpcodes,
+  GatewayReceivePayload,
+  GatewaySendPayload,
+} from "discord-api-types/v10";
+import { clearTimeout, setTimeout } from "node:timers";
+import type { JoinVoiceChannelOptions } from "../types";
+import {
+  VoiceConnectionEvents,
+  VoiceConnectionStatus,
+} from "../utils/Constants";
+import { VoiceConnection, VoiceConnectionError } from "./VoiceConnection";
+
+export class VoiceManager {
+  /**
+   * Voice connections mapped by guild id
+   */
+  connections: Map<string, VoiceConnection>;
+
+  constructor(public client: Client) {
+    this.connections = new Map();
+
+    this.client.on("packet", (payload) => this.#onPacket(payload));
+  }
+
+  #onPacket(payload: GatewayReceivePayload | GatewaySendPayload) {
+    if (payload.op !== GatewayOpcodes.Dispatch) return;
+
+    const data = payload as GatewayDispatchPayload;
+
+    switch (data.t) {
+      case GatewayDispatchEvents.VoiceStateUpdate: {
+        if (!data.d.guild_id || data.d.user_id !== this.client.user?.id) {
+          return;
+        }
+
+        const connection = this.connections.get(data.d.guild_id);
+
+        connection?.setStateData(data.d.session_id, data.d.channel_id);
+
+        if (connection && data.d.channel_id === null) {
+          this.connections.delete(data.d.guild_id);
+        }
+        break;
+      }
+      case GatewayDispatchEvents.VoiceServerUpdate: {
+        this.connections
+          .get(data.d.guild_id)
+          ?.setServerData(data.d.endpoint, data.d.token);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get the gateway shard of a guild
+   * @param guildId The id of guild
+   */
+  getShard(guildId: string) {
+    const guild = this.client.guilds.cache.get(guildId);
+
+    if (guild) {
+      return this.client.websocket.shards.get(guild.shardId);
+    }
+
+    const totalShards = BigInt(this.client.websocket.shards.size || 1);
+
+    return this.client.websocket.shards.get(
+      ((BigInt(guildId) >> 22n) % totalShards).toString(),
+    );
+  }
+
+  /**
+   * Join a voice channel
+   * @param channel The voice channel to join
+   * @param options Options to join
+   * @returns The ready voice connection
+   */
+  join(
+    channel: VoiceChannel | StageChannel,
+    options?: JoinVoiceChannelOptions,
+  ) {
+    const guildId = channel.guildId;
+    const shard = this.getShard(guildId);
+
+    if (!shard) {
+      throw MakeError({
+        name: "ShardNotFound",
+        message: `Cannot find the gateway shard of guild ${guildId}`,
+      });
+    }
+
+    if (!this.client.user) {
+      throw MakeError({
+        name: "ClientNotReady",
+        message: "Client must be ready to join voice channels",
+      });
+    }
+
+    let connection = this.connections.get(guildId);
+
+    if (!connection || connection.status === VoiceConnectionStatus.Destroyed) {
+      connection = new VoiceConnection({
+        guildId,
+        userId: this.client.user.id,
+        endpoint: options?.endpoint,
+        udpEndpoint: options?.udpEndpoint,
+        encryptionModes: options?.encryptionModes,
+        maxReconnectAttempts: options?.maxReconnectAttempts,
+      });
+
+      this.connections.set(guildId, connection);
+    }
+
+    shard.updateVoiceState({
+      guildId,
+      channelId: channel.id,
+      selfDeaf: Boolean(options?.selfDeaf),
+      selfMute: Boolean(options?.selfMute),
+    });
+
+    const conn = connection;
+
+    if (conn.ready && conn.channelId === channel.id) {
+      return Promise.resolve(conn);
+    }
+
+    return new Promise<VoiceConnection>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        conn.off(VoiceConnectionEvents.Ready, onReady);
+        conn.off(VoiceConnectionEvents.Error, onError);
+        conn.off(VoiceConnectionEvents.Disconnect, onDisconnect);
+        conn.off(VoiceConnectionEvents.Move, onMove);
+      };
+
+      const onReady = () => {
+        cleanup();
+        resolve(conn);
+      };
+
+      // Moving a ready connection keeps the voice server, no ready is received
+      const onMove = (channelId: string) => {
+        if (channelId === channel.id && conn.ready) onReady();
+      };
+
+      const onError = (err: unknown) => {
+        cleanup();
+        reject(err);
+      };
+
+      const onDisconnect = () =>
+        onError(
+          VoiceConnectionError(
+            "Voice connection was disconnected",
+            -1,
+            guildId,
+          ),
+        );
+
+      const timer = setTimeout(
+        () =>
+          onError(
+            VoiceConnectionError(
+              "Voice connection was not ready in time",
+              -1,
+              guildId,
+            ),
+          ),
+        options?.timeout ?? 15_000,
+      ).unref();
+
+      conn.once(VoiceConnectionEvents.Ready, onReady);
+      conn.once(VoiceConnectionEvents.Error, onError);
+      conn.once(VoiceConnectionEvents.Disconnect, onDisconnect);
+      conn.on(VoiceConnectionEvents.Move, onMove);
+    });
+  }
+
+  /**
+   * Leave the voice channel of a guild
+   * @param guildId The id of guild
+   */
+  leave(guildId: string) {
+    const connection = this.connections.get(guildId);
+
+    this.getShard(guildId)?.updateVoiceState({
+      guildId,
+      channelId: null,
+      selfDeaf: false,
+      selfMute: false,
+    });
+
+    connection?.destroy();
+    this.connections.delete(guildId);
+  }
+}
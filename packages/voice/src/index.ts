@@ -0,0 +1,7 @@
+export * from "./connection/VoiceConnection";
+export * from "./connection/VoiceManager";
+export * from "./networking/VoiceUDPSocket";
+export * from "./networking/VoiceWebSocket";
+export * from "./utils/Constants";
+export * from "./utils/Encryption";
+export * from "./types";
@@ -0,0 +1,149 @@
+import { MakeError } from "@darkcord/utils";
+import { createSocket, Socket } from "node:dgram";
+import EventEmitter from "node:events";
+import { isIPv4 } from "node:net";
+import {
+  clearInterval,
+  clearTimeout,
+  setInterval,
+  setTimeout,
+} from "node:timers";
+import type { UDPEndpoint } from "../types";
+
+export interface VoiceUDPSocketEvents {
+  message: [message: Buffer];
+  error: [error: any];
+  close: [];
+}
+
+export declare interface VoiceUDPSocket {
+  on<T extends keyof VoiceUDPSocketEvents>(
+    event: T,
+    listener: (...args: VoiceUDPSocketEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof VoiceUDPSocketEvents>(
+    event: T,
+    listener: (...args: VoiceUDPSocketEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof VoiceUDPSocketEvents>(
+    event: T,
+    ...args: VoiceUDPSocketEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+/**
+ * Interval to send keep alive packets, avoiding NAT to close the connection
+ */
+const KeepAliveInterval = 5_000;
+const DiscoveryPacketSize = 74;
+
+export class VoiceUDPSocket extends EventEmitter {
+  socket: Socket;
+  keepAliveCounter: number;
+  keepAliveInterval: NodeJS.Timeout;
+  destroyed: boolean;
+
+  constructor(public remote: UDPEndpoint) {
+    super();
+
+    this.destroyed = false;
+    this.keepAliveCounter = 0;
+    this.socket = createSocket(isIPv4(remote.ip) ? "udp4" : "udp6");
+    this.socket.on("message", (message) => this.emit("message", message));
+    this.socket.on("error", (err) => this.emit("error", err));
+    this.socket.on("close", () => this.emit("close"));
+
+    this.keepAliveInterval = setInterval(
+      () => this.keepAlive(),
+      KeepAliveInterval,
+    ).unref();
+  }
+
+  /**
+   * Send a buffer to remote
+   * @param buffer The buffer to be sent
+   */
+  send(buffer: Buffer) {
+    if (this.destroyed) return;
+
+    this.socket.send(buffer, this.remote.port, this.remote.ip);
+  }
+
+  keepAlive() {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32LE(this.keepAliveCounter, 0);
+
+    this.send(buffer);
+
+    this.keepAliveCounter =
+      this.keepAliveCounter >= 2 ** 32 - 1 ? 0 : this.keepAliveCounter + 1;
+  }
+
+  /**
+   * Discover the external ip and port of this socket
+   * @param ssrc The ssrc received in voice ready
+   * @param timeout Time to wait the response
+   */
+  performIPDiscovery(ssrc: number, timeout = 10_000) {
+    return new Promise<UDPEndpoint>((resolve, reject) => {
+      let timer: NodeJS.Timeout;
+
+      const listener = (message: Buffer) => {
+        // Response type
+        if (
+          message.length < DiscoveryPacketSize ||
+          message.readUInt16BE(0) !== 0x2
+        ) {
+          return;
+        }
+
+        clearTimeout(timer);
+        this.off("message", listener);
+
+        const address = message.subarray(8, 72);
+        const end = address.indexOf(0);
+
+        resolve({
+          ip: address
+            .subarray(0, end === -1 ? undefined : end)
+            .toString("utf8"),
+          port: message.readUInt16BE(72),
+        });
+      };
+
+      timer = setTimeout(() => {
+        this.off("message", listener);
+        reject(
+          MakeError({
+            name: "IPDiscoveryTimeout",
+            message: "Did not receive the ip discovery response in time",
+          }),
+        );
+      }, timeout).unref();
+
+      this.on("message", listener);
+
+      const request = Buffer.alloc(DiscoveryPacketSize);
+      // Request type
+      request.writeUInt16BE(0x1, 0);
+      request.writeUInt16BE(70, 2);
+      request.writeUInt32BE(ssrc, 4);
+
+      this.send(request);
+    });
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    clearInterval(this.keepAliveInterval);
+
+    try {
+      this.socket.close();
+    } catch {}
+  }
+}
@@ -0,0 +1,159 @@
+import { VoiceOpcodes } from "discord-api-types/voice/v4";
+import EventEmitter from "node:events";
+import { clearInterval, setInterval } from "node:timers";
+import WebSocket from "ws";
+import type { VoiceReceivePayload, VoiceSendPayload } from "../types";
+
+export interface VoiceWebSocketEvents {
+  open: [];
+  close: [code: number, reason: string];
+  packet: [packet: VoiceReceivePayload];
+  debug: [message: string];
+  error: [error: any];
+  ping: [ping: number];
+}
+
+export declare interface VoiceWebSocket {
+  on<T extends keyof VoiceWebSocketEvents>(
+    event: T,
+    listener: (...args: VoiceWebSocketEvents[T]) => any,
+  ): this;
+  on(event: string, listener: (...args: any[]) => any): this;
+  once<T extends keyof VoiceWebSocketEvents>(
+    event: T,
+    listener: (...args: VoiceWebSocketEvents[T]) => any,
+  ): this;
+  once(event: string, listener: (...args: any[]) => any): this;
+  emit<T extends keyof VoiceWebSocketEvents>(
+    event: T,
+    ...args: VoiceWebSocketEvents[T]
+  ): boolean;
+  emit(event: string, ...args: any[]): boolean;
+}
+
+export class VoiceWebSocket extends EventEmitter {
+  /**
+   * The websocket connected to voice gateway
+   */
+  ws: WebSocket;
+  heartbeatInterval: number;
+  heartbeatSendInterval?: NodeJS.Timeout;
+  heartbeatAck: boolean;
+  lastHeartbeatSent: number;
+  /**
+   * The voice websocket ping
+   */
+  ping: number;
+  destroyed: boolean;
+
+  constructor(public url: string) {
+    super();
+
+    this.heartbeatInterval = -1;
+    this.heartbeatAck = true;
+    this.lastHeartbeatSent = -1;
+    this.ping = -1;
+    this.destroyed = false;
+
+    this.ws = new WebSocket(url);
+    this.ws.onopen = () => this.emit("open");
+    this.ws.onclose = ({ code, reason }) => {
+      this.#stopHeartbeat();
+      this.emit("close", code, reason);
+    };
+    this.ws.onerror = ({ error }) => this.emit("error", error);
+    this.ws.onmessage = (message) => this.#onMessage(message);
+  }
+
+  debug(message: string) {
+    return this.emit("debug", message);
+  }
+
+  #onMessage(message: WebSocket.MessageEvent) {
+    if (typeof message.data !== "string") return;
+
+    let packet: VoiceReceivePayload;
+
+    try {
+      packet = JSON.parse(message.data);
+    } catch (err) {
+      this.emit("error", err);
+      return;
+    }
+
+    if (packet.op === VoiceOpcodes.Hello) {
+      this.setHeartbeatInterval(packet.d.heartbeat_interval);
+    } else if (packet.op === VoiceOpcodes.HeartbeatAck) {
+      this.heartbeatAck = true;
+      this.ping = Date.now() - this.lastHeartbeatSent;
+      this.emit("ping", this.ping);
+    }
+
+    this.emit("packet", packet);
+  }
+
+  /**
+   * Send's payload to voice gateway
+   * @param data Data to be sent
+   */
+  send(data: VoiceSendPayload) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+
+    this.ws.send(JSON.stringify(data));
+  }
+
+  sendHeartbeat() {
+    if (!this.heartbeatAck) {
+      this.debug("Dead voice connection found, closing...");
+      this.ws.close(4_009, "Heartbeat ack not received");
+      return;
+    }
+
+    this.heartbeatAck = false;
+    this.lastHeartbeatSent = Date.now();
+
+    this.send({
+      op: VoiceOpcodes.Heartbeat,
+      d: this.lastHeartbeatSent,
+    });
+  }
+
+  setHeartbeatInterval(interval: number) {
+    this.#stopHeartbeat();
+
+    this.heartbeatInterval = interval;
+    this.heartbeatAck = true;
+    this.debug(`Received Hello, heartbeat interval: ${interval}`);
+
+    this.heartbeatSendInterval = setInterval(
+      () => this.sendHeartbeat(),
+      interval,
+    ).unref();
+  }
+
+  #stopHeartbeat() {
+    if (this.heartbeatSendInterval) {
+      clearInterval(this.heartbeatSendInterval);
+      this.heartbeatSendInterval = undefined;
+    }
+  }
+
+  /**
+   * Close this websocket
+   * @param code Close code
+   * @param reason Close reason
+   */
+  destroy(code = 1_000, reason?: string) {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.#stopHeartbeat();
+
+    if (
+      this.ws.readyState === WebSocket.OPEN ||
+      this.ws.readyState === WebSocket.CONNECTING
+    ) {
+      this.ws.close(code, reason);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import type { VoiceOpcodes } from "discord-api-types/voice/v4";
+import type { EncryptionMode } from "./utils/Constants";
+
+export interface UDPEndpoint {
+  ip: string;
+  port: number;
+}
+
+export interface VoiceConnectionOptions {
+  /**
+   * The id of guild for this connection
+   */
+  guildId: string;
+  /**
+   * The id of the user (generally the client user) that is connecting
+   */
+  userId: string;
+  /**
+   * Overrides the voice websocket url received in voiceServerUpdate
+   * @example "ws://127.0.0.1:8080"
+   */
+  endpoint?: string;
+  /**
+   * Overrides the udp ip and port received in voice ready payload
+   */
+  udpEndpoint?: UDPEndpoint;
+  /**
+   * Encryption modes that can be selected, ordered by preference
+   */
+  encryptionModes?: EncryptionMode[];
+  /**
+   * Attempts to reconnect in a row before giving up
+   * @default 5
+   */
+  maxReconnectAttempts?: number;
+}
+
+export interface JoinVoiceChannelOptions
+  extends Pick<
+    VoiceConnectionOptions,
+    "endpoint" | "udpEndpoint" | "maxReconnectAttempts"
+  > {
+  selfDeaf?: boolean;
+  selfMute?: boolean;
+  /**
+   * Time to wait until the connection is ready
+   * @default 15_000
+   */
+  timeout?: number;
+  encryptionModes?: EncryptionMode[];
+}
+
+export interface VoiceReceivedPacket {
+  /**
+   * The synchronization source of this packet
+   */
+  ssrc: number;
+  /**
+   * The id of user who sent this packet, if known
+   */
+  userId?: string;
+  sequence: number;
+  timestamp: number;
+  /**
+   * The decrypted opus frame
+   */
+  opus: Buffer;
+}
+
+export interface VoiceConnectionEventsMap {
+  ready: [];
+  debug: [message: string];
+  error: [error: any];
+  close: [code: number, reason: string];
+  resume: [];
+  disconnect: [];
+  speaking: [userId: string, ssrc: number, speaking: number];
+  clientDisconnect: [userId: string];
+  packet: [packet: VoiceReceivedPacket];
+  ping: [ping: number];
+  move: [channelId: string];
+}
+
+export type VoiceReceivePayload =
+  | { op: VoiceOpcodes.Hello; d: { heartbeat_interval: number } }
+  | {
+      op: VoiceOpcodes.Ready;
+      d: { ssrc: number; ip: string; port: number; modes: string[] };
+    }
+  | {
+      op: VoiceOpcodes.SessionDescription;
+      d: { mode: string; secret_key: number[] };
+    }
+  | { op: VoiceOpcodes.HeartbeatAck; d: number }
+  | {
+      op: VoiceOpcodes.Speaking;
+      d: { user_id: string; ssrc: number; speaking: number };
+    }
+  | { op: VoiceOpcodes.Resumed; d: null }
+  | { op: VoiceOpcodes.ClientDisconnect; d: { user_id: string } };
+
+export type VoiceSendPayload =
+  | {
+      op: VoiceOpcodes.Identify;
+      d: {
+        server_id: string;
+        user_id: string;
+        session_id: string;
+        token: string;
+      };
+    }
+  | {
+      op: VoiceOpcodes.SelectProtocol;
+      d: {
+        protocol: "udp";
+        data: { address: string; port: number; mode: string };
+      };
+    }
+  | { op: VoiceOpcodes.Heartbeat; d: number }
+  | {
+      op: VoiceOpcodes.Speaking;
+      d: { speaking: number; delay: number; ssrc: number };
+    }
+  | {
+      op: VoiceOpcodes.Resume;
+      d: { server_id: string; session_id: string; token: string };
+    };
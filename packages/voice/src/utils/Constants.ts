@@ -0,0 +1,58 @@
+export enum VoiceConnectionStatus {
+  Signalling,
+  Connecting,
+  Identifying,
+  Resuming,
+  Discovering,
+  SelectingProtocol,
+  Ready,
+  Disconnected,
+  Destroyed,
+}
+
+export enum VoiceConnectionEvents {
+  Ready = "ready",
+  Debug = "debug",
+  Error = "error",
+  Close = "close",
+  Resume = "resume",
+  Disconnect = "disconnect",
+  Speaking = "speaking",
+  ClientDisconnect = "clientDisconnect",
+  Packet = "packet",
+  Ping = "ping",
+  Move = "move",
+}
+
+/**
+ * Encryption modes supported by darkcord, in order of preference
+ */
+export enum EncryptionMode {
+  AES256GCM = "aead_aes256_gcm_rtpsize",
+  XSalsa20Poly1305Lite = "xsalsa20_poly1305_lite",
+  XSalsa20Poly1305Suffix = "xsalsa20_poly1305_suffix",
+  XSalsa20Poly1305 = "xsalsa20_poly1305",
+}
+
+/**
+ * Delays in milliseconds before reconnecting, doubled after each failed attempt
+ */
+export const ReconnectDelay = {
+  Initial: 1_000,
+  Max: 30_000,
+};
+
+/**
+ * Opus frame duration in milliseconds
+ */
+export const FrameDuration = 20;
+
+/**
+ * Samples in a single 20ms opus frame at 48kHz
+ */
+export const FrameSize = 960;
+
+/**
+ * Opus encoded silence frame
+ */
+export const SilenceFrame = Buffer.from([0xf8, 0xff, 0xfe]);
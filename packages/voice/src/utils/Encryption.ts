@@ -0,0 +1,203 @@
+import { MakeError } from "@darkcord/utils";
+import crypto from "node:crypto";
+import type Nacl from "tweetnacl";
+import { EncryptionMode } from "./Constants";
+
+let nacl: typeof Nacl;
+
+function getNacl() {
+  if (nacl) return nacl;
+
+  try {
+    nacl = require("tweetnacl");
+  } catch {
+    throw MakeError({
+      name: "NoNacl",
+      message:
+        "Missing tweetnacl package, please install tweetnacl to use xsalsa20 encryption modes",
+    });
+  }
+
+  return nacl;
+}
+
+/**
+ * Size of the fixed part of a rtp header
+ */
+const RTPHeaderSize = 12;
+const AuthTagSize = 16;
+
+export namespace Encryption {
+  /**
+   * Whether a encryption mode can be used in this environment
+   * @param mode The encryption mode
+   */
+  export function isAvailable(mode: EncryptionMode | string) {
+    if (mode === EncryptionMode.AES256GCM) {
+      return crypto.getCiphers().includes("aes-256-gcm");
+    }
+
+    if (!Object.values<string>(EncryptionMode).includes(mode)) {
+      return false;
+    }
+
+    try {
+      getNacl();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Select the first mode offered by the voice server that is available
+   * @param offered Modes offered by the voice server
+   * @param preferred Modes ordered by preference
+   */
+  export function selectMode(
+    offered: string[],
+    preferred: EncryptionMode[] = Object.values(EncryptionMode),
+  ) {
+    return preferred.find(
+      (mode) => offered.includes(mode) && isAvailable(mode),
+    );
+  }
+
+  /**
+   * Encrypt a opus frame
+   * @param mode The encryption mode
+   * @param header The rtp header of packet
+   * @param audio The opus frame
+   * @param secretKey The secret key received in session description
+   * @param nonce Incremental nonce of this connection
+   * @returns The full packet to be sent
+   */
+  export function encrypt(
+    mode: EncryptionMode,
+    header: Buffer,
+    audio: Buffer,
+    secretKey: Uint8Array,
+    nonce: number,
+  ) {
+    if (mode === EncryptionMode.AES256GCM) {
+      const iv = Buffer.alloc(12);
+      iv.writeUInt32BE(nonce, 0);
+
+      const cipher = crypto.createCipheriv("aes-256-gcm", secretKey, iv);
+      cipher.setAAD(header);
+
+      return Buffer.concat([
+        header,
+        cipher.update(audio),
+        cipher.final(),
+        cipher.getAuthTag(),
+        iv.subarray(0, 4),
+      ]);
+    }
+
+    const { secretbox, randomBytes } = getNacl();
+    const iv = Buffer.alloc(24);
+
+    switch (mode) {
+      case EncryptionMode.XSalsa20Poly1305Lite: {
+        iv.writeUInt32BE(nonce, 0);
+        return Buffer.concat([
+          header,
+          secretbox(audio, iv, secretKey),
+          iv.subarray(0, 4),
+        ]);
+      }
+      case EncryptionMode.XSalsa20Poly1305Suffix: {
+        iv.set(randomBytes(24));
+        return Buffer.concat([header, secretbox(audio, iv, secretKey), iv]);
+      }
+      default: {
+        header.copy(iv, 0, 0, RTPHeaderSize);
+        return Buffer.concat([header, secretbox(audio, iv, secretKey)]);
+      }
+    }
+  }
+
+  /**
+   * Decrypt a received rtp packet
+   * @param mode The encryption mode
+   * @param packet The received packet
+   * @param secretKey The secret key received in session description
+   * @returns The opus frame or null if cannot be decrypted
+   */
+  export function decrypt(
+    mode: EncryptionMode,
+    packet: Buffer,
+    secretKey: Uint8Array,
+  ) {
+    const csrcCount = packet[0] & 0x0f;
+    const hasExtension = (packet[0] & 0x10) !== 0;
+    let headerSize = RTPHeaderSize + csrcCount * 4;
+    let payload: Buffer;
+
+    if (mode === EncryptionMode.AES256GCM) {
+      // In rtpsize modes the extension header is not encrypted, only the body
+      if (hasExtension) headerSize += 4;
+
+      const iv = Buffer.alloc(12);
+      packet.copy(iv, 0, packet.length - 4);
+
+      const decipher = crypto.createDecipheriv("aes-256-gcm", secretKey, iv);
+      decipher.setAAD(packet.subarray(0, headerSize));
+      decipher.setAuthTag(
+        packet.subarray(packet.length - 4 - AuthTagSize, packet.length - 4),
+      );
+
+      try {
+        payload = Buffer.concat([
+          decipher.update(
+            packet.subarray(headerSize, packet.length - 4 - AuthTagSize),
+          ),
+          decipher.final(),
+        ]);
+      } catch {
+        return null;
+      }
+
+      if (hasExtension) {
+        const extensionLength = packet.readUInt16BE(headerSize - 2);
+        payload = payload.subarray(extensionLength * 4);
+      }
+
+      return payload;
+    }
+
+    const iv = Buffer.alloc(24);
+    let data: Buffer;
+
+    switch (mode) {
+      case EncryptionMode.XSalsa20Poly1305Lite: {
+        packet.copy(iv, 0, packet.length - 4);
+        data = packet.subarray(headerSize, packet.length - 4);
+        break;
+      }
+      case EncryptionMode.XSalsa20Poly1305Suffix: {
+        packet.copy(iv, 0, packet.length - 24);
+        data = packet.subarray(headerSize, packet.length - 24);
+        break;
+      }
+      default: {
+        packet.copy(iv, 0, 0, RTPHeaderSize);
+        data = packet.subarray(headerSize);
+      }
+    }
+
+    const opened = getNacl().secretbox.open(data, iv, secretKey);
+
+    if (!opened) return null;
+
+    payload = Buffer.from(opened);
+
+    if (hasExtension && payload[0] === 0xbe && payload[1] === 0xde) {
+      const extensionLength = payload.readUInt16BE(2);
+      payload = payload.subarray(4 + extensionLength * 4);
+    }
+
+    return payload;
+  }
+}
@@ -0,0 +1,162 @@
+import { GatewayDispatchEvents, GatewayOpcodes } from "discord-api-types/v10";
+import { VoiceOpcodes } from "discord-api-types/voice/v4";
+import type { Client, VoiceChannel } from "darkcord";
+import assert from "node:assert/strict";
+import { createSocket } from "node:dgram";
+import EventEmitter from "node:events";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { WebSocketServer } from "ws";
+import { EncryptionMode, VoiceManager } from "../src";
+
+const guildId = "1";
+const userId = "2";
+
+/**
+ * Voice server answering the handshake of a single connection
+ */
+function createVoiceServer() {
+  const udp = createSocket("udp4");
+  const ws = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  const listening = new Promise((resolve) => ws.once("listening", resolve));
+  const identified: unknown[] = [];
+
+  udp.on("message", (message, remote) => {
+    if (message.readUInt16BE(0) !== 0x1) return;
+
+    const response = Buffer.alloc(74);
+    response.writeUInt16BE(0x2, 0);
+    response.writeUInt16BE(70, 2);
+    response.write(remote.address, 8);
+    response.writeUInt16BE(remote.port, 72);
+
+    udp.send(response, remote.port, remote.address);
+  });
+
+  ws.on("connection", (socket) => {
+    socket.on("message", (raw) => {
+      const packet = JSON.parse(raw.toString());
+
+      if (packet.op === VoiceOpcodes.Identify) {
+        identified.push(packet.d);
+        socket.send(
+          JSON.stringify({
+            op: VoiceOpcodes.Ready,
+            d: {
+              ssrc: 1,
+              ip: "127.0.0.1",
+              port: (udp.address() as AddressInfo).port,
+              modes: [EncryptionMode.AES256GCM],
+            },
+          }),
+        );
+      } else if (packet.op === VoiceOpcodes.SelectProtocol) {
+        socket.send(
+          JSON.stringify({
+            op: VoiceOpcodes.SessionDescription,
+            d: { mode: packet.d.data.mode, secret_key: Array(32).fill(0) },
+          }),
+        );
+      }
+    });
+  });
+
+  return {
+    identified,
+    listen: async () => {
+      await new Promise<void>((resolve) => udp.bind(0, "127.0.0.1", resolve));
+      await listening;
+      return `ws://127.0.0.1:${(ws.address() as AddressInfo).port}`;
+    },
+    close: () => {
+      udp.close();
+      for (const socket of ws.clients) socket.terminate();
+      return new Promise((resolve) => ws.close(resolve));
+    },
+  };
+}
+
+/**
+ * Client with a shard answering voice state updates like Discord
+ */
+function createClient() {
+  const client = new EventEmitter() as EventEmitter & Record<string, any>;
+  let joined = false;
+
+  const dispatch = (t: GatewayDispatchEvents, d: unknown) =>
+    client.emit("packet", { op: GatewayOpcodes.Dispatch, t, d });
+
+  const shard = {
+    updateVoiceState: ({ channelId }: { channelId: string | null }) =>
+      setImmediate(() => {
+        dispatch(GatewayDispatchEvents.VoiceStateUpdate, {
+          guild_id: guildId,
+          user_id: userId,
+          session_id: "session",
+          channel_id: channelId,
+        });
+
+        // Moving between channels keeps the voice server
+        if (!joined && channelId) {
+          joined = true;
+          dispatch(GatewayDispatchEvents.VoiceServerUpdate, {
+            guild_id: guildId,
+            token: "token",
+            endpoint: "voice.discord.media:443",
+          });
+        }
+      }),
+  };
+
+  client.user = { id: userId };
+  client.guilds = { cache: new Map() };
+  client.websocket = { shards: new Map([["0", shard]]) };
+
+  return client as unknown as Client;
+}
+
+const voiceChannel = (id: string) => ({ id, guildId } as VoiceChannel);
+
+describe("VoiceManager", () => {
+  const server = createVoiceServer();
+  const voice = new VoiceManager(createClient());
+  let endpoint: string;
+
+  before(async () => {
+    endpoint = await server.listen();
+  });
+
+  after(async () => {
+    voice.leave(guildId);
+    await server.close();
+  });
+
+  it("connects to the injected endpoint", async () => {
+    const connection = await voice.join(voiceChannel("10"), {
+      endpoint,
+      timeout: 2_000,
+    });
+
+    assert.ok(connection.ready);
+    assert.equal(connection.channelId, "10");
+    assert.deepEqual(server.identified, [
+      {
+        server_id: guildId,
+        user_id: userId,
+        session_id: "session",
+        token: "token",
+      },
+    ]);
+  });
+
+  it("resolves when a ready connection is moved", async () => {
+    const connection = await voice.join(voiceChannel("11"), {
+      endpoint,
+      timeout: 2_000,
+    });
+
+    assert.ok(connection.ready);
+    assert.equal(connection.channelId, "11");
+    assert.equal(server.identified.length, 1);
+  });
+});
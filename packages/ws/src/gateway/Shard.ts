@@ -11,6 +11,7 @@ import type {
   ClientEvents,
   Constants,
   EventSource,
+  GatewaySession,
   GatewayShardEvents,
   GatewayShardOptions,
   KeysToCamelCase,
@@ -207,6 +208,11 @@ export class GatewayShard extends EventEmitter {
    * Intents of this shard to be sent in identify
    */
   intents: GatewayIntentBits;
+  /**
+   * Waits the identify rate limit before identifying again,
+   * when a session can't be resumed
+   */
+  waitIdentify?: () => Promise<void>;
   presence: GatewayPresenceUpdateData;
 
   constructor(
@@ -403,7 +409,7 @@ export class GatewayShard extends EventEmitter {
           this.sequenceId = undefined;
         }
 
-        this.identify();
+        this.#identifyAfterLimit();
         break;
       }
       case GatewayOpcodes.Dispatch: {
@@ -600,7 +606,8 @@ export class GatewayShard extends EventEmitter {
    */
   resume() {
     if (this.sessionId === undefined) {
-      this.identify();
+      this.#identifyAfterLimit();
+      return;
     }
 
     this.status = GatewayStatus.Resuming;
@@ -610,14 +617,37 @@ export class GatewayShard extends EventEmitter {
         op: GatewayOpcodes.Resume,
         d: {
           token: this.client.token,
-          session_id: this.sessionId!,
-          seq: this.closeSequenceId!,
+          session_id: this.sessionId,
+          seq: (this.closeSequenceId ?? this.sequenceId)!,
         },
       },
       true,
     );
   }
 
+  /**
+   * Restore a session saved before a restart, the shard resumes it when connecting
+   * @param session The saved session
+   */
+  restoreSession(session: GatewaySession) {
+    this.sessionId = session.sessionId;
+    this.sequenceId = session.sequence;
+    this.closeSequenceId = session.sequence;
+    this.resumeURL = session.resumeURL;
+    // Hello will be answered with resume instead of identify
+    this.preReady = true;
+  }
+
+  async #identifyAfterLimit() {
+    try {
+      await this.waitIdentify?.();
+    } catch (err) {
+      this.debug(`Failed to wait the identify rate limit: ${err}`);
+    }
+
+    if (!this.destroyed) this.identify();
+  }
+
   /**
    * Identify this
    * @returns
@@ -667,7 +697,8 @@ export class GatewayShard extends EventEmitter {
       });
     }
 
-    const nonce = options.nonce ?? crypto.randomUUID();
+    // Discord ignores nonces longer than 32 characters
+    const nonce = options.nonce ?? crypto.randomUUID().replace(/-/g, "");
 
     const missingIntents: string[] = [];
     if (
@@ -705,6 +736,8 @@ export class GatewayShard extends EventEmitter {
         nonce,
       },
     });
+
+    return nonce;
   }
 
   updateVoiceState(options: KeysToCamelCase<GatewayVoiceStateUpdateData>) {
@@ -786,17 +819,20 @@ export class GatewayShard extends EventEmitter {
   init() {
     this.status = GatewayStatus.Connecting;
 
-    let gatewayURL = `wss://gateway.discord.gg/?v=10&encoding=${this.options.encoding}`;
+    const gatewayURL = new URL(
+      this.resumeURL ??
+        this.client.options.gateway.url ??
+        "wss://gateway.discord.gg",
+    );
+
+    gatewayURL.searchParams.set("v", "10");
+    gatewayURL.searchParams.set("encoding", this.options.encoding);
 
     if (this.options.compress) {
-      gatewayURL += "&compress=zlib-stream";
+      gatewayURL.searchParams.set("compress", "zlib-stream");
     }
 
-    if (this.resumeURL) {
-      this.ws = new WebSocket(this.resumeURL);
-    } else {
-      this.ws = new WebSocket(gatewayURL);
-    }
+    this.ws = new WebSocket(gatewayURL);
 
     this.connectedAt = Date.now();
     this.ws.binaryType = "arraybuffer";
@@ -829,14 +865,16 @@ export class GatewayShard extends EventEmitter {
     this.emit(ShardEvents.Reconnecting);
     this.debug("Discord asked to reconnect, reconnecting gateway...");
     clearInterval(this.heartbeatSendInterval);
+    this.closeSequenceId = this.sequenceId;
     this.close(CloseCodes.Resuming, "Discord Gateway Reconnect");
     this.init();
   }
 
   /**
    * Destroy this gateway shard
+   * @param code Close code, any code except 1000 and 1001 keeps the session resumable
    */
-  destroy() {
+  destroy(code: number = CloseCodes.Normal) {
     this.debug("Destroying shard...");
     this.destroyed = true;
     this.status = GatewayStatus.Destroyed;
@@ -846,6 +884,6 @@ export class GatewayShard extends EventEmitter {
       this.heartbeatSendInterval = undefined;
     }
 
-    this.close(CloseCodes.Normal, "Shard destroyed");
+    this.close(code, "Shard destroyed");
   }
 }
@@ -0,0 +1,35 @@
+// Run tests against the sources of the workspace packages, only the utils
+// package is built first as its modules import each other in a cycle
+const path = require("node:path");
+const tsNode = require("ts-node");
+const tsConfigPaths = require("tsconfig-paths");
+
+const packages = path.join(__dirname, "../packages");
+const darkcord = tsConfigPaths.loadConfig(path.join(packages, "darkcord"));
+
+// Uses the tsconfig.json of the tested package
+tsNode.register({ transpileOnly: true });
+
+tsConfigPaths.register({
+  baseUrl: packages,
+  // Other modules aren't resolved from the packages directory, like ws
+  addMatchAll: false,
+  paths: {
+    ...Object.fromEntries(
+      ["interactions", "rest", "testing", "ws"].map((name) => [
+        `@darkcord/${name}`,
+        [`${name}/src`],
+      ]),
+    ),
+    darkcord: ["darkcord/src"],
+    // Aliases used in the darkcord sources
+    ...Object.fromEntries(
+      Object.entries(darkcord.paths).map(([alias, targets]) => [
+        alias,
+        targets.map((target) =>
+          path.join(path.relative(packages, darkcord.absoluteBaseUrl), target),
+        ),
+      ]),
+    ),
+  },
+});